@@ -19,31 +19,145 @@ import { Toaster } from '@/components/ui/sonner'
 import { Textarea } from '@/components/ui/textarea'
 import { useSQLFormatter } from '@/hooks/use-sql-formatter'
 import {
-  exportQueryResultToCSVFile,
-  exportQueryResultToJSONFile,
+  useDataSourceCatalog,
+  useQueryHistory,
+  useSavedQueries,
+} from '@/lib/hooks'
+import { SavedQueryInput } from '@/lib/hooks/use-saved-queries'
+import {
+  RESULT_EXPORT_EXTENSIONS,
+  attachDatabaseFile,
+  createRemoteFileView,
+  fetchRemoteFile,
+  replaceTableFromFile,
+  createTableFromRows,
+  detectFileFormat,
+  explainQuery,
+  exportQueryResultToFile,
+  fileNameToTableName,
+  getErrorDiagnostic,
+  getGatedConnection,
+  importFileToTable,
+  invalidateDuckDBCatalog,
+  isQueryInterruption,
+  listExcelSheets,
+  quoteTableName,
+  runExclusive,
+  runInterruptible,
+  runPreparedQuery,
   transformDuckDBResult,
+  transformDuckDBResultPage,
   transformErrorToSQLError,
   useDuckDB,
   useDuckDBConnection,
 } from '@/lib/duckdb'
+import { DEFAULT_OPFS_DATABASE_PATH, isPersistent } from '@/lib/duckdb/init'
 import { DuckDBQueryState } from '@/lib/duckdb/types'
+import {
+  createProfilingInsights,
+  ProfilingInsightsOptions,
+} from '@/lib/insights'
+import { StorageAdapter } from '@/lib/storage'
+import {
+  changesCatalog,
+  isRowReturningQuery,
+  splitSQLStatements,
+} from '@/lib/sql-statements'
+import {
+  BoundQuery,
+  bindQueryParameters,
+  getDefaultParameterValues,
+  referencesParameters,
+} from '@/lib/sql-parameters'
+import {
+  EMPTY_RESULT_VIEW,
+  applyResultView,
+  buildResultViewQuery,
+} from '@/lib/result-view'
 import { cn } from '@/lib/utils'
 import {
+  ColumnInfo,
+  CSVImportOptions,
   DataSource,
+  DataSourceCatalogEntry,
+  DataSourceImportOptions,
   InsightsQuery,
+  QueryHistoryEntry,
+  QueryParameter,
+  QueryParameterValues,
+  QueryPlan,
   QueryResult,
   SavedQuery,
+  QueryExecutionTarget,
+  QueryRunMode,
+  ResultExportFormat,
+  ResultView,
   SQLCockpitProps,
+  SQLDiagnostic,
   SQLError,
+  StatementResult,
 } from '@/types/sql'
 import { Loader2 } from 'lucide-react'
-import React, { useCallback, useEffect, useReducer, useRef, useState } from 'react'
+import type * as monaco from 'monaco-editor'
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useReducer,
+  useRef,
+  useState,
+} from 'react'
 import { toast } from 'sonner'
-import { SQLEditor } from './editor'
+import { getExecutionTarget, SQLEditor } from './editor'
+import { CSVImportDialog } from './csv-import'
+import { ExcelImportDialog } from './excel-import'
 import { HelpDialog } from './help'
+import { QueryParametersDialog } from './query-parameters'
+import { QueryPlanDialog } from './query-plan'
 import { ResultsPanel } from './results'
 import { SQLToolbar } from './toolbar'
 
+/**
+ * A file waiting for its import dialog
+ */
+type PendingFileImport =
+  | { file: File; format: 'csv' }
+  | { file: File; format: 'excel'; sheets: string[] }
+
+/**
+ * A query waiting for its parameter values
+ */
+interface PendingParameterizedRun {
+  title: string
+  /** Key under which the entered values are remembered */
+  key: string
+  parameters: QueryParameter[]
+  columns: Record<string, ColumnInfo[]>
+  initialValues: QueryParameterValues
+  run: (
+    values: QueryParameterValues,
+    columns: Record<string, ColumnInfo[]>
+  ) => Promise<void>
+}
+
+/**
+ * Contents of the query plan dialog
+ */
+interface QueryPlanState {
+  plan: QueryPlan | null
+  error: string | null
+  isLoading: boolean
+}
+
+/**
+ * Parameter values to bind into the statements of a script
+ */
+interface QueryParameterBinding {
+  parameters: QueryParameter[]
+  values: QueryParameterValues
+  columns: Record<string, ColumnInfo[]>
+}
+
 /**
  * Helper component to display table/data source names with styling
  */
@@ -53,40 +167,173 @@ const TableName = ({ children }: { children: React.ReactNode }) => (
   </span>
 )
 
+/**
+ * Formats offered by the Save Results dialog
+ */
+const SAVE_FORMAT_OPTIONS: Array<{
+  format: ResultExportFormat
+  label: string
+  description: string
+  requiresDuckDB?: boolean
+}> = [
+  {
+    format: 'csv',
+    label: 'CSV',
+    description:
+      'Comma-separated values, compatible with Excel and spreadsheets',
+  },
+  {
+    format: 'json',
+    label: 'JSON',
+    description: 'JavaScript Object Notation, ideal for web applications',
+  },
+  {
+    format: 'ndjson',
+    label: 'NDJSON',
+    description: 'One JSON object per line, for streaming and log tooling',
+  },
+  {
+    format: 'arrow',
+    label: 'Arrow',
+    description: 'Apache Arrow IPC file, keeps column types',
+  },
+  {
+    format: 'parquet',
+    label: 'Parquet',
+    description: 'Compressed columnar file for analytics tools',
+    requiresDuckDB: true,
+  },
+  {
+    format: 'excel',
+    label: 'Excel',
+    description: 'XLSX workbook with a single sheet',
+    requiresDuckDB: true,
+  },
+]
+
 /**
  * SQL Cockpit component that integrates all SQL functionality
  */
 export function SQLCockpit({
   initialQuery = '',
+  onQueryExecute,
+  readOnly = false,
+  showLineNumbers = true,
+  theme = 'auto',
+  placeholder,
+  className,
+  children,
   savedQueries = [],
+  savedQueriesStorage,
+  onSavedQueriesChange,
+  onSavedQuerySelect,
+  showHelp = true,
+  helpContent,
+  resultsMaxHeight,
   insightQueries,
+  profilingInsights = false,
   initialDataSources,
   autoCleanupRemovedDataSources = false,
   llmCompletionFunction,
+  enableQueryHistory = true,
+  queryHistoryStorage,
+  userId,
+  maxQueryHistoryEntries,
+  continueOnError = false,
+  pagedResults = true,
+  resultsPageSize = 1000,
+  queryTimeout,
+  validateQueries = false,
+  persistDataSources = false,
+  dataSourceCatalogStorage,
 }: SQLCockpitProps): React.ReactNode {
   return (
     <SQLCockpitWrappedContent
       initialQuery={initialQuery}
+      {...(onQueryExecute && { onQueryExecute })}
+      readOnly={readOnly}
+      showLineNumbers={showLineNumbers}
+      theme={theme}
+      {...(placeholder && { placeholder })}
+      {...(className && { className })}
+      {...(children && { children })}
       savedQueries={savedQueries}
+      {...(savedQueriesStorage && { savedQueriesStorage })}
+      {...(onSavedQueriesChange && { onSavedQueriesChange })}
+      {...(onSavedQuerySelect && { onSavedQuerySelect })}
+      showHelp={showHelp}
+      {...(helpContent && { helpContent })}
+      {...(resultsMaxHeight && { resultsMaxHeight })}
       {...(insightQueries && { insightQueries })}
+      profilingInsights={profilingInsights}
       {...(initialDataSources && { initialDataSources })}
       {...(autoCleanupRemovedDataSources && { autoCleanupRemovedDataSources })}
       {...(llmCompletionFunction && { llmCompletionFunction })}
+      enableQueryHistory={enableQueryHistory}
+      {...(queryHistoryStorage && { queryHistoryStorage })}
+      {...(userId && { userId })}
+      {...(maxQueryHistoryEntries && { maxQueryHistoryEntries })}
+      continueOnError={continueOnError}
+      pagedResults={pagedResults}
+      resultsPageSize={resultsPageSize}
+      {...(queryTimeout && { queryTimeout })}
+      validateQueries={validateQueries}
+      persistDataSources={persistDataSources}
+      {...(dataSourceCatalogStorage && { dataSourceCatalogStorage })}
     />
   )
 }
 
 const SQLCockpitWrappedContent = ({
   initialQuery,
-  savedQueries,
+  onQueryExecute,
+  readOnly,
+  showLineNumbers,
+  theme,
+  placeholder,
+  className,
+  children,
+  savedQueries: initialSavedQueries,
+  savedQueriesStorage,
+  onSavedQueriesChange,
+  onSavedQuerySelect,
+  showHelp,
+  helpContent,
+  resultsMaxHeight,
   insightQueries,
+  profilingInsights,
   initialDataSources,
   autoCleanupRemovedDataSources,
   llmCompletionFunction,
+  enableQueryHistory,
+  queryHistoryStorage,
+  userId,
+  maxQueryHistoryEntries,
+  continueOnError,
+  pagedResults,
+  resultsPageSize,
+  queryTimeout,
+  validateQueries,
+  persistDataSources,
+  dataSourceCatalogStorage,
 }: {
   initialQuery: string
+  onQueryExecute?: (query: string) => Promise<QueryResult>
+  readOnly: boolean
+  showLineNumbers: boolean
+  theme: 'light' | 'dark' | 'auto'
+  placeholder?: string
+  className?: string
+  children?: React.ReactNode
   savedQueries?: SavedQuery[]
+  savedQueriesStorage?: StorageAdapter<SavedQuery[]>
+  onSavedQueriesChange?: (queries: SavedQuery[]) => void
+  onSavedQuerySelect?: (query: SavedQuery) => void
+  showHelp: boolean
+  helpContent?: React.ReactNode | string
+  resultsMaxHeight?: string
   insightQueries?: InsightsQuery[]
+  profilingInsights: boolean | ProfilingInsightsOptions
   initialDataSources?: DataSource[]
   autoCleanupRemovedDataSources?: boolean
   llmCompletionFunction?: (params: {
@@ -98,12 +345,25 @@ const SQLCockpitWrappedContent = ({
     }>
     currentQuery: string
   }) => Promise<string>
+  enableQueryHistory: boolean
+  queryHistoryStorage?: StorageAdapter<QueryHistoryEntry[]>
+  userId?: string
+  maxQueryHistoryEntries?: number
+  continueOnError: boolean
+  pagedResults: boolean
+  resultsPageSize: number
+  queryTimeout?: number
+  validateQueries: boolean
+  persistDataSources: boolean
+  dataSourceCatalogStorage?: StorageAdapter<DataSourceCatalogEntry[]>
 }): React.ReactNode => {
   // SQL editor state
   const [query, setQuery] = useState(initialQuery)
   const queryRef = useRef(query)
   const [showHelpDialog, setShowHelpDialog] = useState(false)
   const [showSaveDialog, setShowSaveDialog] = useState(false)
+  // Files waiting for an import dialog (the first one is shown)
+  const [importQueue, setImportQueue] = useState<PendingFileImport[]>([])
   const [showAIAssistDialog, setShowAIAssistDialog] = useState(false)
   const [aiUserRequest, setAiUserRequest] = useState('')
   const [isGeneratingQuery, setIsGeneratingQuery] = useState(false)
@@ -117,8 +377,16 @@ const SQLCockpitWrappedContent = ({
   }, [query])
 
   // DuckDB state
-  const { db } = useDuckDB()
-  const { connection } = useDuckDBConnection(db)
+  const { db } = useDuckDB(
+    persistDataSources ? { opfsPath: DEFAULT_OPFS_DATABASE_PATH } : undefined
+  )
+  const { connection: duckDBConnection } = useDuckDBConnection(db)
+  // Queries the user runs hold the connection while they run; everything
+  // else uses the gated connection, which waits for them (see runExclusive)
+  const connection = useMemo(
+    () => duckDBConnection && getGatedConnection(duckDBConnection),
+    [duckDBConnection]
+  )
 
   // Track which data source IDs have been loaded (to handle dynamic updates)
   const loadedDataSourceIdsRef = useRef<Set<string>>(new Set())
@@ -130,6 +398,75 @@ const SQLCockpitWrappedContent = ({
   const [queryResult, setQueryResult] = useState<QueryResult | null>(null)
   const [queryError, setQueryError] = useState<SQLError | null>(null)
 
+  // Per-statement results of the last multi-statement execution
+  const [statementResults, setStatementResults] = useState<StatementResult[]>(
+    []
+  )
+  const [activeStatementIndex, setActiveStatementIndex] = useState(0)
+  const [isFetchingPage, setIsFetchingPage] = useState(false)
+
+  // Sorting and filtering of each statement's result, by statement index
+  const [resultViews, setResultViews] = useState<Record<number, ResultView>>({})
+  const activeResultView =
+    resultViews[activeStatementIndex] ?? EMPTY_RESULT_VIEW
+
+  // Run mode of the toolbar button and Ctrl+Enter, and the editor range that
+  // last ran
+  const [runMode, setRunMode] = useState<QueryRunMode>('all')
+  const [executedRange, setExecutedRange] = useState<{
+    start: number
+    end: number
+  } | null>(null)
+  // Errors of the statements that last ran, marked in the editor
+  const [errorDiagnostics, setErrorDiagnostics] = useState<SQLDiagnostic[]>([])
+  const editorRef = useRef<monaco.editor.ICodeEditor | null>(null)
+
+  // Incremented for every execution, so only the latest execution may update
+  // the results
+  const executionIdRef = useRef(0)
+  // Aborted to cancel the running execution
+  const abortControllerRef = useRef<AbortController | null>(null)
+  // Incremented for every result page request, so a slower request for an
+  // earlier page or view can't replace the rows of the latest one
+  const pageRequestIdRef = useRef(0)
+
+  // Query history
+  const {
+    entries: queryHistory,
+    addEntry: addHistoryEntry,
+    removeEntry: removeHistoryEntry,
+    clearHistory,
+  } = useQueryHistory({
+    storage: queryHistoryStorage,
+    userId,
+    enabled: enableQueryHistory,
+    ...(maxQueryHistoryEntries && { maxEntries: maxQueryHistoryEntries }),
+  })
+
+  // Saved queries
+  const {
+    queries: savedQueries,
+    createQuery: createSavedQuery,
+    updateQuery: updateSavedQuery,
+    deleteQuery: deleteSavedQuery,
+  } = useSavedQueries({
+    initialQueries: initialSavedQueries,
+    storage: savedQueriesStorage,
+    userId,
+    onChange: onSavedQueriesChange,
+  })
+
+  // Persisted data source catalog
+  const {
+    entries: dataSourceCatalog,
+    isLoaded: isDataSourceCatalogLoaded,
+    saveCatalog: saveDataSourceCatalog,
+  } = useDataSourceCatalog({
+    storage: dataSourceCatalogStorage,
+    userId,
+    enabled: persistDataSources,
+  })
+
   // Selection state
   const [selectedColumns, setSelectedColumns] = useState<Set<number>>(new Set())
   const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set())
@@ -174,6 +511,13 @@ const SQLCockpitWrappedContent = ({
     })
   })
 
+  // Whether persisted data sources have been restored (initial data sources
+  // are loaded afterwards, so tables restored from OPFS are not imported again)
+  const [isCatalogRestored, setIsCatalogRestored] =
+    useState(!persistDataSources)
+  const restoredDataSourceIdsRef = useRef<Set<string>>(new Set())
+  const isRestoringCatalogRef = useRef(false)
+
   // Use ref for batch loading to avoid race conditions with effects
   const isLoadingBatchRef = useRef(false)
   const currentLoadOperationRef = useRef<number | null>(null)
@@ -190,6 +534,74 @@ const SQLCockpitWrappedContent = ({
   const [currentInsightsQuery, setCurrentInsightsQuery] =
     useState<InsightsQuery | null>(null)
 
+  // Query waiting for its parameter values, the last values entered per
+  // query, and the parameters of the saved query loaded into the editor
+  const [pendingParameterizedRun, setPendingParameterizedRun] =
+    useState<PendingParameterizedRun | null>(null)
+  const parameterValuesRef = useRef(new Map<string, QueryParameterValues>())
+
+  // Query plan shown in the explain dialog (null while it is closed)
+  const [queryPlanState, setQueryPlanState] = useState<QueryPlanState | null>(
+    null
+  )
+  const [editorQueryParameters, setEditorQueryParameters] = useState<
+    QueryParameter[] | null
+  >(null)
+
+  // Ask for parameter values before running a query. Column parameters offer
+  // the columns of their table, by default the data source the query runs on
+  // or else every loaded data source.
+  const requestParameterValues = useCallback(
+    (request: {
+      title: string
+      key: string
+      parameters: QueryParameter[]
+      dataSource?: DataSource | undefined
+      run: PendingParameterizedRun['run']
+    }): void => {
+      const columns: Record<string, ColumnInfo[]> = {}
+      for (const parameter of request.parameters) {
+        if (parameter.type !== 'column') continue
+        const table = parameter.table ?? request.dataSource?.tableName
+        const schemas = dataSources
+          .filter(ds => (table ? ds.tableName === table : !!ds.schema))
+          .map(ds => ds.schema ?? [])
+        columns[parameter.name] = schemas
+          .flat()
+          .filter(
+            (column, index, all) =>
+              all.findIndex(other => other.name === column.name) === index
+          )
+      }
+
+      setPendingParameterizedRun({
+        ...request,
+        columns,
+        initialValues: {
+          ...getDefaultParameterValues(request.parameters),
+          ...parameterValuesRef.current.get(request.key),
+        },
+      })
+    },
+    [dataSources]
+  )
+
+  // Built-in profiling insights, generated from the loaded data sources
+  const profilingInsightQueries = useMemo(() => {
+    if (!profilingInsights) return []
+    const options = profilingInsights === true ? {} : profilingInsights
+    return dataSources
+      .filter(
+        ds => ds.loadingStatus === undefined || ds.loadingStatus === 'loaded'
+      )
+      .flatMap(ds => createProfilingInsights(ds, options))
+  }, [dataSources, profilingInsights])
+
+  const availableInsightQueries = useMemo(
+    () => [...(insightQueries ?? []), ...profilingInsightQueries],
+    [insightQueries, profilingInsightQueries]
+  )
+
   // SQL formatter
   const {
     formatQuery: formatQueryAsync,
@@ -200,48 +612,415 @@ const SQLCockpitWrappedContent = ({
     keywordCase: 'upper',
   })
 
-  // Execute query
-  const handleRunQuery = useCallback(async (): Promise<void> => {
-    if (!query.trim() || !connection) {
-      return
-    }
+  // Execute the given SQL and record it in the query history; sourceOffset
+  // is where the SQL starts in the editor, to mark failing statements there
+  const executeQuery = useCallback(
+    async (
+      sql: string,
+      binding?: QueryParameterBinding,
+      sourceOffset = 0
+    ): Promise<void> => {
+      // A remote engine (onQueryExecute) does not need the DuckDB connection
+      if (!sql.trim() || (!onQueryExecute && !connection)) {
+        return
+      }
+
+      const statements = splitSQLStatements(sql)
+      if (statements.length === 0) {
+        return
+      }
 
-    const startTime = Date.now()
-    setQueryState(DuckDBQueryState.QueryRunning)
-    setQueryError(null)
-        setCurrentInsightsQuery(null)
+      // Bind parameter values up front, so invalid values fail before anything runs
+      if (binding && onQueryExecute) {
+        throw new Error('Query parameters need the local DuckDB engine')
+      }
+      const boundStatements: BoundQuery[] = statements.map(statement =>
+        binding
+          ? bindQueryParameters(
+              statement.text,
+              binding.parameters,
+              binding.values,
+              binding.columns
+            )
+          : { sql: statement.text, params: [] }
+      )
 
-    // Clear format error when running a new query
-    clearFormatError()
+      const executionId = ++executionIdRef.current
+      abortControllerRef.current?.abort()
+      const abortController = new AbortController()
+      abortControllerRef.current = abortController
+      const startTime = Date.now()
+      setQueryState(DuckDBQueryState.QueryRunning)
+      setQueryError(null)
+      setErrorDiagnostics([])
+      setStatementResults([])
+      setResultViews({})
+      setCurrentInsightsQuery(null)
 
-    try {
-      const result = await transformDuckDBResult(connection, query, startTime)
-      setQueryResult(result)
-      setQueryState(DuckDBQueryState.QueryCompleted)
-    } catch (err) {
-      setQueryError(transformErrorToSQLError(err))
-      setQueryState(DuckDBQueryState.QueryError)
-    }
-  }, [query, connection])
+      // Clear format error when running a new query
+      clearFormatError()
+
+      // Run statements in order; after a failure the rest are skipped unless
+      // continueOnError is set, after a cancellation they always are
+      const results: StatementResult[] = []
+      let firstError: StatementResult | undefined
+      for (const [index, statement] of boundStatements.entries()) {
+        if ((firstError && !continueOnError) || abortController.signal.aborted) {
+          results.push({
+            index,
+            statement: statement.sql,
+            status: 'skipped',
+            executionTime: 0,
+          })
+          continue
+        }
+
+        const statementStartTime = Date.now()
+        const params = statement.params.length > 0 ? statement.params : null
+        try {
+          // Plain queries on the local engine are fetched one page at a time
+          const result = await runInterruptible(
+            onQueryExecute ? null : connection,
+            signal =>
+              onQueryExecute
+                ? onQueryExecute(statement.sql)
+                : runExclusive(connection!, exclusive =>
+                    pagedResults && isRowReturningQuery(statement.sql)
+                      ? transformDuckDBResultPage(
+                          exclusive,
+                          statement.sql,
+                          {
+                            offset: 0,
+                            limit: resultsPageSize,
+                            params: statement.params,
+                            signal,
+                          },
+                          statementStartTime
+                        )
+                      : transformDuckDBResult(
+                          exclusive,
+                          statement.sql,
+                          statementStartTime,
+                          statement.params,
+                          signal
+                        )
+                  ),
+            { signal: abortController.signal, timeoutMs: queryTimeout }
+          )
+          results.push({
+            index,
+            statement: statement.sql,
+            ...(params && { params }),
+            status: 'success',
+            result,
+            executionTime: result.executionTime,
+          })
+          // Completion reads the catalog again after DDL
+          if (connection && changesCatalog(statement.sql)) {
+            invalidateDuckDBCatalog(connection)
+          }
+        } catch (err) {
+          const failed: StatementResult = {
+            index,
+            statement: statement.sql,
+            ...(params && { params }),
+            status: 'error',
+            error: transformErrorToSQLError(err, statement.sql),
+            executionTime: Date.now() - statementStartTime,
+          }
+          results.push(failed)
+          firstError = firstError || failed
+        }
+
+        // Ignore results of executions that were superseded
+        if (executionId !== executionIdRef.current) return
+        setStatementResults([...results])
+      }
+      abortControllerRef.current = null
+
+      // Show the first failure, otherwise the last statement's result
+      const lastSuccess = [...results]
+        .reverse()
+        .find(item => item.status === 'success')
+      const active = firstError ?? lastSuccess ?? results[results.length - 1]!
+      setActiveStatementIndex(active.index)
+      setQueryResult(active.result ?? null)
+      setQueryError(active.error ?? null)
+      setErrorDiagnostics(
+        results.flatMap(({ index, error }) =>
+          error && !isQueryInterruption(error)
+            ? [
+                getErrorDiagnostic(
+                  error,
+                  statements[index]!.text,
+                  sourceOffset + statements[index]!.start
+                ),
+              ]
+            : []
+        )
+      )
+      setQueryState(
+        firstError
+          ? DuckDBQueryState.QueryError
+          : DuckDBQueryState.QueryCompleted
+      )
+
+      const interruption = results
+        .map(item => item.error)
+        .find(isQueryInterruption)?.type
+      addHistoryEntry({
+        query: sql,
+        executionTime: Date.now() - startTime,
+        ...(lastSuccess?.result && {
+          rowCount:
+            lastSuccess.result.rowCount ??
+            lastSuccess.result.totalCount ??
+            lastSuccess.result.data.length,
+        }),
+        ...(firstError?.error && { error: firstError.error.message }),
+        ...(interruption && { interruption }),
+      })
+    },
+    [
+      connection,
+      onQueryExecute,
+      continueOnError,
+      pagedResults,
+      resultsPageSize,
+      queryTimeout,
+      addHistoryEntry,
+    ]
+  )
+
+  // Results shown with their sorting and filtering applied; paged results
+  // already come sorted and filtered from the database
+  const viewedQueryResult = useMemo(
+    () =>
+      queryResult && queryResult.offset === undefined
+        ? applyResultView(queryResult, activeResultView)
+        : queryResult,
+    [queryResult, activeResultView]
+  )
+
+  // Fetch a page of the active statement's paged result with a view applied
+  const fetchResultPage = useCallback(
+    async (
+      offset: number,
+      limit: number,
+      view: ResultView,
+      totalCount: number | undefined
+    ): Promise<void> => {
+      const statementResult = statementResults[activeStatementIndex]
+      if (!connection || !statementResult) {
+        return
+      }
+
+      const executionId = executionIdRef.current
+      const pageRequestId = ++pageRequestIdRef.current
+      const isStale = (): boolean =>
+        executionId !== executionIdRef.current ||
+        pageRequestId !== pageRequestIdRef.current
+      setIsFetchingPage(true)
+      try {
+        const page = await runExclusive(connection, exclusive =>
+          transformDuckDBResultPage(
+            exclusive,
+            buildResultViewQuery(statementResult.statement, view),
+            { offset, limit, totalCount, params: statementResult.params },
+            Date.now()
+          )
+        )
+        if (isStale()) return
+
+        setQueryResult(page)
+        setStatementResults(prev =>
+          prev.map(item =>
+            item.index === statementResult.index
+              ? { ...item, result: page }
+              : item
+          )
+        )
+      } catch (err) {
+        if (isStale()) return
+        console.error(
+          '[blockether-foundation-react] Failed to fetch result page:',
+          err
+        )
+        toast.error('Failed to fetch result page')
+      } finally {
+        if (pageRequestId === pageRequestIdRef.current) {
+          setIsFetchingPage(false)
+        }
+      }
+    },
+    [connection, statementResults, activeStatementIndex]
+  )
+
+  // Fetch another page of the active statement's paged result
+  const handlePageRequest = useCallback(
+    async (offset: number, limit: number): Promise<void> => {
+      if (queryResult?.offset === undefined) return
+      await fetchResultPage(
+        offset,
+        limit,
+        activeResultView,
+        queryResult.totalCount
+      )
+    },
+    [queryResult, activeResultView, fetchResultPage]
+  )
+
+  // Sort or filter the active result; paged results are fetched again with
+  // the view pushed down into DuckDB
+  const handleResultViewChange = useCallback(
+    (view: ResultView): void => {
+      setResultViews(prev => ({ ...prev, [activeStatementIndex]: view }))
+      if (queryResult?.offset !== undefined) {
+        void fetchResultPage(0, resultsPageSize, view, undefined)
+      }
+    },
+    [activeStatementIndex, queryResult, resultsPageSize, fetchResultPage]
+  )
+
+  // Load every row of the active result, for exports of paged results
+  const handleLoadFullResult =
+    useCallback(async (): Promise<QueryResult | null> => {
+      const statementResult = statementResults[activeStatementIndex]
+      if (
+        !connection ||
+        !statementResult ||
+        !queryResult ||
+        queryResult.offset === undefined ||
+        queryResult.totalCount === undefined ||
+        queryResult.totalCount <= queryResult.data.length
+      ) {
+        return viewedQueryResult
+      }
+      return transformDuckDBResult(
+        connection,
+        buildResultViewQuery(statementResult.statement, activeResultView),
+        Date.now(),
+        statementResult.params
+      )
+    }, [
+      connection,
+      statementResults,
+      activeStatementIndex,
+      queryResult,
+      viewedQueryResult,
+      activeResultView,
+    ])
+
+  // Switch the results panel to another statement of the last script
+  const handleActiveStatementChange = useCallback(
+    (index: number): void => {
+      const statementResult = statementResults[index]
+      if (!statementResult || statementResult.status === 'skipped') {
+        return
+      }
+      setActiveStatementIndex(index)
+      setQueryResult(statementResult.result ?? null)
+      setQueryError(statementResult.error ?? null)
+    },
+    [statementResults]
+  )
+
+  // Run SQL from the editor; when it references the parameters of the loaded
+  // saved query, their values are asked for first
+  const runEditorQuery = useCallback(
+    async (sql: string, sourceOffset = 0): Promise<void> => {
+      if (
+        !editorQueryParameters ||
+        !referencesParameters(sql, editorQueryParameters)
+      ) {
+        await executeQuery(sql, undefined, sourceOffset)
+        return
+      }
+
+      requestParameterValues({
+        title: 'Query parameters',
+        key: `editor:${editorQueryParameters.map(p => p.name).join(',')}`,
+        parameters: editorQueryParameters,
+        run: (values, columns) =>
+          executeQuery(
+            sql,
+            { parameters: editorQueryParameters, values, columns },
+            sourceOffset
+          ),
+      })
+    },
+    [editorQueryParameters, executeQuery, requestParameterValues]
+  )
+
+  // Run the SQL picked from the editor and highlight it unless the whole
+  // buffer ran
+  const handleExecuteTarget = useCallback(
+    async (target: QueryExecutionTarget): Promise<void> => {
+      setExecutedRange(
+        target.mode === 'all' ? null : { start: target.start, end: target.end }
+      )
+      await runEditorQuery(target.sql, target.start)
+    },
+    [runEditorQuery]
+  )
+
+  // Execute query (toolbar button and global shortcut)
+  const handleRunQuery = useCallback(
+    async (mode: QueryRunMode = runMode): Promise<void> => {
+      const editor = editorRef.current
+      if (!editor) {
+        await runEditorQuery(query)
+        return
+      }
+
+      // A non-empty selection always wins over the default mode
+      const selection = editor.getSelection()
+      const target = getExecutionTarget(
+        editor,
+        mode === 'all' && selection && !selection.isEmpty() ? 'selection' : mode
+      )
+      if (target) {
+        await handleExecuteTarget(target)
+      }
+    },
+    [query, runMode, runEditorQuery, handleExecuteTarget]
+  )
 
-  // Cancel query
-  const handleCancelQuery = useCallback(async (): Promise<void> => {
-    if (!connection) {
+  // Pick a run mode from the toolbar menu and run with it right away
+  const handleRunModeSelect = useCallback(
+    (mode: QueryRunMode): void => {
+      setRunMode(mode)
+      void handleRunQuery(mode)
+    },
+    [handleRunQuery]
+  )
+
+  // Keep a handle on the Monaco editor for selection-based execution
+  const handleEditorMount = useCallback(
+    (editor: monaco.editor.ICodeEditor): void => {
+      editorRef.current = editor
+    },
+    []
+  )
+
+  // Cancel query; the execution reports the cancellation once DuckDB
+  // stopped the query
+  const handleCancelQuery = useCallback((): void => {
+    const abortController = abortControllerRef.current
+    if (!abortController || abortController.signal.aborted) {
       return
     }
 
     setQueryState(DuckDBQueryState.QueryInterrupting)
-    try {
-      await connection.cancelSent()
-      setQueryState(DuckDBQueryState.QueryIdle)
-    } catch (err) {
-      console.error('[blockether-foundation-react] Failed to cancel query:', err)
-      setQueryState(DuckDBQueryState.QueryIdle)
-    }
-  }, [connection])
+    abortController.abort()
+  }, [])
 
   // Format query
   const handleFormatQuery = useCallback(async (): Promise<void> => {
+    if (readOnly) {
+      return
+    }
+
     try {
       const currentQuery = queryRef.current
       const formatted = await formatQueryAsync(currentQuery)
@@ -249,7 +1028,51 @@ const SQLCockpitWrappedContent = ({
     } catch (err) {
       // Formatting errors are handled by the hook
     }
-  }, [formatQueryAsync])
+  }, [formatQueryAsync, readOnly])
+
+  // Profile the selected text or the statement under the cursor with
+  // EXPLAIN ANALYZE
+  const handleExplainQuery = useCallback(async (): Promise<void> => {
+    if (!connection || onQueryExecute) {
+      return
+    }
+
+    const editor = editorRef.current
+    const selection = editor?.getSelection()
+    const target = editor
+      ? getExecutionTarget(
+          editor,
+          selection && !selection.isEmpty() ? 'selection' : 'statement'
+        )
+      : null
+    const statements = splitSQLStatements(target?.sql ?? queryRef.current)
+    if (statements.length !== 1) {
+      setQueryPlanState({
+        plan: null,
+        error: 'Select a single statement to explain',
+        isLoading: false,
+      })
+      return
+    }
+
+    setQueryPlanState({ plan: null, error: null, isLoading: true })
+    try {
+      const plan = await runExclusive(connection, exclusive =>
+        explainQuery(exclusive, statements[0]!.text)
+      )
+      // Keep the dialog closed if it was closed in the meantime
+      setQueryPlanState(prev => prev && { plan, error: null, isLoading: false })
+    } catch (err) {
+      setQueryPlanState(
+        prev =>
+          prev && {
+            plan: null,
+            error: transformErrorToSQLError(err).message,
+            isLoading: false,
+          }
+      )
+    }
+  }, [connection, onQueryExecute])
 
   // Show help
   const handleShowHelp = useCallback((): void => {
@@ -311,7 +1134,7 @@ const SQLCockpitWrappedContent = ({
               }
 
               console.log(`[blockether-foundation-react] Fetching sample data for table: ${ds.tableName}`)
-              const sampleQuery = `SELECT * FROM "${ds.tableName}" LIMIT 5`
+              const sampleQuery = `SELECT * FROM ${quoteTableName(ds.tableName)} LIMIT 5`
               console.log(`[blockether-foundation-react] Sample query: ${sampleQuery}`)
 
               const sampleResult = await transformDuckDBResult(
@@ -379,10 +1202,43 @@ const SQLCockpitWrappedContent = ({
   const handleSavedQuerySelect = useCallback(
     (selectedQuery: SavedQuery): void => {
       setQuery(selectedQuery.query)
+      setEditorQueryParameters(selectedQuery.parameters ?? null)
+      onSavedQuerySelect?.(selectedQuery)
+    },
+    [onSavedQuerySelect]
+  )
+
+  // Save the current editor contents (or an edited copy) as a new saved query
+  const handleSavedQueryCreate = useCallback(
+    (input: SavedQueryInput): void => {
+      const created = createSavedQuery(input)
+      toast.success(
+        <span>
+          Saved query<TableName>{created.name}</TableName>
+        </span>
+      )
+    },
+    [createSavedQuery]
+  )
+
+  // Load a history entry into the editor
+  const handleHistorySelect = useCallback(
+    (entry: QueryHistoryEntry): void => {
+      setQuery(entry.query)
     },
     []
   )
 
+  // Load a history entry into the editor and run it again
+  const handleHistoryRerun = useCallback(
+    (entry: QueryHistoryEntry): void => {
+      setQuery(entry.query)
+      setExecutedRange(null)
+      void runEditorQuery(entry.query)
+    },
+    [runEditorQuery]
+  )
+
   // Enhanced function to get table schema using DuckDB DESCRIBE
   const getTableSchema = useCallback(
     async (tableName: string): Promise<DataSource['schema']> => {
@@ -390,7 +1246,9 @@ const SQLCockpitWrappedContent = ({
 
       try {
         // Use DuckDB's DESCRIBE to get column information
-        const describeResult = await connection.query(`DESCRIBE ${tableName}`)
+        const describeResult = await connection.query(
+          `DESCRIBE ${quoteTableName(tableName)}`
+        )
         const schemaData = describeResult.toArray()
 
         return schemaData.map((col: any) => ({
@@ -408,7 +1266,14 @@ const SQLCockpitWrappedContent = ({
 
   // Handle file import
   const handleImportFile = useCallback(
-    async (file: File, existingDataSourceId?: string): Promise<void> => {
+    async (
+      file: File,
+      existingDataSourceId?: string,
+      options: {
+        csv?: CSVImportOptions | undefined
+        sheets?: string[] | undefined
+      } = {}
+    ): Promise<void> => {
       if (!connection) {
         console.error('[blockether-foundation-react] No database connection available')
         return
@@ -422,122 +1287,133 @@ const SQLCockpitWrappedContent = ({
             ds => ds.id === existingDataSourceId
           )
           tableName =
-            existingDataSource?.tableName ||
-            file.name.replace(/\.[^/.]+$/, '').replace(/[^a-zA-Z0-9_]/g, '_')
+            existingDataSource?.tableName || fileNameToTableName(file.name)
         } else {
-          tableName = file.name
-            .replace(/\.[^/.]+$/, '')
-            .replace(/[^a-zA-Z0-9_]/g, '_')
+          tableName =
+            options.csv?.tableName?.trim() || fileNameToTableName(file.name)
+        }
+
+        const format = await detectFileFormat(file)
+        if (!format) {
+          throw new Error(`Unsupported file type: ${file.name}`)
         }
 
         // Read file content
         const arrayBuffer = await file.arrayBuffer()
         const uint8Array = new Uint8Array(arrayBuffer)
 
-        // Register the file with DuckDB
-        await db?.registerFileBuffer(file.name, uint8Array)
-
-        // Determine file type and create appropriate SQL
-        let createTableSQL = ''
-        if (file.name.endsWith('.csv')) {
-          console.log(`[blockether-foundation-react] Importing CSV file: ${file.name}`)
-          console.log(`[blockether-foundation-react] Table name: ${tableName}`)
-
-          // First, let's check what DuckDB sees in the CSV
-          try {
-            // Use sample_size=-1 to force DuckDB to scan entire file for type detection
-            // Combined with all_varchar=true to prevent type inference issues
-            const previewQuery = `SELECT * FROM read_csv('${file.name}', header=true, delim=',', quote='"', sample_size=-1, all_varchar=true) LIMIT 3`
-            console.log(`[blockether-foundation-react] Preview query: ${previewQuery}`)
-            const preview = await connection.query(previewQuery)
-            const previewData = preview.toArray()
-            console.log(`[blockether-foundation-react] CSV Preview (first 3 rows):`, previewData)
-            console.log(
-              `[blockether-foundation-react] Detected columns:`,
-              preview.schema.fields.map((f: any) => f.name)
-            )
-          } catch (error) {
-            console.error(`[blockether-foundation-react] Failed to preview CSV:`, error)
-          }
-
-          // Use explicit parameters: sample_size=-1 ensures full file scan, all_varchar prevents type confusion
-          createTableSQL = `CREATE TABLE ${tableName} AS SELECT * FROM read_csv('${file.name}', header=true, delim=',', quote='"', sample_size=-1, all_varchar=true)`
-        } else if (file.name.endsWith('.parquet')) {
-          createTableSQL = `CREATE TABLE ${tableName} AS SELECT * FROM read_parquet('${file.name}')`
-        } else if (
-          file.name.endsWith('.json') ||
-          file.name.endsWith('.jsonl')
-        ) {
-          createTableSQL = `CREATE TABLE ${tableName} AS SELECT * FROM read_json('${file.name}', AUTO_DETECT=TRUE)`
-        } else {
-          throw new Error(`Unsupported file type: ${file.name}`)
+        // Register the file with DuckDB. The buffer is transferred to the
+        // worker, so Arrow files (inserted from the bytes) are not registered.
+        if (format !== 'arrow') {
+          await db?.registerFileBuffer(file.name, uint8Array)
         }
 
-        // Execute the CREATE TABLE query
-        console.log(`[blockether-foundation-react] Executing CREATE TABLE: ${createTableSQL}`)
-        await connection.query(createTableSQL)
+        const fileInfo = {
+          name: file.name,
+          size: file.size,
+          type: file.type,
+        }
 
-        // Verify table was created correctly
-        try {
-          const verifyQuery = `SELECT * FROM ${tableName} LIMIT 3`
-          const verifyResult = await connection.query(verifyQuery)
-          const verifyData = verifyResult.toArray()
-          console.log(`[blockether-foundation-react] Table created. First 3 rows:`, verifyData)
-          console.log(
-            `[blockether-foundation-react] Table columns:`,
-            verifyResult.schema.fields.map((f: any) => f.name)
+        // Database files are attached; each of their tables becomes a data
+        // source (replacing the data source the file was loaded for)
+        if (format === 'duckdb' || format === 'sqlite') {
+          const qualifiedNames = await attachDatabaseFile(
+            connection,
+            file.name,
+            tableName,
+            format
           )
-          console.log(
-            `[blockether-foundation-react] Total rows in table:`,
-            (
-              await connection.query(
-                `SELECT COUNT(*) as count FROM ${tableName}`
-              )
-            ).toArray()[0].count
+          const idPrefix = existingDataSourceId ?? `file_${Date.now()}`
+          const tableDataSources = await Promise.all(
+            qualifiedNames.map(async (qualifiedName): Promise<DataSource> => {
+              const schema = await getTableSchema(qualifiedName)
+              return {
+                id: `${idPrefix}_${qualifiedName}`,
+                name: `${file.name}: ${qualifiedName.slice(tableName.length + 1)}`,
+                type: 'table',
+                tableName: qualifiedName,
+                file: fileInfo,
+                importOptions: { format },
+                ...(schema && { schema }),
+                createdAt: new Date(),
+                loadingStatus: 'loaded',
+              }
+            })
           )
-        } catch (error) {
-          console.error(`[blockether-foundation-react] Failed to verify table:`, error)
+          setDataSources(prev => [
+            ...prev.filter(ds => ds.id !== existingDataSourceId),
+            ...tableDataSources,
+          ])
+          return
         }
 
-        // Get table schema using DuckDB DESCRIBE
-        const schema = await getTableSchema(tableName)
+        // Excel workbooks create one table per sheet; without a selection,
+        // the first sheet is imported into `tableName`
+        const sheets: Array<string | undefined> =
+          format === 'excel' && options.sheets?.length
+            ? options.sheets
+            : [undefined]
 
-        // If updating an existing datasource, preserve its metadata
-        if (existingDataSourceId) {
-          setDataSources(prev =>
-            prev.map(ds => {
-              if (ds.id === existingDataSourceId) {
-                return {
-                  ...ds,
-                  file: {
-                    name: file.name,
-                    size: file.size,
-                    type: file.type,
-                  },
-                  ...(schema && { schema }),
-                }
-              }
-              return ds
-            })
+        for (const sheet of sheets) {
+          const sheetTableName =
+            sheet && sheets.length > 1
+              ? `${tableName}_${fileNameToTableName(sheet)}`
+              : tableName
+
+          console.log(
+            `[blockether-foundation-react] Importing ${format} file ${file.name} into table ${sheetTableName}`
           )
-        } else {
-          // Add to data sources as a new entry
-          const newDataSource: DataSource = {
-            id: `file_${Date.now()}`,
-            name: file.name,
-            type: 'file',
-            tableName,
-            file: {
-              name: file.name,
-              size: file.size,
-              type: file.type,
-            },
-            ...(schema && { schema }),
-            createdAt: new Date(),
-            loadingStatus: 'loaded',
+          await importFileToTable(
+            connection,
+            file.name,
+            uint8Array,
+            format,
+            sheetTableName,
+            { csv: options.csv, sheet }
+          )
+
+          // Get table schema using DuckDB DESCRIBE
+          const schema = await getTableSchema(sheetTableName)
+          const importOptions: DataSourceImportOptions = {
+            format,
+            ...(options.csv && { csv: options.csv }),
+            ...(sheet && { sheet }),
           }
 
-          setDataSources(prev => [...prev, newDataSource])
+          // If updating an existing datasource, preserve its metadata
+          if (existingDataSourceId && sheetTableName === tableName) {
+            setDataSources(prev =>
+              prev.map(ds => {
+                if (ds.id === existingDataSourceId) {
+                  return {
+                    ...ds,
+                    file: fileInfo,
+                    importOptions,
+                    ...(schema && { schema }),
+                  }
+                }
+                return ds
+              })
+            )
+          } else {
+            // Add to data sources as a new entry
+            const newDataSource: DataSource = {
+              id: `file_${Date.now()}_${sheetTableName}`,
+              name:
+                sheet && sheets.length > 1
+                  ? `${file.name}: ${sheet}`
+                  : file.name,
+              type: 'file',
+              tableName: sheetTableName,
+              file: fileInfo,
+              importOptions,
+              ...(schema && { schema }),
+              createdAt: new Date(),
+              loadingStatus: 'loaded',
+            }
+
+            setDataSources(prev => [...prev, newDataSource])
+          }
         }
       } catch (error) {
         console.error('[blockether-foundation-react] Failed to import file:', error)
@@ -547,49 +1423,240 @@ const SQLCockpitWrappedContent = ({
     [connection, db, getTableSchema, dataSources]
   )
 
+  // Files picked or dropped by the user; CSV files and workbooks with several
+  // sheets go through an import dialog
+  const handleImportFileWithDialog = useCallback(
+    async (file: File): Promise<void> => {
+      const format = db && connection ? await detectFileFormat(file) : null
+      if (format === 'csv') {
+        setImportQueue(prev => [...prev, { file, format }])
+        return
+      }
+      if (format === 'excel') {
+        const sheets = await listExcelSheets(file)
+        if (sheets.length > 1) {
+          setImportQueue(prev => [...prev, { file, format, sheets }])
+          return
+        }
+      }
+      await handleImportFile(file)
+    },
+    [db, connection, handleImportFile]
+  )
+
+  const handleCSVImport = useCallback(
+    async (file: File, options: CSVImportOptions): Promise<void> => {
+      await handleImportFile(file, undefined, { csv: options })
+      setImportQueue(prev => prev.slice(1))
+    },
+    [handleImportFile]
+  )
+
+  const handleExcelImport = useCallback(
+    async (file: File, sheets: string[]): Promise<void> => {
+      await handleImportFile(file, undefined, { sheets })
+      setImportQueue(prev => prev.slice(1))
+    },
+    [handleImportFile]
+  )
+
+  const handleImportCancel = useCallback((): void => {
+    setImportQueue(prev => prev.slice(1))
+  }, [])
+
+  // Data sources being refreshed; they stay queryable until the new rows
+  // replace the table
+  const [refreshingDataSourceIds, setRefreshingDataSourceIds] = useState<
+    ReadonlySet<string>
+  >(new Set())
+  const refreshingDataSourceIdsRef = useRef<Set<string>>(new Set())
+  const dataSourcesRef = useRef(dataSources)
+  useEffect(() => {
+    dataSourcesRef.current = dataSources
+  }, [dataSources])
+
+  // Download a url data source again and swap its table
+  const handleRefreshDataSource = useCallback(
+    async (dataSource: DataSource): Promise<void> => {
+      const { id, url, tableName } = dataSource
+      if (!db || !connection || !url || dataSource.importStrategy === 'view') {
+        return
+      }
+      if (refreshingDataSourceIdsRef.current.has(id)) return
+
+      const updateRefreshing = (): void =>
+        setRefreshingDataSourceIds(new Set(refreshingDataSourceIdsRef.current))
+      refreshingDataSourceIdsRef.current.add(id)
+      updateRefreshing()
+
+      try {
+        const current =
+          dataSourcesRef.current.find(ds => ds.id === id) ?? dataSource
+        const download = await fetchRemoteFile(
+          url,
+          current.refresh?.conditional === false
+            ? undefined
+            : current.remoteVersion
+        )
+
+        let changes: Partial<DataSource> = { lastRefreshedAt: new Date() }
+        if (download) {
+          const { file, version } = download
+          const format =
+            current.importOptions?.format ?? (await detectFileFormat(file))
+          if (!format) throw new Error(`Unsupported file type: ${file.name}`)
+
+          await replaceTableFromFile(db, connection, tableName, file, format, {
+            csv: current.importOptions?.csv,
+            sheet: current.importOptions?.sheet,
+          })
+          const schema = await getTableSchema(tableName)
+          changes = {
+            ...changes,
+            remoteVersion: version,
+            file: { name: file.name, size: file.size, type: file.type },
+            ...(schema && { schema }),
+          }
+        }
+
+        setDataSources(prev =>
+          prev.map(ds => (ds.id === id ? { ...ds, ...changes } : ds))
+        )
+      } catch (error) {
+        console.error(
+          `[blockether-foundation-react] Failed to refresh data source ${dataSource.name}:`,
+          error
+        )
+        toast.error(
+          <span>
+            Failed to refresh <TableName>{tableName}</TableName>:{' '}
+            {error instanceof Error ? error.message : String(error)}
+          </span>
+        )
+      } finally {
+        refreshingDataSourceIdsRef.current.delete(id)
+        updateRefreshing()
+      }
+    },
+    [db, connection, getTableSchema]
+  )
+
+  // Refresh data sources with a refresh interval; timers are only reset when
+  // the set of scheduled data sources changes
+  const refreshSchedule = dataSources
+    .filter(
+      ds =>
+        ds.url &&
+        ds.importStrategy !== 'view' &&
+        ds.loadingStatus === 'loaded' &&
+        (ds.refresh?.intervalMs ?? 0) > 0
+    )
+    .map(ds => `${ds.id}:${ds.refresh!.intervalMs}`)
+    .join('\n')
+
+  useEffect(() => {
+    if (!refreshSchedule) return
+    const timers = refreshSchedule.split('\n').map(entry => {
+      const separator = entry.lastIndexOf(':')
+      const id = entry.slice(0, separator)
+      const intervalMs = Number(entry.slice(separator + 1))
+      return setInterval(() => {
+        const dataSource = dataSourcesRef.current.find(ds => ds.id === id)
+        if (dataSource) void handleRefreshDataSource(dataSource)
+      }, intervalMs)
+    })
+    return () => timers.forEach(timer => clearInterval(timer))
+  }, [refreshSchedule, handleRefreshDataSource])
+
   // Handle data source selection
   const handleSelectDataSource = useCallback((dataSource: DataSource): void => {
     // Insert a SELECT query for the data source
-    const selectQuery = `SELECT * FROM ${dataSource.tableName} LIMIT 100;`
+    const selectQuery = `SELECT * FROM ${quoteTableName(dataSource.tableName)} LIMIT 100;`
     setQuery(selectQuery)
   }, [])
 
+  // Insert an identifier from the schema explorer at the cursor
+  const handleInsertIdentifier = useCallback(
+    (identifier: string): void => {
+      if (readOnly) return
+      const editor = editorRef.current
+      const selection = editor?.getSelection()
+      if (!editor || !selection) {
+        setQuery(prev => (prev ? `${prev} ${identifier}` : identifier))
+        return
+      }
+
+      editor.executeEdits('schema-explorer', [
+        { range: selection, text: identifier, forceMoveMarkers: true },
+      ])
+      editor.focus()
+    },
+    [readOnly]
+  )
+
   // Handle insights query execution
-  const handleExecuteInsightsQuery = useCallback(
+  const runInsightsQuery = useCallback(
     async (
       insightsQuery: InsightsQuery,
-      dataSource?: DataSource
+      dataSource?: DataSource,
+      parameterBinding?: Omit<QueryParameterBinding, 'parameters'>
     ): Promise<void> => {
       if (!connection) {
         toast.error(<span>No database connection available</span>)
         return
       }
 
+      // Update table references in insights query to use the actual data source
+      let queryToExecute = insightsQuery.query
+      // Profiling queries are generated for their table already
+      const isProfilingQuery = profilingInsightQueries.some(
+        query => query.id === insightsQuery.id
+      )
+      if (dataSource && !isProfilingQuery) {
+        // Replace generic table references with the actual data source table name
+        queryToExecute = insightsQuery.query.replace(/\busers\b/g, () =>
+          quoteTableName(dataSource.tableName)
+        )
+      }
+
+      // Invalid parameter values fail here, before the query starts
+      const { sql, params } =
+        insightsQuery.parameters && parameterBinding
+          ? bindQueryParameters(
+              queryToExecute,
+              insightsQuery.parameters,
+              parameterBinding.values,
+              parameterBinding.columns
+            )
+          : { sql: queryToExecute, params: [] }
+
+      const executionId = ++executionIdRef.current
+      abortControllerRef.current?.abort()
+      const abortController = new AbortController()
+      abortControllerRef.current = abortController
       const startTime = Date.now()
       setQueryState(DuckDBQueryState.QueryRunning)
       setQueryError(null)
-            setCurrentInsightsQuery(insightsQuery)
+      setErrorDiagnostics([])
+      setStatementResults([])
+      setResultViews({})
+      setCurrentInsightsQuery(insightsQuery)
 
       // Clear format error when running insights query
       clearFormatError()
 
       try {
-        // Update table references in insights query to use the actual data source
-        let queryToExecute = insightsQuery.query
-        if (dataSource) {
-          // Replace generic table references with the actual data source table name
-          queryToExecute = insightsQuery.query.replace(
-            /\busers\b/g,
-            dataSource.tableName
-          )
-        }
-
         // Execute the insights query
-        const result = await transformDuckDBResult(
+        const result = await runInterruptible(
           connection,
-          queryToExecute,
-          startTime
+          signal =>
+            runExclusive(connection, exclusive =>
+              transformDuckDBResult(exclusive, sql, startTime, params, signal)
+            ),
+          { signal: abortController.signal, timeoutMs: queryTimeout }
         )
+        if (executionId !== executionIdRef.current) return
+        abortControllerRef.current = null
         setQueryResult(result)
         setQueryState(DuckDBQueryState.QueryCompleted)
 
@@ -601,20 +1668,199 @@ const SQLCockpitWrappedContent = ({
           </span>
         )
       } catch (err) {
-        setQueryError(transformErrorToSQLError(err))
+        if (executionId !== executionIdRef.current) return
+        abortControllerRef.current = null
+        const error = transformErrorToSQLError(err)
+        setQueryError(error)
         setQueryState(DuckDBQueryState.QueryError)
+        if (error.type === 'cancelled') return
         toast.error(
           <span>
             Insights query on table{' '}
             <TableName>{dataSource?.tableName || 'unknown'}</TableName> failed:{' '}
-            {err instanceof Error ? err.message : 'Unknown error'}
+            {error.message}
           </span>
         )
       }
     },
-    [connection]
+    [connection, profilingInsightQueries, queryTimeout]
   )
 
+  // Handle insights query execution; queries with parameters ask for their
+  // values first
+  const handleExecuteInsightsQuery = useCallback(
+    async (
+      insightsQuery: InsightsQuery,
+      dataSource?: DataSource
+    ): Promise<void> => {
+      if (!insightsQuery.parameters?.length) {
+        await runInsightsQuery(insightsQuery, dataSource)
+        return
+      }
+
+      requestParameterValues({
+        title: insightsQuery.name,
+        key: `insights:${insightsQuery.id}`,
+        parameters: insightsQuery.parameters,
+        dataSource,
+        run: (values, columns) =>
+          runInsightsQuery(insightsQuery, dataSource, { values, columns }),
+      })
+    },
+    [runInsightsQuery, requestParameterValues]
+  )
+
+  // Run the pending query with the values entered in the parameters dialog
+  const handleParameterizedRun = useCallback(
+    async (values: QueryParameterValues): Promise<void> => {
+      if (!pendingParameterizedRun) return
+      parameterValuesRef.current.set(pendingParameterizedRun.key, values)
+      await pendingParameterizedRun.run(values, pendingParameterizedRun.columns)
+      setPendingParameterizedRun(null)
+    },
+    [pendingParameterizedRun]
+  )
+
+  // Restore persisted data sources once the database and catalog are ready
+  React.useEffect(() => {
+    if (
+      isCatalogRestored ||
+      isRestoringCatalogRef.current ||
+      !db ||
+      !connection ||
+      !isDataSourceCatalogLoaded
+    ) {
+      return
+    }
+    isRestoringCatalogRef.current = true
+
+    const restoreDataSources = async (): Promise<void> => {
+      if (!isPersistent()) {
+        if (dataSourceCatalog.length > 0) {
+          toast.warning(
+            'Imported data sources could not be restored: persistent storage (OPFS) is not available'
+          )
+        }
+        setIsCatalogRestored(true)
+        return
+      }
+
+      const initialIds = new Set(initialDataSources?.map(ds => ds.id))
+      const restored: DataSource[] = []
+      const missing: string[] = []
+      const changed: string[] = []
+
+      for (const entry of dataSourceCatalog) {
+        try {
+          // Views over remote files need their URL registered again
+          if (entry.importStrategy === 'view' && entry.url) {
+            await createRemoteFileView(
+              db,
+              connection,
+              entry.tableName,
+              entry.url
+            )
+          }
+        } catch (error) {
+          console.warn(
+            `[blockether-foundation-react] Failed to recreate view ${entry.tableName}:`,
+            error
+          )
+        }
+
+        const schema = await getTableSchema(entry.tableName)
+        if (!schema || schema.length === 0) {
+          // Initial data sources are loaded again from their origin
+          if (!initialIds.has(entry.id)) {
+            missing.push(entry.tableName)
+            restored.push({
+              ...entry,
+              loadingStatus: 'failed',
+              loadingError: `Table ${entry.tableName} is missing from the persisted database`,
+            })
+          }
+          continue
+        }
+
+        const describe = (columns: DataSource['schema']): string =>
+          JSON.stringify(columns?.map(column => [column.name, column.type]))
+        if (entry.schema && describe(entry.schema) !== describe(schema)) {
+          changed.push(entry.tableName)
+        }
+
+        restoredDataSourceIdsRef.current.add(entry.id)
+        loadedDataSourceIdsRef.current.add(entry.id)
+        restored.push({ ...entry, schema, loadingStatus: 'loaded' })
+      }
+
+      setDataSources(prev => {
+        const restoredById = new Map(restored.map(ds => [ds.id, ds]))
+        const merged = prev.map(ds => {
+          const restoredDataSource = restoredById.get(ds.id)
+          if (!restoredDataSource) return ds
+          restoredById.delete(ds.id)
+          const { loadingError, ...rest } = ds
+          return {
+            ...rest,
+            ...(restoredDataSource.schema && {
+              schema: restoredDataSource.schema,
+            }),
+            loadingStatus: restoredDataSource.loadingStatus ?? 'loaded',
+          }
+        })
+        return [...merged, ...restoredById.values()]
+      })
+
+      if (missing.length > 0) {
+        toast.warning(
+          <span>
+            Missing from the persisted database:{' '}
+            <TableName>{missing.join(', ')}</TableName>
+          </span>
+        )
+      }
+      if (changed.length > 0) {
+        toast.warning(
+          <span>
+            Columns changed since import:{' '}
+            <TableName>{changed.join(', ')}</TableName>
+          </span>
+        )
+      }
+      setIsCatalogRestored(true)
+    }
+
+    void restoreDataSources()
+  }, [
+    isCatalogRestored,
+    db,
+    connection,
+    isDataSourceCatalogLoaded,
+    dataSourceCatalog,
+    initialDataSources,
+    getTableSchema,
+  ])
+
+  // Persist the data source catalog, and flush imported tables to the
+  // database file, whenever the loaded data sources change
+  React.useEffect(() => {
+    if (!persistDataSources || !isCatalogRestored || !isPersistent()) return
+    if (saveDataSourceCatalog(dataSources)) {
+      connection?.query('CHECKPOINT').catch(error => {
+        console.warn(
+          '[blockether-foundation-react] Failed to checkpoint database:',
+          error
+        )
+      })
+    }
+  }, [
+    persistDataSources,
+    isCatalogRestored,
+    dataSources,
+    saveDataSourceCatalog,
+    connection,
+  ])
+
   // Load initial data sources when connection is ready (handles dynamic updates)
   React.useEffect(() => {
     if (!connection || !db) {
@@ -630,6 +1876,9 @@ const SQLCockpitWrappedContent = ({
       return
     }
 
+    // Wait for persisted tables, which do not have to be loaded again
+    if (!isCatalogRestored) return
+
     const loadInitialDataSources = async () => {
       // Generate unique operation ID for this load
       const operationId = Date.now()
@@ -641,11 +1890,15 @@ const SQLCockpitWrappedContent = ({
       // Filter to datasources that need loading:
       // Skip only if: in loadedDataSourceIdsRef AND has loadingStatus: 'loaded'
       // Everything else gets loaded (new datasources, failed ones, verification_needed ones)
+      // Tables restored from the persisted database are skipped too, except
+      // for raw data, which may have changed since it was stored
       const newDataSources = initialDataSources.filter(ds => {
         const isActuallyLoaded =
           loadedDataSourceIdsRef.current.has(ds.id) &&
           ds.loadingStatus === 'loaded'
-        return !isActuallyLoaded
+        const isRestored =
+          !ds.data && restoredDataSourceIdsRef.current.has(ds.id)
+        return !isActuallyLoaded && !isRestored
       })
 
       if (newDataSources.length === 0) {
@@ -701,10 +1954,8 @@ const SQLCockpitWrappedContent = ({
 
           // Load from raw data first (highest priority)
           if (dataSource.data && dataSource.data.length > 0) {
-            // Create a temporary CSV from the data
-            // Use explicit columnOrder if provided, otherwise use Object.keys()
-            let columns =
-              dataSource.columnOrder || Object.keys(dataSource.data[0])
+            // Use explicit columnOrder if provided, otherwise the keys of the rows
+            let columns = dataSource.columnOrder
 
             // Validate columnOrder for duplicates
             if (dataSource.columnOrder) {
@@ -735,135 +1986,28 @@ const SQLCockpitWrappedContent = ({
               }
             }
 
-            const csvHeaders = columns.join(',')
-            const csvRows = dataSource.data.map(row =>
-              columns
-                .map(col => {
-                  const value = row[col]
-
-                  // Handle arrays by joining with semicolon and wrapping in quotes
-                  if (Array.isArray(value)) {
-                    const arrayString = value.join('; ')
-                    return `"${arrayString.replace(/"/g, '""')}"`
-                  }
-
-                  // Handle strings that contain commas or quotes
-                  if (
-                    typeof value === 'string' &&
-                    (value.includes(',') ||
-                      value.includes('"') ||
-                      value.includes('\n'))
-                  ) {
-                    return `"${value.replace(/"/g, '""')}"`
-                  }
-
-                  // Handle null/undefined values
-                  if (value === null || value === undefined) {
-                    return ''
-                  }
-
-                  return String(value)
-                })
-                .join(',')
-            )
-            const csvContent = [csvHeaders, ...csvRows].join('\n')
-
-            // Register as a temporary file in DuckDB
-            const tempFileName = `${dataSource.tableName}.csv`
-            const encoder = new TextEncoder()
-            const uint8Array = encoder.encode(csvContent)
-            await db.registerFileBuffer(tempFileName, uint8Array)
-
-            // Debug: Log the actual CSV content being generated
-            console.log(
-              `[blockether-foundation-react] Generated CSV headers: "${csvHeaders}"`
-            )
-            console.log(
-              `[blockether-foundation-react] Number of header columns: ${columns.length}`
-            )
-            console.log(
-              `[blockether-foundation-react] Column order source: ${dataSource.columnOrder ? 'explicit columnOrder' : 'Object.keys()'}`
-            )
-            console.log(`[blockether-foundation-react] First CSV row: "${csvRows[0]}"`)
-            console.log(
-              `[blockether-foundation-react] Number of values in first row: ${csvRows[0]?.split(',').length}`
-            )
-            console.log(
-              `[blockether-foundation-react] Sample object keys: ${Object.keys(dataSource.data[0]).join(', ')}`
-            )
-            console.log(
-              `[blockether-foundation-react] Sample skills value:`,
-              dataSource.data[0]?.skills
-            )
-            console.log(
-              `[blockether-foundation-react] Sample skills type:`,
-              typeof dataSource.data[0]?.skills
-            )
-            console.log(
-              `[blockether-foundation-react] Full first object:`,
-              dataSource.data[0]
+            // Rows are inserted as a typed Arrow table, so numbers, booleans,
+            // dates and nested lists/objects keep their types
+            await createTableFromRows(
+              connection,
+              dataSource.tableName,
+              dataSource.data,
+              { columns, schema: dataSource.dataSchema }
             )
 
-            // Create table with explicit CSV parameters: sample_size=-1 for full scan, all_varchar to prevent type confusion
-            // This prevents DuckDB from using heuristics that might treat data rows as headers
-            await connection.query(
-              `CREATE OR REPLACE TABLE ${dataSource.tableName} AS SELECT * FROM read_csv('${tempFileName}', header=true, delim=',', quote='"', sample_size=-1, all_varchar=true)`
-            )
-
-            // Verify the table was created with proper column names
-            const tableInfo = await connection.query(
-              `PRAGMA table_info('${dataSource.tableName}')`
-            )
-            const actualColumns = tableInfo
-              .toArray()
-              .map((row: any) => row.name)
-            console.log(
-              `[blockether-foundation-react] Table ${dataSource.tableName} created with columns:`,
-              actualColumns
-            )
-
-            // If columns are still generic, recreate with explicit definitions
-            if (actualColumns.some(col => col.startsWith('column'))) {
-              console.log(
-                `[blockether-foundation-react] Detected generic column names, recreating table with explicit definitions...`
-              )
-
-              // Drop the table and recreate with explicit column definitions
-              await connection.query(
-                `DROP TABLE IF EXISTS ${dataSource.tableName}`
-              )
-
-              const columnDefs = columns
-                .map(col => `"${col}" VARCHAR`)
-                .join(', ')
-              await connection.query(
-                `CREATE TABLE ${dataSource.tableName} (${columnDefs})`
-              )
-
-              // Insert data using the CSV with explicit header=true
-              await connection.query(
-                `INSERT INTO ${dataSource.tableName} SELECT * FROM read_csv('${tempFileName}', AUTO_DETECT=TRUE, header=true)`
-              )
-
-              console.log(
-                `[blockether-foundation-react] Recreated table with explicit column definitions`
-              )
-            }
-
-            // Clean up temp file
-            await db.dropFile(tempFileName)
-
             console.log(
               `[blockether-foundation-react] Created table ${dataSource.tableName} from raw data (${dataSource.data.length} rows)`
             )
 
             // Update schema information
-            const schemaResult = await connection.query(`
-              SELECT column_name, data_type, is_nullable
-              FROM information_schema.columns
-              WHERE table_name = '${dataSource.tableName}'
-              ORDER BY ordinal_position
-            `)
+            const schemaResult = await runPreparedQuery(
+              connection,
+              `SELECT column_name, data_type, is_nullable
+               FROM information_schema.columns
+               WHERE table_name = ?
+               ORDER BY ordinal_position`,
+              [dataSource.tableName]
+            )
 
             const schema = schemaResult.toArray().map((row: any) => ({
               name: row.column_name as string,
@@ -897,7 +2041,7 @@ const SQLCockpitWrappedContent = ({
             // Skip if the table already exists (e.g., manually created or rehydrated state)
             try {
               await connection.query(
-                `SELECT 1 FROM ${dataSource.tableName} LIMIT 1`
+                `SELECT 1 FROM ${quoteTableName(dataSource.tableName)} LIMIT 1`
               )
               console.log(
                 `[blockether-foundation-react] Table ${dataSource.tableName} already exists, skipping load but marking as loaded`
@@ -940,7 +2084,7 @@ const SQLCockpitWrappedContent = ({
             // Check if table already exists before attempting to create
             try {
               await connection.query(
-                `SELECT 1 FROM ${dataSource.tableName} LIMIT 1`
+                `SELECT 1 FROM ${quoteTableName(dataSource.tableName)} LIMIT 1`
               )
               console.log(
                 `[blockether-foundation-react] Table ${dataSource.tableName} already exists, skipping URL load but marking as loaded`
@@ -960,22 +2104,48 @@ const SQLCockpitWrappedContent = ({
                 `[blockether-foundation-react] Table ${dataSource.tableName} doesn't exist yet, loading from URL`
               )
             }
-            const response = await fetch(dataSource.url)
 
-            if (!response.ok) {
-              throw new Error(
-                `Failed to fetch ${dataSource.url}: ${response.status} ${response.statusText}`
+            // Query the remote file in place instead of downloading it
+            if (dataSource.importStrategy === 'view') {
+              if (!db) {
+                throw new Error('No database available to register the URL')
+              }
+              await createRemoteFileView(
+                db,
+                connection,
+                dataSource.tableName,
+                dataSource.url
               )
+              const schema = await getTableSchema(dataSource.tableName)
+              loadedDataSourceIdsRef.current.add(dataSource.id)
+
+              setDataSources(prev =>
+                prev.map(ds => {
+                  if (ds.id === dataSource.id) {
+                    const { loadingError, ...rest } = ds
+                    return {
+                      ...rest,
+                      ...(schema && { schema }),
+                      loadingStatus: 'loaded' as const,
+                    }
+                  }
+                  return ds
+                })
+              )
+              console.log(
+                `[blockether-foundation-react] Created view ${dataSource.tableName} over ${dataSource.url}`
+              )
+              continue
             }
 
-            const blob = await response.blob()
-            const fileName = dataSource.url.split('/').pop() || dataSource.name
-            const file = new File([blob], fileName, {
-              type: blob.type || 'text/csv',
-            })
+            const download = await fetchRemoteFile(dataSource.url)
+            if (!download) {
+              throw new Error(`Failed to fetch ${dataSource.url}`)
+            }
+            const { file, version } = download
 
             console.log(
-              `[blockether-foundation-react] Importing file: ${fileName} (${blob.size} bytes)`
+              `[blockether-foundation-react] Importing file: ${file.name} (${file.size} bytes)`
             )
             // Pass the existing datasource ID to update it instead of creating a new one
             await handleImportFile(file, dataSource.id)
@@ -986,7 +2156,12 @@ const SQLCockpitWrappedContent = ({
               prev.map(ds => {
                 if (ds.id === dataSource.id) {
                   const { loadingError, ...rest } = ds
-                  return { ...rest, loadingStatus: 'loaded' as const }
+                  return {
+                    ...rest,
+                    loadingStatus: 'loaded' as const,
+                    lastRefreshedAt: new Date(),
+                    remoteVersion: version,
+                  }
                 }
                 return ds
               })
@@ -1067,7 +2242,7 @@ const SQLCockpitWrappedContent = ({
       currentLoadOperationRef.current = null
       setIsLoadingBatch(false)
     }
-  }, [connection, db, initialDataSources]) // Remove handleImportFile from dependencies to prevent race conditions
+  }, [connection, db, initialDataSources, isCatalogRestored]) // Remove handleImportFile from dependencies to prevent race conditions
 
   // Cleanup removed data sources (optional, controlled by prop)
   React.useEffect(() => {
@@ -1095,10 +2270,12 @@ const SQLCockpitWrappedContent = ({
           // Find the corresponding table name from dataSources state
           const dataSource = dataSources.find(ds => ds.id === removedId)
           if (dataSource) {
+            const relation =
+              dataSource.importStrategy === 'view' ? 'VIEW' : 'TABLE'
             await connection.query(
-              `DROP TABLE IF EXISTS ${dataSource.tableName}`
+              `DROP ${relation} IF EXISTS ${quoteTableName(dataSource.tableName)}`
             )
-            console.log(`[blockether-foundation-react] Dropped table: ${dataSource.tableName}`)
+            console.log(`[blockether-foundation-react] Dropped ${relation.toLowerCase()}: ${dataSource.tableName}`)
             toast.success(
               <span>
                 Removed table <TableName>{dataSource.tableName}</TableName>
@@ -1164,13 +2341,13 @@ const SQLCockpitWrappedContent = ({
 
       for (const file of files) {
         try {
-          await handleImportFile(file)
+          await handleImportFileWithDialog(file)
         } catch (error) {
           console.error(`[blockether-foundation-react] Failed to import file ${file.name}:`, error)
         }
       }
     },
-    [handleImportFile]
+    [handleImportFileWithDialog]
   )
 
   // Save results handlers
@@ -1179,73 +2356,57 @@ const SQLCockpitWrappedContent = ({
   }, [])
 
   const handleSaveAsFormat = useCallback(
-    async (format: 'csv' | 'json' | 'parquet'): Promise<void> => {
-      if (!queryResult || !queryResult.data || queryResult.data.length === 0) {
+    async (format: ResultExportFormat): Promise<void> => {
+      if (
+        !viewedQueryResult ||
+        !viewedQueryResult.data ||
+        viewedQueryResult.data.length === 0
+      ) {
         return
       }
 
       try {
-        let file: File
-
-        // Check if we have selections and use selected data instead
-        const hasSelections = selectedColumns.size > 0 || selectedRows.size > 0
-
-        switch (format) {
-          case 'csv':
-            if (hasSelections) {
-              if (selectedColumns.size > 0) {
-                // Save only selected columns
-                file = exportQueryResultToCSVFile(
-                  queryResult,
-                  `selected_columns_${Date.now()}.csv`,
-                  { selectedColumns: Array.from(selectedColumns) }
-                )
-              } else {
-                // Save only selected rows
-                file = exportQueryResultToCSVFile(
-                  queryResult,
-                  `selected_rows_${Date.now()}.csv`,
-                  { selectedRows: Array.from(selectedRows) }
-                )
-              }
-            } else {
-              // Full dataset
-              file = exportQueryResultToCSVFile(
-                queryResult,
-                `query_results_${Date.now()}.csv`
-              )
-            }
-            break
-
-          case 'json':
-            if (hasSelections) {
-              if (selectedColumns.size > 0) {
-                // Save only selected columns
-                file = exportQueryResultToJSONFile(
-                  queryResult,
-                  `selected_columns_${Date.now()}.json`,
-                  { selectedColumns: Array.from(selectedColumns) }
-                )
-              } else {
-                // Save only selected rows
-                file = exportQueryResultToJSONFile(
-                  queryResult,
-                  `selected_rows_${Date.now()}.json`,
-                  { selectedRows: Array.from(selectedRows) }
-                )
+        // A column selection covers every row of the result, a row selection
+        // only rows of the current page
+        const isRowSelection =
+          selectedColumns.size === 0 && selectedRows.size > 0
+        const statementResult = statementResults[activeStatementIndex]
+        // Results of the local engine are written by DuckDB from their query,
+        // with the view applied
+        const source =
+          statementResult && !onQueryExecute
+            ? {
+                query: buildResultViewQuery(
+                  statementResult.statement,
+                  activeResultView
+                ),
+                params: statementResult.params,
               }
-            } else {
-              // Full dataset
-              file = exportQueryResultToJSONFile(
-                queryResult,
-                `query_results_${Date.now()}.json`
-              )
-            }
-            break
-
-          default:
-            throw new Error(`Unsupported format: ${format}`)
-        }
+            : undefined
+        const isWrittenByDuckDB =
+          !!source && (format === 'parquet' || format === 'excel')
+        const exportResult =
+          isRowSelection || isWrittenByDuckDB
+            ? viewedQueryResult
+            : await handleLoadFullResult()
+        if (!exportResult) return
+
+        const extension = RESULT_EXPORT_EXTENSIONS[format]
+        const file = await exportQueryResultToFile(
+          exportResult,
+          format,
+          selectedColumns.size > 0
+            ? `selected_columns_${Date.now()}.${extension}`
+            : isRowSelection
+              ? `selected_rows_${Date.now()}.${extension}`
+              : `query_results_${Date.now()}.${extension}`,
+          selectedColumns.size > 0
+            ? { selectedColumns: Array.from(selectedColumns) }
+            : isRowSelection
+              ? { selectedRows: Array.from(selectedRows) }
+              : undefined,
+          db && connection ? { db, connection, source } : undefined
+        )
 
         // Create and download file
         const url = URL.createObjectURL(file)
@@ -1260,14 +2421,26 @@ const SQLCockpitWrappedContent = ({
         setShowSaveDialog(false)
       } catch (error) {
         console.error('[blockether-foundation-react] Failed to save results:', error)
+        toast.error('Failed to save results')
       }
     },
-    [queryResult, selectedColumns, selectedRows]
+    [
+      viewedQueryResult,
+      selectedColumns,
+      selectedRows,
+      handleLoadFullResult,
+      statementResults,
+      activeStatementIndex,
+      activeResultView,
+      onQueryExecute,
+      db,
+      connection,
+    ]
   )
 
   return (
     <div
-      className={cn('h-full relative')}
+      className={cn('h-full relative', className)}
       style={
         {
           userSelect: 'none',
@@ -1288,26 +2461,46 @@ const SQLCockpitWrappedContent = ({
 
         <SQLToolbar
           onRunQuery={handleRunQuery}
+          runMode={runMode}
+          onRunModeSelect={handleRunModeSelect}
           onCancelQuery={handleCancelQuery}
           onFormatQuery={handleFormatQuery}
+          onExplainQuery={handleExplainQuery}
           db={db}
+          connection={connection}
           showDbStatusRed={showDbStatusRed}
           queryState={queryState}
           queryResult={queryResult}
           queryError={queryError}
           query={query}
-          onHelp={handleShowHelp}
+          {...(showHelp && { onHelp: handleShowHelp })}
           onSaveResults={handleSaveResults}
           {...(llmCompletionFunction && { onAIAssist: handleShowAIAssist })}
           hasLLMCompletion={!!llmCompletionFunction}
-          savedQueries={savedQueries || []}
+          hasRemoteExecution={!!onQueryExecute}
+          readOnly={readOnly}
+          savedQueries={savedQueries}
           onSavedQuerySelect={handleSavedQuerySelect}
+          onSavedQueryCreate={handleSavedQueryCreate}
+          onSavedQueryUpdate={updateSavedQuery}
+          onSavedQueryDelete={deleteSavedQuery}
+          {...(enableQueryHistory && {
+            queryHistory,
+            onHistorySelect: handleHistorySelect,
+            onHistoryRerun: handleHistoryRerun,
+            onHistoryRemove: (entry: QueryHistoryEntry) =>
+              removeHistoryEntry(entry.id),
+            onHistoryClear: clearHistory,
+          })}
           dataSources={dataSources}
           isLoadingBatch={getIsLoadingBatch()}
-          onImportFile={handleImportFile}
+          onImportFile={handleImportFileWithDialog}
           onSelectDataSource={handleSelectDataSource}
+          onRefreshDataSource={handleRefreshDataSource}
+          refreshingDataSourceIds={refreshingDataSourceIds}
+          onInsertIdentifier={handleInsertIdentifier}
           onExecuteInsightsQuery={handleExecuteInsightsQuery}
-          insightQueries={insightQueries || []}
+          insightQueries={availableInsightQueries}
           currentInsightsQuery={currentInsightsQuery}
         />
 
@@ -1318,8 +2511,17 @@ const SQLCockpitWrappedContent = ({
           <SQLEditor
             value={query}
             onChange={setQuery}
-            onExecute={handleRunQuery}
+            onExecute={handleExecuteTarget}
+            onMount={handleEditorMount}
+            runMode={runMode}
+            highlightRange={executedRange}
+            diagnostics={errorDiagnostics}
+            validation={validateQueries}
             onFormat={handleFormatQuery}
+            readOnly={readOnly}
+            showLineNumbers={showLineNumbers}
+            theme={theme}
+            {...(placeholder && { placeholder })}
             enableSyntaxHighlighting={true}
             enableAutoComplete={true}
             enableFormatting={true}
@@ -1333,8 +2535,19 @@ const SQLCockpitWrappedContent = ({
               result={queryResult}
               error={queryError || formatError}
               isLoading={queryState === DuckDBQueryState.QueryRunning}
-              maxHeight="none"
+              maxHeight={resultsMaxHeight || 'none'}
               insightsQuery={currentInsightsQuery}
+              statementResults={statementResults}
+              activeStatementIndex={activeStatementIndex}
+              onActiveStatementChange={handleActiveStatementChange}
+              pageSize={resultsPageSize}
+              isFetchingPage={isFetchingPage}
+              onPageRequest={handlePageRequest}
+              onLoadFullResult={handleLoadFullResult}
+              view={activeResultView}
+              onViewChange={handleResultViewChange}
+              db={db}
+              connection={connection}
               onSelectionChange={(columns, rows) => {
                 setSelectedColumns(columns)
                 setSelectedRows(rows)
@@ -1343,8 +2556,15 @@ const SQLCockpitWrappedContent = ({
           </div>
         </div>
 
+        {/* Custom content */}
+        {children}
+
         {/* Help Dialog */}
-        <HelpDialog isOpen={showHelpDialog} onClose={handleCloseHelp} />
+        <HelpDialog
+          isOpen={showHelpDialog}
+          onClose={handleCloseHelp}
+          {...(helpContent && { content: helpContent })}
+        />
 
         {/* AI Assist Dialog */}
         <Dialog open={showAIAssistDialog} onOpenChange={setShowAIAssistDialog}>
@@ -1410,42 +2630,72 @@ const SQLCockpitWrappedContent = ({
             <DialogHeader>
               <DialogTitle>Save Results</DialogTitle>
               <DialogDescription>
-                Choose a format to save your query results. CSV is compatible
-                with spreadsheets and JSON is ideal for web applications.
+                Choose a format to save your query results. Selected columns or
+                rows are saved on their own.
               </DialogDescription>
             </DialogHeader>
             <div className="py-4">
-              <div className="grid grid-cols-1 gap-3">
-                <Button
-                  variant="outline"
-                  className="justify-start h-auto p-4 cursor-pointer hover:bg-accent transition-colors"
-                  onClick={() => handleSaveAsFormat('csv')}
-                >
-                  <div className="w-full text-left">
-                    <div className="font-medium wrap-break-word">CSV</div>
-                    <div className="text-xs text-muted-foreground wrap-break-word whitespace-normal">
-                      Comma-separated values, compatible with Excel and
-                      spreadsheets
-                    </div>
-                  </div>
-                </Button>
-                <Button
-                  variant="outline"
-                  className="justify-start h-auto p-4 cursor-pointer hover:bg-accent transition-colors"
-                  onClick={() => handleSaveAsFormat('json')}
-                >
-                  <div className="w-full text-left">
-                    <div className="font-medium wrap-break-word">JSON</div>
-                    <div className="text-xs text-muted-foreground wrap-break-word whitespace-normal">
-                      JavaScript Object Notation, ideal for web applications
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {SAVE_FORMAT_OPTIONS.filter(
+                  option => !option.requiresDuckDB || (!!db && !!connection)
+                ).map(option => (
+                  <Button
+                    key={option.format}
+                    variant="outline"
+                    className="justify-start h-auto p-4 cursor-pointer hover:bg-accent transition-colors"
+                    onClick={() => handleSaveAsFormat(option.format)}
+                  >
+                    <div className="w-full text-left">
+                      <div className="font-medium wrap-break-word">
+                        {option.label}
+                      </div>
+                      <div className="text-xs text-muted-foreground wrap-break-word whitespace-normal">
+                        {option.description}
+                      </div>
                     </div>
-                  </div>
-                </Button>
+                  </Button>
+                ))}
               </div>
             </div>
           </DialogContent>
         </Dialog>
 
+        {db && connection && (
+          <CSVImportDialog
+            file={importQueue[0]?.format === 'csv' ? importQueue[0].file : null}
+            db={db}
+            connection={connection}
+            onImport={handleCSVImport}
+            onCancel={handleImportCancel}
+          />
+        )}
+        <ExcelImportDialog
+          file={importQueue[0]?.format === 'excel' ? importQueue[0].file : null}
+          sheets={
+            importQueue[0]?.format === 'excel' ? importQueue[0].sheets : []
+          }
+          onImport={handleExcelImport}
+          onCancel={handleImportCancel}
+        />
+
+        <QueryParametersDialog
+          open={!!pendingParameterizedRun}
+          title={pendingParameterizedRun?.title ?? ''}
+          parameters={pendingParameterizedRun?.parameters ?? []}
+          columns={pendingParameterizedRun?.columns ?? {}}
+          initialValues={pendingParameterizedRun?.initialValues ?? {}}
+          onSubmit={handleParameterizedRun}
+          onCancel={() => setPendingParameterizedRun(null)}
+        />
+
+        <QueryPlanDialog
+          open={!!queryPlanState}
+          plan={queryPlanState?.plan ?? null}
+          error={queryPlanState?.error ?? null}
+          isLoading={queryPlanState?.isLoading ?? false}
+          onClose={() => setQueryPlanState(null)}
+        />
+
         {/* Toast Notifications */}
         <Toaster position="top-right" />
 
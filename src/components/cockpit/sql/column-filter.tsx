@@ -0,0 +1,229 @@
+/**
+ * Column Filter Component
+ *
+ * This component provides the filter popover of a results column header. The
+ * available conditions depend on the column type: text contains, numeric
+ * range or date range, plus NULL / not NULL for every type.
+ */
+
+import React, { useState } from 'react'
+// Lucide React icons
+import { Filter } from 'lucide-react'
+import { ColumnFilter, QueryColumn } from '@/types/sql'
+import { isColumnFilterActive } from '@/lib/result-view'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { cn } from '@/lib/utils'
+
+interface ColumnFilterMenuProps {
+  column: QueryColumn
+  filter?: ColumnFilter | undefined
+  onChange: (filter: ColumnFilter | null) => void
+}
+
+/**
+ * Editable form state; inputs keep raw strings until the filter is applied
+ */
+interface FilterDraft {
+  contains: string
+  min: string
+  max: string
+  from: string
+  to: string
+  isNull: boolean | undefined
+}
+
+const NULL_OPTIONS: Array<{ label: string; value: boolean | undefined }> = [
+  { label: 'Any', value: undefined },
+  { label: 'NULL', value: true },
+  { label: 'Not NULL', value: false },
+]
+
+const toDraft = (filter: ColumnFilter | undefined): FilterDraft => ({
+  contains: filter?.contains ?? '',
+  min: filter?.min !== undefined ? String(filter.min) : '',
+  max: filter?.max !== undefined ? String(filter.max) : '',
+  from: filter?.from ?? '',
+  to: filter?.to ?? '',
+  isNull: filter?.isNull,
+})
+
+/**
+ * Build a filter from the form state; empty and invalid inputs are dropped
+ */
+const fromDraft = (column: string, draft: FilterDraft): ColumnFilter => {
+  const min = draft.min.trim() === '' ? NaN : Number(draft.min)
+  const max = draft.max.trim() === '' ? NaN : Number(draft.max)
+  return {
+    column,
+    ...(draft.contains && { contains: draft.contains }),
+    ...(!Number.isNaN(min) && { min }),
+    ...(!Number.isNaN(max) && { max }),
+    ...(draft.from && { from: draft.from }),
+    ...(draft.to && { to: draft.to }),
+    ...(draft.isNull !== undefined && { isNull: draft.isNull }),
+  }
+}
+
+/**
+ * Filter popover for a results column header
+ */
+export function ColumnFilterMenu({
+  column,
+  filter,
+  onChange,
+}: ColumnFilterMenuProps): React.ReactNode {
+  const [isOpen, setIsOpen] = useState(false)
+  const [draft, setDraft] = useState<FilterDraft>(() => toDraft(filter))
+  const isActive = !!filter && isColumnFilterActive(filter)
+
+  const handleOpenChange = (open: boolean): void => {
+    if (open) setDraft(toDraft(filter))
+    setIsOpen(open)
+  }
+
+  const updateDraft = (changes: Partial<FilterDraft>): void => {
+    setDraft(prev => ({ ...prev, ...changes }))
+  }
+
+  const handleApply = (event?: React.FormEvent): void => {
+    event?.preventDefault()
+    const next = fromDraft(column.name, draft)
+    onChange(isColumnFilterActive(next) ? next : null)
+    setIsOpen(false)
+  }
+
+  const handleClear = (): void => {
+    onChange(null)
+    setIsOpen(false)
+  }
+
+  return (
+    <DropdownMenu open={isOpen} onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn(
+            'h-6 w-6 p-0 cursor-pointer shrink-0',
+            isActive ? 'text-primary' : 'text-muted-foreground'
+          )}
+          onClick={e => e.stopPropagation()}
+          title={isActive ? 'Edit filter' : 'Filter column'}
+          aria-label={`Filter ${column.name}`}
+        >
+          <Filter className={cn('h-3 w-3', isActive && 'fill-current')} />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="end"
+        className="w-64 p-3"
+        onClick={e => e.stopPropagation()}
+        // Keep typing in the inputs from triggering menu typeahead
+        onKeyDown={e => {
+          if (e.key !== 'Escape') e.stopPropagation()
+        }}
+      >
+        <form className="flex flex-col gap-3" onSubmit={handleApply}>
+          <div className="text-xs font-semibold truncate">
+            Filter {column.name}
+          </div>
+
+          {column.type === 'number' && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                placeholder="Min"
+                value={draft.min}
+                onChange={e => updateDraft({ min: e.target.value })}
+                className="h-8 text-xs"
+                aria-label="Minimum value"
+              />
+              <span className="text-xs text-muted-foreground">to</span>
+              <Input
+                type="number"
+                placeholder="Max"
+                value={draft.max}
+                onChange={e => updateDraft({ max: e.target.value })}
+                className="h-8 text-xs"
+                aria-label="Maximum value"
+              />
+            </div>
+          )}
+
+          {column.type === 'date' && (
+            <div className="flex flex-col gap-2">
+              <Input
+                type="date"
+                value={draft.from}
+                onChange={e => updateDraft({ from: e.target.value })}
+                className="h-8 text-xs"
+                aria-label="From date"
+              />
+              <Input
+                type="date"
+                value={draft.to}
+                onChange={e => updateDraft({ to: e.target.value })}
+                className="h-8 text-xs"
+                aria-label="To date"
+              />
+            </div>
+          )}
+
+          {(column.type === 'string' || column.type === 'binary') && (
+            <Input
+              type="text"
+              placeholder="Contains..."
+              value={draft.contains}
+              onChange={e => updateDraft({ contains: e.target.value })}
+              className="h-8 text-xs"
+              aria-label="Contains text"
+              autoFocus
+            />
+          )}
+
+          <div className="flex items-center gap-1" role="group">
+            {NULL_OPTIONS.map(option => (
+              <Button
+                key={option.label}
+                type="button"
+                variant={draft.isNull === option.value ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-7 px-2 text-xs cursor-pointer"
+                onClick={() => updateDraft({ isNull: option.value })}
+                aria-pressed={draft.isNull === option.value}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-end gap-2 pt-1 border-t">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs cursor-pointer"
+              onClick={handleClear}
+              disabled={!isActive}
+            >
+              Clear
+            </Button>
+            <Button
+              type="submit"
+              size="sm"
+              className="h-7 px-3 text-xs cursor-pointer"
+            >
+              Apply
+            </Button>
+          </div>
+        </form>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,490 @@
+/**
+ * CSV Import Dialog Component
+ *
+ * This component walks through importing a CSV file: DuckDB's CSV sniffer
+ * detects the dialect and column types, the user can adjust them (and rename
+ * columns), and a live preview shows how the file will be read before the
+ * table is created.
+ */
+
+import React, { useEffect, useState } from 'react'
+// Lucide React icons
+import { AlertCircle, Loader2 } from 'lucide-react'
+import { AsyncDuckDB, AsyncDuckDBConnection } from '@duckdb/duckdb-wasm'
+import { CSVImportColumn, CSVImportOptions, QueryResult } from '@/types/sql'
+import {
+  buildReadCSVQuery,
+  fileNameToTableName,
+  sniffCSVFile,
+  transformDuckDBResult,
+} from '@/lib/duckdb/ops'
+import { formatResultValue } from '@/lib/duckdb/values'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { cn } from '@/lib/utils'
+
+const PREVIEW_ROWS = 20
+const PREVIEW_DEBOUNCE_MS = 300
+
+const DELIMITER_OPTIONS = [
+  { label: 'Comma (,)', value: ',' },
+  { label: 'Semicolon (;)', value: ';' },
+  { label: 'Tab', value: '\t' },
+  { label: 'Pipe (|)', value: '|' },
+]
+
+const COLUMN_TYPES = [
+  'VARCHAR',
+  'BOOLEAN',
+  'TINYINT',
+  'SMALLINT',
+  'INTEGER',
+  'BIGINT',
+  'HUGEINT',
+  'FLOAT',
+  'DOUBLE',
+  'DECIMAL(18,3)',
+  'DATE',
+  'TIME',
+  'TIMESTAMP',
+  'TIMESTAMPTZ',
+  'INTERVAL',
+  'UUID',
+  'JSON',
+]
+
+const SELECT_CLASS_NAME =
+  'h-8 rounded-md border border-input bg-transparent px-2 text-xs shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] dark:bg-input/30'
+
+type CSVDialect = Pick<
+  CSVImportOptions,
+  'delimiter' | 'quote' | 'escape' | 'header' | 'skipRows'
+>
+
+interface CSVImportDialogProps {
+  file: File | null
+  db: AsyncDuckDB
+  connection: AsyncDuckDBConnection
+  onImport: (file: File, options: CSVImportOptions) => Promise<void>
+  onCancel: () => void
+}
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error)
+
+/**
+ * Labeled field of the dialect form
+ */
+function Field({
+  label,
+  children,
+  className,
+}: {
+  label: string
+  children: React.ReactNode
+  className?: string
+}): React.ReactNode {
+  return (
+    <label className={cn('flex flex-col gap-1 text-xs', className)}>
+      <span className="font-medium text-muted-foreground">{label}</span>
+      {children}
+    </label>
+  )
+}
+
+/**
+ * CSV import wizard with dialect detection and a live preview
+ */
+export function CSVImportDialog({
+  file,
+  db,
+  connection,
+  onImport,
+  onCancel,
+}: CSVImportDialogProps): React.ReactNode {
+  const [options, setOptions] = useState<CSVImportOptions | null>(null)
+  const [dialect, setDialect] = useState<CSVDialect | null>(null)
+  const [isSniffing, setIsSniffing] = useState(false)
+  const [sniffError, setSniffError] = useState<string | null>(null)
+  const [preview, setPreview] = useState<QueryResult | null>(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [importError, setImportError] = useState<string | null>(null)
+
+  // Register a new file and detect its dialect
+  useEffect(() => {
+    setOptions(null)
+    setDialect(null)
+    setPreview(null)
+    setSniffError(null)
+    setPreviewError(null)
+    setImportError(null)
+    if (!file) return
+
+    let cancelled = false
+    const detect = async (): Promise<void> => {
+      setIsSniffing(true)
+      try {
+        const buffer = new Uint8Array(await file.arrayBuffer())
+        await db.registerFileBuffer(file.name, buffer)
+        const detected = await sniffCSVFile(connection, file.name)
+        if (cancelled) return
+        setOptions({ ...detected, tableName: fileNameToTableName(file.name) })
+      } catch (error) {
+        if (!cancelled) setSniffError(getErrorMessage(error))
+      } finally {
+        if (!cancelled) setIsSniffing(false)
+      }
+    }
+    detect()
+
+    return () => {
+      cancelled = true
+    }
+  }, [file, db, connection])
+
+  // Re-detect the columns when the user changes the dialect
+  useEffect(() => {
+    if (!file || !dialect) return
+
+    let cancelled = false
+    const redetect = async (): Promise<void> => {
+      setIsSniffing(true)
+      try {
+        const detected = await sniffCSVFile(connection, file.name, dialect)
+        if (cancelled) return
+        setSniffError(null)
+        setOptions(prev => ({
+          ...detected,
+          ...dialect,
+          tableName: prev?.tableName,
+        }))
+      } catch (error) {
+        if (!cancelled) setSniffError(getErrorMessage(error))
+      } finally {
+        if (!cancelled) setIsSniffing(false)
+      }
+    }
+    redetect()
+
+    return () => {
+      cancelled = true
+    }
+  }, [file, connection, dialect])
+
+  // Preview the file as it will be imported
+  useEffect(() => {
+    if (!file || !options) return
+
+    let cancelled = false
+    const timeout = setTimeout(async () => {
+      try {
+        const result = await transformDuckDBResult(
+          connection,
+          `SELECT * FROM ${buildReadCSVQuery(file.name, options)} LIMIT ${PREVIEW_ROWS}`,
+          Date.now()
+        )
+        if (cancelled) return
+        setPreview(result)
+        setPreviewError(null)
+      } catch (error) {
+        if (!cancelled) setPreviewError(getErrorMessage(error))
+      }
+    }, PREVIEW_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [file, connection, options])
+
+  const updateDialect = (changes: Partial<CSVDialect>): void => {
+    if (!options) return
+    setDialect({
+      delimiter: options.delimiter,
+      quote: options.quote,
+      escape: options.escape,
+      header: options.header,
+      skipRows: options.skipRows,
+      ...dialect,
+      ...changes,
+    })
+  }
+
+  const updateOptions = (changes: Partial<CSVImportOptions>): void => {
+    setOptions(prev => (prev ? { ...prev, ...changes } : prev))
+  }
+
+  const updateColumn = (
+    index: number,
+    changes: Partial<CSVImportColumn>
+  ): void => {
+    setOptions(prev =>
+      prev
+        ? {
+            ...prev,
+            columns: prev.columns.map((column, columnIndex) =>
+              columnIndex === index ? { ...column, ...changes } : column
+            ),
+          }
+        : prev
+    )
+  }
+
+  const handleImport = async (): Promise<void> => {
+    if (!file || !options) return
+    setIsImporting(true)
+    setImportError(null)
+    try {
+      await onImport(file, options)
+    } catch (error) {
+      setImportError(getErrorMessage(error))
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const hasInvalidNames =
+    !!options &&
+    (options.columns.some(column => !column.name.trim()) ||
+      new Set(options.columns.map(column => column.name.toLowerCase())).size !==
+        options.columns.length)
+  const canImport =
+    !!options &&
+    !!options.tableName?.trim() &&
+    !hasInvalidNames &&
+    !previewError &&
+    !isSniffing &&
+    !isImporting
+  const isCustomDelimiter =
+    !!options &&
+    !DELIMITER_OPTIONS.some(option => option.value === options.delimiter)
+
+  return (
+    <Dialog
+      open={!!file}
+      onOpenChange={open => {
+        if (!open && !isImporting) onCancel()
+      }}
+    >
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] grid-rows-[auto_1fr_auto] overflow-hidden">
+        <DialogHeader>
+          <DialogTitle>Import {file?.name}</DialogTitle>
+          <DialogDescription>
+            Check the detected format and column types. Rename columns or change
+            their types before the table is created.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4 min-h-0 overflow-hidden">
+          {!options && isSniffing && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Detecting CSV format...
+            </div>
+          )}
+
+          {sniffError && (
+            <div className="flex items-start gap-2 text-sm text-destructive">
+              <AlertCircle className="h-4 w-4 shrink-0 mt-0.5" />
+              <span>{sniffError}</span>
+            </div>
+          )}
+
+          {options && (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <Field label="Table name" className="col-span-2">
+                  <Input
+                    value={options.tableName ?? ''}
+                    onChange={e => updateOptions({ tableName: e.target.value })}
+                    className="h-8 text-xs font-mono"
+                  />
+                </Field>
+                <Field label="Delimiter">
+                  <select
+                    value={isCustomDelimiter ? 'custom' : options.delimiter}
+                    onChange={e =>
+                      e.target.value !== 'custom' &&
+                      updateDialect({ delimiter: e.target.value })
+                    }
+                    className={SELECT_CLASS_NAME}
+                  >
+                    {DELIMITER_OPTIONS.map(option => (
+                      <option key={option.label} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                    {isCustomDelimiter && (
+                      <option value="custom">{options.delimiter}</option>
+                    )}
+                  </select>
+                </Field>
+                <Field label="Skip rows">
+                  <Input
+                    type="number"
+                    min={0}
+                    value={options.skipRows}
+                    onChange={e =>
+                      updateDialect({ skipRows: Number(e.target.value) || 0 })
+                    }
+                    className="h-8 text-xs"
+                  />
+                </Field>
+                <Field label="Quote">
+                  <Input
+                    value={options.quote}
+                    maxLength={1}
+                    onChange={e => updateDialect({ quote: e.target.value })}
+                    className="h-8 text-xs font-mono"
+                  />
+                </Field>
+                <Field label="Escape">
+                  <Input
+                    value={options.escape}
+                    maxLength={1}
+                    onChange={e => updateDialect({ escape: e.target.value })}
+                    className="h-8 text-xs font-mono"
+                  />
+                </Field>
+                <Field label="Date format">
+                  <Input
+                    value={options.dateFormat ?? ''}
+                    placeholder="Auto"
+                    onChange={e =>
+                      updateOptions({ dateFormat: e.target.value || undefined })
+                    }
+                    className="h-8 text-xs font-mono"
+                  />
+                </Field>
+                <Field label="Timestamp format">
+                  <Input
+                    value={options.timestampFormat ?? ''}
+                    placeholder="Auto"
+                    onChange={e =>
+                      updateOptions({
+                        timestampFormat: e.target.value || undefined,
+                      })
+                    }
+                    className="h-8 text-xs font-mono"
+                  />
+                </Field>
+                <label className="flex items-center gap-2 text-xs col-span-2 sm:col-span-4">
+                  <input
+                    type="checkbox"
+                    checked={options.header}
+                    onChange={e => updateDialect({ header: e.target.checked })}
+                    className="cursor-pointer"
+                  />
+                  First row contains column names
+                </label>
+              </div>
+
+              <div className="min-h-0 overflow-auto border rounded-md">
+                <table className="text-xs border-collapse">
+                  <thead className="sticky top-0 bg-muted z-1">
+                    <tr>
+                      {options.columns.map((column, index) => (
+                        <th key={index} className="p-1 border-r align-top">
+                          <div className="flex flex-col gap-1 min-w-32">
+                            <Input
+                              value={column.name}
+                              onChange={e =>
+                                updateColumn(index, { name: e.target.value })
+                              }
+                              className="h-7 text-xs font-mono"
+                              aria-label={`Name of column ${index + 1}`}
+                            />
+                            <select
+                              value={column.type}
+                              onChange={e =>
+                                updateColumn(index, { type: e.target.value })
+                              }
+                              className={cn(SELECT_CLASS_NAME, 'h-7')}
+                              aria-label={`Type of column ${index + 1}`}
+                            >
+                              {!COLUMN_TYPES.includes(column.type) && (
+                                <option value={column.type}>
+                                  {column.type}
+                                </option>
+                              )}
+                              {COLUMN_TYPES.map(type => (
+                                <option key={type} value={type}>
+                                  {type}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {!previewError &&
+                      preview?.data.map((row, rowIndex) => (
+                        <tr key={rowIndex} className="border-t">
+                          {preview.columns.map((column, columnIndex) => (
+                            <td
+                              key={columnIndex}
+                              className="px-2 py-1 border-r font-mono whitespace-nowrap max-w-60 truncate"
+                            >
+                              {row[column.name] === null ||
+                              row[column.name] === undefined ? (
+                                <span className="text-muted-foreground italic">
+                                  NULL
+                                </span>
+                              ) : (
+                                formatResultValue(row[column.name])
+                              )}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {(previewError || hasInvalidNames || importError) && (
+                <div className="flex items-start gap-2 text-xs text-destructive">
+                  <AlertCircle className="h-4 w-4 shrink-0" />
+                  <span className="break-words">
+                    {importError ??
+                      previewError ??
+                      'Column names must be unique and not empty'}
+                  </span>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onCancel}
+            disabled={isImporting}
+            className="cursor-pointer"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!canImport}
+            className="cursor-pointer"
+          >
+            {isImporting && <Loader2 className="h-4 w-4 animate-spin" />}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
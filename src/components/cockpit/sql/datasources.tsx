@@ -1,12 +1,12 @@
 /**
  * Data Sources Component
  *
- * This component provides a dropdown interface for viewing available data sources
- * and importing new files (CSV, Parquet, JSON) into DuckDB.
+ * This component provides a dropdown interface for viewing available data sources,
+ * exploring their schema and importing new files (CSV, Parquet, JSON) into DuckDB.
  */
 
 import React, { useState, useRef, useEffect } from 'react'
-import { AsyncDuckDB } from '@duckdb/duckdb-wasm'
+import { AsyncDuckDB, AsyncDuckDBConnection } from '@duckdb/duckdb-wasm'
 // Lucide React icons
 import {
   Database,
@@ -24,8 +24,11 @@ import {
   XCircle,
   Loader2,
   HelpCircle,
+  RefreshCw,
+  ListTree,
 } from 'lucide-react'
 import { DataSource, InsightsQuery } from '@/types/sql'
+import { SchemaExplorer } from './schema-explorer'
 import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
 import {
@@ -40,8 +43,17 @@ export interface DataSourcesProps {
   dataSources: DataSource[]
   isLoadingBatch: boolean
   db?: AsyncDuckDB | undefined // DuckDB database instance
+  connection?: AsyncDuckDBConnection | undefined // Used for column statistics
   onImportFile?: ((file: File) => Promise<void>) | undefined
   onSelectDataSource?: ((dataSource: DataSource) => void) | undefined
+  /**
+   * Download a `url` data source again; enables the refresh button
+   */
+  onRefreshDataSource?: ((dataSource: DataSource) => Promise<void>) | undefined
+  /**
+   * IDs of the data sources currently being refreshed
+   */
+  refreshingDataSourceIds?: ReadonlySet<string> | undefined
   onExecuteInsightsQuery?:
   | ((query: InsightsQuery, dataSource?: DataSource) => Promise<void>)
   | undefined
@@ -49,9 +61,15 @@ export interface DataSourcesProps {
   className?: string
   /**
    * Insights queries for data analysis
-   * Only user-provided queries will be available - no built-in defaults
+   * Only the given queries are available; see `createProfilingInsights` for
+   * built-in profiling queries
    */
   insightQueries?: InsightsQuery[] | undefined
+  /**
+   * Insert a table or column identifier into the editor at the cursor;
+   * called from the schema explorer
+   */
+  onInsertIdentifier?: ((identifier: string) => void) | undefined
 }
 
 /**
@@ -61,14 +79,19 @@ export function DataSources({
   dataSources,
   isLoadingBatch,
   db,
+  connection,
   onImportFile,
   onSelectDataSource,
+  onRefreshDataSource,
+  refreshingDataSourceIds,
   onExecuteInsightsQuery,
   onRemoveDataSource,
   insightQueries,
+  onInsertIdentifier,
   className,
 }: DataSourcesProps): React.ReactNode {
   const [isOpen, setIsOpen] = useState(false)
+  const [isSchemaView, setIsSchemaView] = useState(false)
   const [searchTerm, setSearchTerm] = useState('')
   const [isUploading, setIsUploading] = useState(false)
 
@@ -219,6 +242,16 @@ export function DataSources({
     }
   }
 
+  const handleRefreshDataSource = async (
+    dataSource: DataSource,
+    event: React.MouseEvent
+  ): Promise<void> => {
+    event.stopPropagation()
+    event.preventDefault()
+
+    await onRefreshDataSource?.(dataSource)
+  }
+
   const formatFileSize = (bytes: number): string => {
     if (bytes < 1024) return `${bytes} B`
     if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
@@ -270,8 +303,22 @@ export function DataSources({
           className="absolute top-full right-0 mt-1 w-80 border shadow-lg bg-background text-foreground rounded-sm z-2 flex flex-col min-h-40 overflow-visible"
         >
           {/* Header */}
-          <div className="px-3 py-4 border-b">
+          <div className="flex items-center justify-between px-3 py-4 border-b">
             <h3 className="text-sm font-semibold">Data Sources</h3>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsSchemaView(!isSchemaView)}
+              className={cn(
+                'h-6 px-2 gap-1 text-xs cursor-pointer',
+                isSchemaView && 'bg-muted'
+              )}
+              aria-pressed={isSchemaView}
+              title={isSchemaView ? 'Show data sources' : 'Show schema'}
+            >
+              <ListTree className="h-3 w-3" />
+              Schema
+            </Button>
           </div>
 
           {/* Search input */}
@@ -304,7 +351,13 @@ export function DataSources({
 
           {/* Data sources list */}
           <div className="flex-1 overflow-y-auto overflow-x-hidden min-h-16">
-            {filteredDataSources.length === 0 ? (
+            {isSchemaView ? (
+              <SchemaExplorer
+                dataSources={filteredDataSources}
+                connection={connection}
+                onInsertIdentifier={onInsertIdentifier}
+              />
+            ) : filteredDataSources.length === 0 ? (
               <div className="flex items-center justify-center min-h-60 p-8">
                 <div className="text-center">
                   <div className="flex items-center justify-center w-16 h-16 bg-muted/30 rounded-full mb-4 mx-auto border">
@@ -335,6 +388,13 @@ export function DataSources({
                   const isLoading = dataSource.loadingStatus === 'loading'
                   const needsVerification =
                     dataSource.loadingStatus === 'verification_needed'
+                  const isRefreshable =
+                    !!onRefreshDataSource &&
+                    !!dataSource.url &&
+                    dataSource.importStrategy !== 'view' &&
+                    dataSource.loadingStatus === 'loaded'
+                  const isRefreshing =
+                    refreshingDataSourceIds?.has(dataSource.id) ?? false
 
                   return (
                     <div
@@ -370,9 +430,24 @@ export function DataSources({
                                     ({formatFileSize(dataSource.file.size)})
                                   </span>
                                 )}
+                                {dataSource.lastRefreshedAt && (
+                                  <span
+                                    className="text-xs text-muted-foreground shrink-0"
+                                    title={`Last refreshed ${dataSource.lastRefreshedAt.toLocaleString()}`}
+                                  >
+                                    {dataSource.lastRefreshedAt.toLocaleTimeString(
+                                      [],
+                                      { hour: '2-digit', minute: '2-digit' }
+                                    )}
+                                  </span>
+                                )}
                               </div>
                               <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                                <span className="shrink-0">Table:</span>
+                                <span className="shrink-0">
+                                  {dataSource.importStrategy === 'view'
+                                    ? 'View:'
+                                    : 'Table:'}
+                                </span>
                                 <span className="font-mono bg-muted inline-block px-1 truncate overflow-hidden text-ellipsis max-w-[140px]">
                                   {dataSource.tableName}
                                 </span>
@@ -417,6 +492,30 @@ export function DataSources({
                           </div>
                         </button>
 
+                        {/* Refresh button for url sources */}
+                        {isRefreshable && (
+                          <div className="px-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 w-7 p-0 cursor-pointer"
+                              onClick={e =>
+                                handleRefreshDataSource(dataSource, e)
+                              }
+                              disabled={isRefreshing || isComponentDisabled}
+                              title={isRefreshing ? 'Refreshing...' : 'Refresh'}
+                              aria-label={`Refresh ${dataSource.name}`}
+                            >
+                              <RefreshCw
+                                className={cn(
+                                  'h-4 w-4',
+                                  isRefreshing && 'animate-spin'
+                                )}
+                              />
+                            </Button>
+                          </div>
+                        )}
+
                         {/* Remove button for failed sources */}
                         {isFailed && onRemoveDataSource && (
                           <div className="px-2">
@@ -542,7 +641,7 @@ export function DataSources({
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".csv,.parquet,.json,.jsonl"
+                accept=".csv,.tsv,.parquet,.json,.jsonl,.ndjson,.arrow,.feather,.ipc,.xlsx,.duckdb,.db,.sqlite,.sqlite3"
                 onChange={handleFileSelect}
                 className="hidden"
               />
@@ -555,7 +654,7 @@ export function DataSources({
                 title={
                   isComponentDisabled
                     ? 'Import disabled - no database available'
-                    : 'Supported files are: .csv, .parquet, .json, .jsonl'
+                    : 'Supported files are: CSV, Parquet, JSON, NDJSON, Arrow IPC, Excel (.xlsx), DuckDB and SQLite databases'
                 }
               >
                 <Upload className="h-4 w-4" />
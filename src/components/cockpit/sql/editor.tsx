@@ -8,10 +8,18 @@
 import { useLogger, useShadowDOM, useTheme } from '@/lib/foundation'
 import {
   CompletionContext,
-  registerDuckDBCompletionProvider,
+  registerDuckDBLanguageProviders,
 } from '@/lib/sql-completion'
+import { invalidateDuckDBCatalog } from '@/lib/duckdb/catalog'
+import { validateSQL } from '@/lib/duckdb/diagnostics'
 import { cn } from '@/lib/utils'
-import { DataSource } from '@/types/sql'
+import { findStatementAtOffset } from '@/lib/sql-statements'
+import {
+  DataSource,
+  QueryExecutionTarget,
+  QueryRunMode,
+  SQLDiagnostic,
+} from '@/types/sql'
 import { Editor, loader, OnMount } from '@monaco-editor/react'
 import * as monaco from 'monaco-editor'
 import monacoEditorCss from 'monaco-editor/min/vs/editor/editor.main.css?inline'
@@ -20,20 +28,31 @@ import React, { useCallback, useEffect, useRef, useState } from 'react'
 interface SQLEditorProps {
   value: string
   onChange: (value: string) => void
-  onExecute?: () => void
+  onExecute?: (target: QueryExecutionTarget) => void
   onFormat?: () => void
-  onMount?: (editor: any) => void
+  onMount?: (editor: monaco.editor.IStandaloneCodeEditor) => void
   onFocus?: () => void
   onBlur?: () => void
 
   // Editor configuration
   readOnly?: boolean
   showLineNumbers?: boolean
+  theme?: 'light' | 'dark' | 'auto' // 'auto' follows the FoundationProvider theme
+  placeholder?: string
   fontSize?: number
   tabSize?: number
   wordWrap?: boolean
   minimap?: boolean
 
+  // Execution
+  runMode?: QueryRunMode // Mode used by Ctrl+Enter (a non-empty selection always wins)
+  highlightRange?: { start: number; end: number } | null // Offsets of the SQL that last ran
+  diagnostics?: SQLDiagnostic[] // Errors of the SQL that last ran, cleared as soon as the text changes
+
+  // Validation
+  validation?: boolean // Check the SQL on the connection while typing
+  validationDelay?: number // Milliseconds after the last change before checking
+
   // SQL features
   enableAutoComplete?: boolean
   enableSyntaxHighlighting?: boolean
@@ -47,6 +66,81 @@ interface SQLEditorProps {
   className?: string
 }
 
+const EXECUTION_MARKER_OWNER = 'duckdb-execution'
+const VALIDATION_MARKER_OWNER = 'duckdb-validation'
+const NO_DIAGNOSTICS: SQLDiagnostic[] = []
+
+/**
+ * Convert diagnostics located by offsets into Monaco error markers
+ */
+function toMarkers(
+  model: monaco.editor.ITextModel,
+  diagnostics: SQLDiagnostic[]
+): monaco.editor.IMarkerData[] {
+  return diagnostics.map(diagnostic => {
+    const start = model.getPositionAt(diagnostic.start)
+    const end = model.getPositionAt(diagnostic.end)
+    return {
+      severity: monaco.MarkerSeverity.Error,
+      message: diagnostic.message,
+      source: 'DuckDB',
+      startLineNumber: start.lineNumber,
+      startColumn: start.column,
+      endLineNumber: end.lineNumber,
+      endColumn: end.column,
+    }
+  })
+}
+
+/**
+ * Pick the SQL to execute from the editor for the given run mode
+ *
+ * @param editor - Monaco editor instance
+ * @param mode - Which part of the buffer to run
+ * @returns The SQL and its offsets, or null when there is nothing to run
+ */
+export function getExecutionTarget(
+  editor: monaco.editor.ICodeEditor,
+  mode: QueryRunMode
+): QueryExecutionTarget | null {
+  const model = editor.getModel()
+  if (!model) return null
+  const text = model.getValue()
+
+  if (mode === 'all') {
+    const sql = text.trim()
+    if (!sql) return null
+    const start = text.length - text.trimStart().length
+    return { sql, mode, start, end: start + sql.length }
+  }
+
+  const selection = editor.getSelection()
+  if (mode === 'selection' && selection && !selection.isEmpty()) {
+    const selectionStart = model.getOffsetAt(selection.getStartPosition())
+    const selected = model.getValueInRange(selection)
+    const sql = selected.trim()
+    if (sql) {
+      const start =
+        selectionStart + selected.length - selected.trimStart().length
+      return { sql, mode, start, end: start + sql.length }
+    }
+  }
+
+  // Statement under the cursor (also the fallback for an empty selection)
+  const position = editor.getPosition()
+  const statement = findStatementAtOffset(
+    text,
+    position ? model.getOffsetAt(position) : 0
+  )
+  if (!statement) return null
+  return {
+    sql: statement.text,
+    mode,
+    start: statement.start,
+    end: statement.end,
+  }
+}
+
 /**
  * SQL Editor component with Monaco Editor integration
  */
@@ -58,6 +152,16 @@ export function SQLEditor({
   onMount,
   onFocus,
   onBlur,
+  runMode = 'all',
+  highlightRange = null,
+  diagnostics = NO_DIAGNOSTICS,
+  validation = false,
+  validationDelay = 750,
+  readOnly = false,
+  showLineNumbers = true,
+  theme = 'auto',
+  placeholder,
+  fontSize = 14,
   tabSize = 2,
   wordWrap = true,
   minimap = false,
@@ -71,7 +175,9 @@ export function SQLEditor({
   const editorRef = useRef<any>(null)
   const completionProviderRef = useRef<any>(null)
   const monacoRef = useRef<any>(null)
-  const { theme } = useTheme()
+  const executedDecorationsRef =
+    useRef<monaco.editor.IEditorDecorationsCollection | null>(null)
+  const { theme: foundationTheme } = useTheme()
   const { container } = useShadowDOM()
   const logger = useLogger()
 
@@ -91,7 +197,20 @@ export function SQLEditor({
       logger.debug('SQLEditor: Running in regular DOM mode')
     }
   }, [container, logger])
-  const monacoTheme = theme === 'light' ? 'light' : 'vs-dark'
+  const resolvedTheme = theme === 'auto' ? foundationTheme : theme
+  const monacoTheme = resolvedTheme === 'light' ? 'light' : 'vs-dark'
+
+  // Keyboard actions are registered once on mount, so they call the latest
+  // handlers through refs instead of capturing the first render's closures
+  const onExecuteRef = useRef(onExecute)
+  const onFormatRef = useRef(onFormat)
+  const runModeRef = useRef(runMode)
+  useEffect(() => {
+    onExecuteRef.current = onExecute
+    onFormatRef.current = onFormat
+    runModeRef.current = runMode
+  }, [onExecute, onFormat, runMode])
+
   const [currentValue, setCurrentValue] = useState(value)
   const [isMonacoLoaded, setIsMonacoLoaded] = useState(false)
 
@@ -125,8 +244,9 @@ export function SQLEditor({
   const editorOptions = React.useMemo(
     () => ({
       // Basic options
-      readOnly: false,
-      fontSize: 14,
+      readOnly,
+      ...(placeholder && { placeholder }),
+      fontSize,
       tabSize,
       wordWrap: wordWrap ? ('on' as const) : ('off' as const),
       minimap: { enabled: minimap },
@@ -145,7 +265,7 @@ export function SQLEditor({
       suggestSelection: 'first' as const,
 
       // Line numbers
-      lineNumbers: 'on' as const,
+      lineNumbers: showLineNumbers ? ('on' as const) : ('off' as const),
       lineNumbersMinChars: 3,
 
       // Appearance
@@ -180,7 +300,17 @@ export function SQLEditor({
           ariaContainerElement: container.shadowRoot as any,
         }),
     }),
-    [tabSize, wordWrap, minimap, enableAutoComplete, container]
+    [
+      readOnly,
+      placeholder,
+      fontSize,
+      showLineNumbers,
+      tabSize,
+      wordWrap,
+      minimap,
+      enableAutoComplete,
+      container,
+    ]
   )
 
   useEffect(() => {
@@ -201,7 +331,7 @@ export function SQLEditor({
       editorRef.current = editor
       monacoRef.current = monaco
 
-      // Register DuckDB completion provider
+      // Register DuckDB completion, signature help and hover providers
       if (enableAutoComplete && monaco && monaco.languages) {
         const completionContext: CompletionContext = {
           dataSources,
@@ -210,7 +340,7 @@ export function SQLEditor({
           connection,
         }
 
-        completionProviderRef.current = registerDuckDBCompletionProvider(
+        completionProviderRef.current = registerDuckDBLanguageProviders(
           monaco,
           completionContext
         )
@@ -251,19 +381,69 @@ export function SQLEditor({
         }
       })
 
+      // Highlight and errors of the SQL that last ran, cleared as soon as the
+      // text changes
+      executedDecorationsRef.current = editor.createDecorationsCollection()
+      editor.onDidChangeModelContent(() => {
+        executedDecorationsRef.current?.clear()
+        const model = editor.getModel()
+        if (model) {
+          monaco.editor.setModelMarkers(model, EXECUTION_MARKER_OWNER, [])
+        }
+      })
+
       // Set up keyboard shortcuts
       if (onExecute) {
+        const execute = (mode: QueryRunMode): void => {
+          const target = getExecutionTarget(editor, mode)
+          if (target) onExecuteRef.current?.(target)
+        }
+
         editor.addAction({
           id: 'execute-query',
           label: 'Execute Query',
           keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.Enter],
           run: () => {
-            onExecute()
+            // A non-empty selection is always what the user wants to run
+            const selection = editor.getSelection()
+            execute(
+              selection && !selection.isEmpty()
+                ? 'selection'
+                : runModeRef.current
+            )
           },
         })
+
+        editor.addAction({
+          id: 'execute-statement',
+          label: 'Run Current Statement',
+          keybindings: [
+            monaco.KeyMod.CtrlCmd | monaco.KeyMod.Shift | monaco.KeyCode.Enter,
+          ],
+          contextMenuGroupId: '1_execution',
+          contextMenuOrder: 1,
+          run: () => execute('statement'),
+        })
+
+        editor.addAction({
+          id: 'execute-selection',
+          label: 'Run Selected Text',
+          precondition: 'editorHasSelection',
+          contextMenuGroupId: '1_execution',
+          contextMenuOrder: 2,
+          run: () => execute('selection'),
+        })
+
+        editor.addAction({
+          id: 'execute-all',
+          label: 'Run All',
+          contextMenuGroupId: '1_execution',
+          contextMenuOrder: 3,
+          run: () => execute('all'),
+        })
       }
 
-      if (onFormat && enableFormatting) {
+      if (onFormat && enableFormatting && !readOnly) {
         editor.addAction({
           id: 'format-query',
           label: 'Format Query',
@@ -271,7 +451,7 @@ export function SQLEditor({
             monaco.KeyMod.CtrlCmd | monaco.KeyMod.Shift | monaco.KeyCode.KeyF,
           ],
           run: () => {
-            onFormat()
+            onFormatRef.current?.()
           },
         })
       }
@@ -285,12 +465,86 @@ export function SQLEditor({
       onExecute,
       onFormat,
       onMount,
+      readOnly,
       enableFormatting,
       enableSyntaxHighlighting,
       logger,
     ]
   )
 
+  // Highlight the SQL that last ran
+  useEffect(() => {
+    const editor = editorRef.current
+    const decorations = executedDecorationsRef.current
+    const model = editor?.getModel()
+    if (!decorations || !model) return
+
+    if (!highlightRange) {
+      decorations.clear()
+      return
+    }
+
+    const start = model.getPositionAt(highlightRange.start)
+    const end = model.getPositionAt(highlightRange.end)
+    decorations.set([
+      {
+        range: new monaco.Range(
+          start.lineNumber,
+          start.column,
+          end.lineNumber,
+          end.column
+        ),
+        options: {
+          className: 'bg-green-500/15',
+          overviewRuler: {
+            color: '#22c55e',
+            position: monaco.editor.OverviewRulerLane.Left,
+          },
+        },
+      },
+    ])
+  }, [highlightRange, isMonacoLoaded])
+
+  // Mark the errors of the SQL that last ran
+  useEffect(() => {
+    const model = editorRef.current?.getModel()
+    if (!model) return
+    monaco.editor.setModelMarkers(
+      model,
+      EXECUTION_MARKER_OWNER,
+      toMarkers(model, diagnostics)
+    )
+  }, [diagnostics, isMonacoLoaded])
+
+  // Check the SQL in the background once typing pauses
+  useEffect(() => {
+    const model: monaco.editor.ITextModel | undefined =
+      editorRef.current?.getModel()
+    if (!model) return
+    if (!validation || !connection) {
+      monaco.editor.setModelMarkers(model, VALIDATION_MARKER_OWNER, [])
+      return
+    }
+
+    const versionId = model.getVersionId()
+    const timer = setTimeout(() => {
+      validateSQL(connection, model.getValue())
+        .then(found => {
+          // The text changed while it was being checked
+          if (model.isDisposed() || model.getVersionId() !== versionId) return
+          monaco.editor.setModelMarkers(
+            model,
+            VALIDATION_MARKER_OWNER,
+            toMarkers(model, found)
+          )
+        })
+        .catch(error => {
+          logger.warn('SQL validation failed:', error)
+        })
+    }, validationDelay)
+    return () => clearTimeout(timer)
+  }, [value, validation, validationDelay, connection, isMonacoLoaded, logger])
+
   // Handle window resize
   useEffect(() => {
     const handleResize = (): void => {
@@ -322,7 +576,11 @@ export function SQLEditor({
         completionProviderRef.current = null
       }
 
-      // Register new provider with updated context using the stored monaco reference
+      // Data sources change when tables are imported or removed, so the
+      // cached catalog is stale
+      if (connection) invalidateDuckDBCatalog(connection)
+
+      // Register new providers with updated context using the stored monaco reference
       const completionContext: CompletionContext = {
         dataSources,
         query: currentValue,
@@ -333,7 +591,7 @@ export function SQLEditor({
       // Use the stored monaco instance
       const monaco = monacoRef.current
       if (monaco && monaco.languages) {
-        completionProviderRef.current = registerDuckDBCompletionProvider(
+        completionProviderRef.current = registerDuckDBLanguageProviders(
           monaco,
           completionContext
         )
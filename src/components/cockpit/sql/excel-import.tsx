@@ -0,0 +1,151 @@
+/**
+ * Excel Import Dialog Component
+ *
+ * This component lets the user pick which sheets of an Excel workbook to
+ * import. Every selected sheet becomes its own table, named after the file
+ * and the sheet.
+ */
+
+import React, { useEffect, useState } from 'react'
+// Lucide React icons
+import { AlertCircle, Loader2 } from 'lucide-react'
+import { fileNameToTableName } from '@/lib/duckdb/ops'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface ExcelImportDialogProps {
+  file: File | null
+  sheets: string[]
+  onImport: (file: File, sheets: string[]) => Promise<void>
+  onCancel: () => void
+}
+
+/**
+ * Sheet selection dialog for Excel workbooks with several sheets
+ */
+export function ExcelImportDialog({
+  file,
+  sheets,
+  onImport,
+  onCancel,
+}: ExcelImportDialogProps): React.ReactNode {
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([])
+  const [isImporting, setIsImporting] = useState(false)
+  const [importError, setImportError] = useState<string | null>(null)
+
+  // Select the first sheet of a new workbook
+  useEffect(() => {
+    setSelectedSheets(sheets.slice(0, 1))
+    setImportError(null)
+  }, [file, sheets])
+
+  const toggleSheet = (sheet: string, checked: boolean): void => {
+    setSelectedSheets(prev =>
+      // Keep workbook order, which also decides the table order
+      sheets.filter(name => (name === sheet ? checked : prev.includes(name)))
+    )
+  }
+
+  const handleImport = async (): Promise<void> => {
+    if (!file || selectedSheets.length === 0) return
+    setIsImporting(true)
+    setImportError(null)
+    try {
+      await onImport(file, selectedSheets)
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const baseTableName = file ? fileNameToTableName(file.name) : ''
+  const allSelected = selectedSheets.length === sheets.length
+
+  return (
+    <Dialog
+      open={!!file}
+      onOpenChange={open => {
+        if (!open && !isImporting) onCancel()
+      }}
+    >
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Import {file?.name}</DialogTitle>
+          <DialogDescription>
+            Select the sheets to import. Each sheet becomes its own table.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-2 min-h-0">
+          <label className="flex items-center gap-2 text-xs font-medium text-muted-foreground pb-2 border-b">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={e =>
+                setSelectedSheets(e.target.checked ? [...sheets] : [])
+              }
+              disabled={isImporting}
+            />
+            All sheets
+          </label>
+          <div className="flex flex-col gap-1 max-h-72 overflow-auto">
+            {sheets.map(sheet => (
+              <label
+                key={sheet}
+                className="flex items-center gap-2 text-sm cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedSheets.includes(sheet)}
+                  onChange={e => toggleSheet(sheet, e.target.checked)}
+                  disabled={isImporting}
+                />
+                <span className="truncate">{sheet}</span>
+                {selectedSheets.length > 1 &&
+                  selectedSheets.includes(sheet) && (
+                    <span className="ml-auto font-mono text-xs text-muted-foreground truncate">
+                      {baseTableName}_{fileNameToTableName(sheet)}
+                    </span>
+                  )}
+              </label>
+            ))}
+          </div>
+
+          {importError && (
+            <div className="flex items-start gap-2 text-xs text-destructive">
+              <AlertCircle className="h-4 w-4 shrink-0" />
+              <span className="break-words">{importError}</span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onCancel}
+            disabled={isImporting}
+            className="cursor-pointer"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={selectedSheets.length === 0 || isImporting}
+            className="cursor-pointer"
+          >
+            {isImporting && <Loader2 className="h-4 w-4 animate-spin" />}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
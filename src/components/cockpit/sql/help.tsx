@@ -17,6 +17,7 @@ interface HelpDialogProps {
   isOpen: boolean
   onClose: () => void
   title?: string
+  content?: React.ReactNode | string // Custom content, or a documentation URL
   className?: string
 }
 
@@ -49,6 +50,7 @@ export function HelpDialog({
   isOpen,
   onClose,
   title = 'SQL Cockpit',
+  content,
   className,
 }: HelpDialogProps): React.ReactNode {
   const dialogRef = useRef<HTMLDivElement>(null)
@@ -156,7 +158,15 @@ export function HelpDialog({
         </div>
 
         {/* Content */}
-        <DefaultHelpContent />
+        {typeof content === 'string' ? (
+          <DefaultHelpContent documentationUrl={content} />
+        ) : content ? (
+          <div className="space-y-6 p-6 overflow-y-auto flex-1 text-foreground">
+            {content}
+          </div>
+        ) : (
+          <DefaultHelpContent />
+        )}
 
         {/* Footer */}
         <div className="p-4 border-t border-bottom">
@@ -178,9 +188,23 @@ export function HelpDialog({
 /**
  * Default help content for SQL Cockpit
  */
-function DefaultHelpContent(): React.ReactNode {
+function DefaultHelpContent({
+  documentationUrl,
+}: {
+  documentationUrl?: string
+}): React.ReactNode {
   return (
     <div className="space-y-6 p-6 overflow-y-auto flex-1">
+      {/* Custom documentation link */}
+      {documentationUrl && (
+        <section>
+          <ExternalLinkComponent
+            href={documentationUrl}
+            label="Open documentation"
+          />
+        </section>
+      )}
+
       {/* Quick Start */}
       <section>
         <h3 className="text-lg font-semibold mb-3 flex items-center gap-2 text-foreground">
@@ -205,6 +229,10 @@ function DefaultHelpContent(): React.ReactNode {
             </kbd>{' '}
             on macOS) to run the query.
           </li>
+          <li>
+            Select text or place the cursor inside a statement and use the run
+            menu next to the run button to execute only that part.
+          </li>
           <li>Review the results in the table beneath the editor.</li>
           <li>
             Use{' '}
@@ -268,6 +296,47 @@ function DefaultHelpContent(): React.ReactNode {
                   </div>
                 </td>
               </tr>
+              <tr className="hover:bg-muted/30 transition-colors">
+                <td className="p-3 text-foreground">Run current statement</td>
+                <td className="p-3 text-right">
+                  <div className="flex flex-col items-end gap-1">
+                    <div className="flex items-center justify-end gap-1">
+                      <kbd className="px-2 py-1 bg-muted border text-foreground text-xs font-mono leading-none rounded">
+                        Ctrl
+                      </kbd>
+                      <span className="text-muted-foreground text-xs leading-none">
+                        +
+                      </span>
+                      <kbd className="px-2 py-1 bg-muted border text-foreground text-xs font-mono leading-none rounded">
+                        Shift
+                      </kbd>
+                      <span className="text-muted-foreground text-xs leading-none">
+                        +
+                      </span>
+                      <kbd className="px-2 py-1 bg-muted border text-foreground text-xs font-mono leading-none rounded">
+                        Enter
+                      </kbd>
+                    </div>
+                    <div className="flex items-center justify-end gap-1 text-muted-foreground">
+                      <kbd className="px-2 py-1 bg-muted border text-foreground text-xs font-mono leading-none rounded">
+                        Cmd
+                      </kbd>
+                      <span className="text-muted-foreground text-xs leading-none">
+                        +
+                      </span>
+                      <kbd className="px-2 py-1 bg-muted border text-foreground text-xs font-mono leading-none rounded">
+                        Shift
+                      </kbd>
+                      <span className="text-muted-foreground text-xs leading-none">
+                        +
+                      </span>
+                      <kbd className="px-2 py-1 bg-muted border text-foreground text-xs font-mono leading-none rounded">
+                        Enter
+                      </kbd>
+                    </div>
+                  </div>
+                </td>
+              </tr>
               <tr className="hover:bg-muted/30 transition-colors">
                 <td className="p-3 text-foreground">Format query</td>
                 <td className="p-3 text-right">
@@ -0,0 +1,342 @@
+/**
+ * Query History Component
+ *
+ * This component provides a dropdown interface for browsing previously executed SQL
+ * queries. Entries can be searched, loaded back into the editor or re-run directly.
+ */
+
+import React, { useState, useRef, useEffect } from 'react'
+import { AsyncDuckDB } from '@duckdb/duckdb-wasm'
+// Lucide React icons
+import {
+  Ban,
+  CheckCircle,
+  Clock,
+  History,
+  Play,
+  Search,
+  TimerOff,
+  Trash2,
+  X,
+  XCircle,
+} from 'lucide-react'
+import { QueryHistoryEntry } from '@/types/sql'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+
+interface QueryHistoryProps {
+  entries: QueryHistoryEntry[]
+  db?: AsyncDuckDB | undefined // DuckDB database instance
+  onSelect: (entry: QueryHistoryEntry) => void
+  onRerun?: ((entry: QueryHistoryEntry) => void) | undefined
+  onRemove?: ((entry: QueryHistoryEntry) => void) | undefined
+  onClear?: (() => void) | undefined
+  className?: string
+}
+
+/**
+ * Format an execution timestamp relative to now
+ */
+const formatExecutedAt = (date: Date): string => {
+  const diffMs = Date.now() - date.getTime()
+  const diffMinutes = Math.floor(diffMs / (1000 * 60))
+
+  if (diffMinutes < 1) {
+    return 'Just now'
+  } else if (diffMinutes < 60) {
+    return `${diffMinutes} min ago`
+  } else if (diffMinutes < 60 * 24) {
+    return date.toLocaleTimeString()
+  }
+  return date.toLocaleString()
+}
+
+/**
+ * Query History dropdown component
+ */
+export function QueryHistory({
+  entries,
+  db,
+  onSelect,
+  onRerun,
+  onRemove,
+  onClear,
+  className,
+}: QueryHistoryProps): React.ReactNode {
+  const [isOpen, setIsOpen] = useState(false)
+  const [searchTerm, setSearchTerm] = useState('')
+  const dropdownRef = useRef<HTMLDivElement>(null)
+  const searchInputRef = useRef<HTMLInputElement>(null)
+  const triggerButtonRef = useRef<HTMLButtonElement>(null)
+
+  // Component is disabled when db is not available
+  const isComponentDisabled = !db
+
+  // Filter entries based on search term
+  const filteredEntries = React.useMemo(() => {
+    if (!searchTerm) return entries
+
+    const lowerSearchTerm = searchTerm.toLowerCase()
+    return entries.filter(
+      entry =>
+        entry.query.toLowerCase().includes(lowerSearchTerm) ||
+        entry.error?.toLowerCase().includes(lowerSearchTerm)
+    )
+  }, [entries, searchTerm])
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent): void => {
+      // Use composedPath() for Shadow DOM compatibility
+      const path = event.composedPath()
+
+      if (
+        dropdownRef.current &&
+        !path.includes(dropdownRef.current) &&
+        triggerButtonRef.current &&
+        !path.includes(triggerButtonRef.current)
+      ) {
+        setIsOpen(false)
+        setSearchTerm('')
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  // Focus search input when dropdown opens
+  useEffect(() => {
+    if (isOpen && searchInputRef.current) {
+      searchInputRef.current.focus()
+    }
+  }, [isOpen])
+
+  const closeDropdown = (): void => {
+    setIsOpen(false)
+    setSearchTerm('')
+  }
+
+  const handleSelect = (entry: QueryHistoryEntry): void => {
+    onSelect(entry)
+    closeDropdown()
+  }
+
+  const handleRerun = (
+    entry: QueryHistoryEntry,
+    event: React.MouseEvent
+  ): void => {
+    event.stopPropagation()
+    onRerun?.(entry)
+    closeDropdown()
+  }
+
+  const handleRemove = (
+    entry: QueryHistoryEntry,
+    event: React.MouseEvent
+  ): void => {
+    event.stopPropagation()
+    onRemove?.(entry)
+  }
+
+  return (
+    <div className={cn('relative bg-background', className)}>
+      {/* Trigger button */}
+      <Button
+        ref={triggerButtonRef}
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isComponentDisabled}
+        className={cn(
+          'h-8 w-8 p-0',
+          isComponentDisabled
+            ? 'cursor-not-allowed opacity-50'
+            : 'hover:cursor-pointer'
+        )}
+        aria-label={
+          isComponentDisabled
+            ? 'Query history disabled - no database available'
+            : 'Query history'
+        }
+        aria-expanded={isOpen}
+        aria-haspopup="menu"
+        title={
+          isComponentDisabled
+            ? 'Query history disabled - no database available'
+            : 'Query history'
+        }
+      >
+        <History className="h-4 w-4" />
+      </Button>
+
+      {/* Dropdown */}
+      {isOpen && (
+        <div
+          ref={dropdownRef}
+          className="absolute top-full right-0 mt-1 w-96 border shadow-lg bg-background text-foreground rounded-sm z-2 flex flex-col"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between px-3 py-3 border-b">
+            <h3 className="text-sm font-semibold">Query History</h3>
+            {onClear && entries.length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onClear}
+                className="h-7 px-2 text-xs cursor-pointer"
+                title="Clear history"
+              >
+                <Trash2 className="h-3 w-3 mr-1" />
+                Clear
+              </Button>
+            )}
+          </div>
+
+          {/* Search input */}
+          {entries.length > 0 && (
+            <div className="p-2 border-b">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-3 w-3" />
+                <input
+                  ref={searchInputRef}
+                  type="text"
+                  placeholder="Search history..."
+                  value={searchTerm}
+                  onChange={e => setSearchTerm(e.target.value)}
+                  className="w-full pl-10 pr-10 py-1.5 text-xs border focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent rounded"
+                />
+                {searchTerm && (
+                  <button
+                    onClick={() => {
+                      setSearchTerm('')
+                      searchInputRef.current?.focus()
+                    }}
+                    className="absolute right-3 top-1/2 transform -translate-y-1/2 p-1"
+                  >
+                    <X className="h-3 w-3 cursor-pointer" />
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* History list */}
+          <div className="max-h-80 overflow-y-auto">
+            {filteredEntries.length === 0 ? (
+              <div className="flex items-center justify-center min-h-60 p-8">
+                <div className="text-center">
+                  <div className="flex items-center justify-center w-16 h-16 bg-muted/30 rounded-full mb-4 mx-auto border">
+                    <History className="w-8 h-8 text-muted-foreground" />
+                  </div>
+                  <h3 className="text-base font-medium text-foreground mb-2">
+                    No history entries
+                  </h3>
+                  <p className="text-sm text-muted-foreground max-w-md">
+                    {searchTerm
+                      ? 'No executed queries match your search. Try adjusting your search terms.'
+                      : 'Queries you run will appear here.'}
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <div role="menu">
+                {filteredEntries.map((entry, index) => (
+                  <div
+                    key={entry.id}
+                    role="menuitem"
+                    tabIndex={0}
+                    className={cn(
+                      'group w-full text-left px-3 py-2 text-sm cursor-pointer hover:bg-muted focus:outline-none transition-colors',
+                      index < filteredEntries.length - 1 && 'border-b'
+                    )}
+                    onClick={() => handleSelect(entry)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') handleSelect(entry)
+                    }}
+                    title={entry.error || entry.query}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="font-mono text-xs line-clamp-2 break-all">
+                          {entry.query}
+                        </div>
+                        <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                          {entry.interruption === 'timeout' ? (
+                            <TimerOff className="h-3 w-3 shrink-0" />
+                          ) : entry.interruption === 'cancelled' ? (
+                            <Ban className="h-3 w-3 shrink-0" />
+                          ) : entry.error ? (
+                            <XCircle className="h-3 w-3 shrink-0 text-red-600 dark:text-red-500" />
+                          ) : (
+                            <CheckCircle className="h-3 w-3 shrink-0 text-green-600 dark:text-green-500" />
+                          )}
+                          <Clock className="h-3 w-3 shrink-0" />
+                          <span>{formatExecutedAt(entry.executedAt)}</span>
+                          <span>{entry.executionTime}ms</span>
+                          {!entry.error && entry.rowCount !== undefined && (
+                            <span>
+                              {entry.rowCount.toLocaleString()} row
+                              {entry.rowCount === 1 ? '' : 's'}
+                            </span>
+                          )}
+                        </div>
+                        {entry.error && (
+                          <div className="text-xs mt-1 text-red-600 dark:text-red-500 truncate">
+                            {entry.error}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0 opacity-0 group-hover:opacity-100 group-focus:opacity-100 transition-opacity">
+                        {onRerun && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0 cursor-pointer"
+                            onClick={e => handleRerun(entry, e)}
+                            title="Run again"
+                            aria-label="Run query again"
+                          >
+                            <Play className="h-3 w-3 text-green-600" />
+                          </Button>
+                        )}
+                        {onRemove && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0 cursor-pointer"
+                            onClick={e => handleRemove(entry, e)}
+                            title="Remove from history"
+                            aria-label="Remove from history"
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          {filteredEntries.length > 0 && (
+            <div className="px-3 py-2 border-t bg-background rounded-b-sm">
+              <div className="text-xs">
+                {filteredEntries.length}{' '}
+                {filteredEntries.length === 1 ? 'entry' : 'entries'} found
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Status announcement for screen readers */}
+      <div role="status" aria-live="polite" className="sr-only">
+        {isOpen &&
+          `Dropdown open with ${filteredEntries.length} history entries available`}
+      </div>
+    </div>
+  )
+}
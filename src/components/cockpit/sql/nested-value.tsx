@@ -0,0 +1,201 @@
+/**
+ * Nested Value Component
+ *
+ * This component renders LIST, ARRAY, STRUCT, MAP and JSON cells of the
+ * results table: a one-line preview plus a popover with an expandable tree
+ * of the whole value.
+ */
+
+import React, { useState } from 'react'
+// Lucide React icons
+import { ChevronDown, ChevronRight, Maximize2 } from 'lucide-react'
+import {
+  DuckDBInterval,
+  DuckDBMapEntry,
+  formatResultValue,
+} from '@/lib/duckdb/values'
+import { getBaseDuckDBType } from '@/lib/duckdb/type-labels'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { cn } from '@/lib/utils'
+
+const PREVIEW_LENGTH = 100
+
+interface NestedCellValueProps {
+  value: unknown
+  duckdbType: string
+}
+
+interface NestedValueNodeProps {
+  label?: string | undefined
+  value: unknown
+  isMap?: boolean | undefined
+  depth: number
+}
+
+/**
+ * Whether a value is a plain object (a STRUCT value or a parsed JSON object)
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof DuckDBInterval) &&
+  !(value instanceof Uint8Array) &&
+  !(value instanceof Date)
+
+/**
+ * Parse a JSON cell so it can be shown as a tree; invalid JSON stays text
+ */
+const parseJSONValue = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
+
+/**
+ * Get the child nodes of a nested value as [label, value] pairs
+ */
+const getChildren = (value: unknown, isMap: boolean): [string, unknown][] => {
+  if (isMap && Array.isArray(value)) {
+    return (value as DuckDBMapEntry[]).map(entry => [
+      formatResultValue(entry.key),
+      entry.value,
+    ])
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => [String(index + 1), item])
+  }
+  if (isPlainObject(value)) {
+    return Object.entries(value)
+  }
+  return []
+}
+
+/**
+ * One node of the nested value tree
+ */
+function NestedValueNode({
+  label,
+  value,
+  isMap = false,
+  depth,
+}: NestedValueNodeProps): React.ReactNode {
+  const [isExpanded, setIsExpanded] = useState(depth === 0)
+  const isNested = Array.isArray(value) || isPlainObject(value)
+  const children = isNested ? getChildren(value, isMap) : []
+  const summary = isMap
+    ? `{${children.length} ${children.length === 1 ? 'entry' : 'entries'}}`
+    : Array.isArray(value)
+      ? `[${children.length} ${children.length === 1 ? 'item' : 'items'}]`
+      : `{${children.length} ${children.length === 1 ? 'field' : 'fields'}}`
+
+  return (
+    <div className="font-mono text-xs">
+      <div
+        className="flex items-start gap-1 py-0.5"
+        style={{ paddingLeft: depth * 12 }}
+      >
+        {isNested ? (
+          <button
+            type="button"
+            className="flex items-center gap-1 cursor-pointer text-left hover:text-primary"
+            onClick={() => setIsExpanded(!isExpanded)}
+            aria-expanded={isExpanded}
+          >
+            {isExpanded ? (
+              <ChevronDown className="h-3 w-3 shrink-0" />
+            ) : (
+              <ChevronRight className="h-3 w-3 shrink-0" />
+            )}
+            {label !== undefined && (
+              <span className="font-medium">{label}:</span>
+            )}
+            <span className="text-muted-foreground">{summary}</span>
+          </button>
+        ) : (
+          <>
+            {label !== undefined && (
+              <span className="font-medium pl-4 shrink-0">{label}:</span>
+            )}
+            <span
+              className={cn(
+                'break-all',
+                value === null || value === undefined
+                  ? 'text-muted-foreground italic'
+                  : label === undefined && 'pl-4'
+              )}
+            >
+              {formatResultValue(value)}
+            </span>
+          </>
+        )}
+      </div>
+      {isNested &&
+        isExpanded &&
+        children.map(([childLabel, childValue]) => (
+          <NestedValueNode
+            key={childLabel}
+            label={childLabel}
+            value={childValue}
+            depth={depth + 1}
+          />
+        ))}
+    </div>
+  )
+}
+
+/**
+ * Results cell for nested and JSON values
+ */
+export function NestedCellValue({
+  value,
+  duckdbType,
+}: NestedCellValueProps): React.ReactNode {
+  const baseType = getBaseDuckDBType(duckdbType)
+  const isMap = baseType === 'MAP'
+  const treeValue = baseType === 'JSON' ? parseJSONValue(value) : value
+  const preview =
+    typeof value === 'string' ? value : formatResultValue(value, isMap)
+
+  return (
+    <div className="flex items-center gap-1 min-w-0">
+      <span className="font-mono truncate" title={preview}>
+        {preview.length > PREVIEW_LENGTH
+          ? `${preview.substring(0, PREVIEW_LENGTH)}...`
+          : preview}
+      </span>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 w-5 p-0 cursor-pointer shrink-0 text-muted-foreground"
+            onClick={e => e.stopPropagation()}
+            title="Expand value"
+            aria-label="Expand value"
+          >
+            <Maximize2 className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent
+          align="start"
+          className="max-w-md max-h-80 overflow-auto p-2"
+          onClick={e => e.stopPropagation()}
+        >
+          <div className="text-xs text-muted-foreground pb-1 mb-1 border-b truncate">
+            {duckdbType}
+          </div>
+          <NestedValueNode value={treeValue} isMap={isMap} depth={0} />
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  )
+}
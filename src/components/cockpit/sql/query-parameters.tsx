@@ -0,0 +1,303 @@
+/**
+ * Query Parameters Dialog Component
+ *
+ * This component asks for the values of a query's typed parameters before it
+ * runs: columns of the target table, numbers, text, dates, date ranges and
+ * choices from a list.
+ */
+
+import React, { useEffect, useState } from 'react'
+// Lucide React icons
+import { AlertCircle, Loader2 } from 'lucide-react'
+import {
+  ColumnInfo,
+  DateRangeValue,
+  QueryParameter,
+  QueryParameterValue,
+  QueryParameterValues,
+} from '@/types/sql'
+import {
+  getParameterColumns,
+  getParameterLabel,
+  validateParameterValue,
+} from '@/lib/sql-parameters'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface QueryParametersDialogProps {
+  open: boolean
+  title: string
+  parameters: QueryParameter[]
+  /** Columns each `column` parameter may pick, by parameter name */
+  columns: Record<string, ColumnInfo[]>
+  initialValues: QueryParameterValues
+  onSubmit: (values: QueryParameterValues) => Promise<void>
+  onCancel: () => void
+}
+
+interface ParameterInputProps {
+  id: string
+  parameter: QueryParameter
+  value: QueryParameterValue | undefined
+  columns: ColumnInfo[]
+  disabled: boolean
+  onChange: (value: QueryParameterValue) => void
+}
+
+const INPUT_CLASS_NAME =
+  'w-full h-8 px-2 text-sm border rounded bg-background focus:outline-none focus:ring-2 focus:ring-ring'
+
+/**
+ * Input matching the type of a parameter
+ */
+function ParameterInput({
+  id,
+  parameter,
+  value,
+  columns,
+  disabled,
+  onChange,
+}: ParameterInputProps): React.ReactNode {
+  switch (parameter.type) {
+    case 'column':
+    case 'enum': {
+      const options =
+        parameter.type === 'column'
+          ? getParameterColumns(parameter, columns).map(column => ({
+              value: column.name,
+              label: `${column.name} (${column.type})`,
+            }))
+          : (parameter.options ?? []).map(option =>
+              typeof option === 'string'
+                ? { value: option, label: option }
+                : option
+            )
+      return (
+        <select
+          id={id}
+          value={typeof value === 'string' ? value : ''}
+          onChange={e => onChange(e.target.value || null)}
+          disabled={disabled}
+          className={INPUT_CLASS_NAME}
+        >
+          <option value="">Select...</option>
+          {options.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      )
+    }
+    case 'number':
+      return (
+        <input
+          id={id}
+          type="number"
+          value={typeof value === 'number' && !Number.isNaN(value) ? value : ''}
+          min={parameter.min}
+          max={parameter.max}
+          step={parameter.step ?? 'any'}
+          onChange={e =>
+            onChange(e.target.value === '' ? null : e.target.valueAsNumber)
+          }
+          disabled={disabled}
+          className={INPUT_CLASS_NAME}
+        />
+      )
+    case 'date':
+      return (
+        <input
+          id={id}
+          type="date"
+          value={typeof value === 'string' ? value : ''}
+          onChange={e => onChange(e.target.value || null)}
+          disabled={disabled}
+          className={INPUT_CLASS_NAME}
+        />
+      )
+    case 'dateRange': {
+      const range: DateRangeValue =
+        typeof value === 'object' && value !== null
+          ? value
+          : { from: '', to: '' }
+      return (
+        <div className="flex items-center gap-2">
+          <input
+            id={id}
+            type="date"
+            value={range.from}
+            onChange={e => onChange({ ...range, from: e.target.value })}
+            disabled={disabled}
+            className={INPUT_CLASS_NAME}
+            aria-label={`${getParameterLabel(parameter)} start`}
+          />
+          <span className="text-xs text-muted-foreground">to</span>
+          <input
+            type="date"
+            value={range.to}
+            onChange={e => onChange({ ...range, to: e.target.value })}
+            disabled={disabled}
+            className={INPUT_CLASS_NAME}
+            aria-label={`${getParameterLabel(parameter)} end`}
+          />
+        </div>
+      )
+    }
+    case 'text':
+      return (
+        <input
+          id={id}
+          type="text"
+          value={typeof value === 'string' ? value : ''}
+          onChange={e => onChange(e.target.value)}
+          disabled={disabled}
+          className={INPUT_CLASS_NAME}
+        />
+      )
+  }
+}
+
+/**
+ * Form for the parameter values of an insights or saved query
+ */
+export function QueryParametersDialog({
+  open,
+  title,
+  parameters,
+  columns,
+  initialValues,
+  onSubmit,
+  onCancel,
+}: QueryParametersDialogProps): React.ReactNode {
+  const [values, setValues] = useState<QueryParameterValues>(initialValues)
+  const [showErrors, setShowErrors] = useState(false)
+  const [isRunning, setIsRunning] = useState(false)
+  const [runError, setRunError] = useState<string | null>(null)
+
+  // Start from the given values whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setValues(initialValues)
+      setShowErrors(false)
+      setRunError(null)
+    }
+  }, [open, initialValues])
+
+  const errors = Object.fromEntries(
+    parameters.map(parameter => [
+      parameter.name,
+      validateParameterValue(
+        parameter,
+        values[parameter.name],
+        columns[parameter.name]
+      ),
+    ])
+  )
+  const hasErrors = Object.values(errors).some(Boolean)
+
+  const handleSubmit = async (event: React.FormEvent): Promise<void> => {
+    event.preventDefault()
+    if (hasErrors) {
+      setShowErrors(true)
+      return
+    }
+    setIsRunning(true)
+    setRunError(null)
+    try {
+      await onSubmit(values)
+    } catch (error) {
+      setRunError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={isOpen => {
+        if (!isOpen && !isRunning) onCancel()
+      }}
+    >
+      <DialogContent className="sm:max-w-[480px]">
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>
+              Enter the query parameters. Values are bound to the query, not
+              pasted into it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex flex-col gap-3 max-h-96 overflow-auto">
+            {parameters.map(parameter => {
+              const id = `query-parameter-${parameter.name}`
+              const error = showErrors ? errors[parameter.name] : null
+              return (
+                <div key={parameter.name} className="flex flex-col gap-1">
+                  <label htmlFor={id} className="text-xs font-medium">
+                    {getParameterLabel(parameter)}
+                    {parameter.required === false && (
+                      <span className="text-muted-foreground"> (optional)</span>
+                    )}
+                  </label>
+                  <ParameterInput
+                    id={id}
+                    parameter={parameter}
+                    value={values[parameter.name]}
+                    columns={columns[parameter.name] ?? []}
+                    disabled={isRunning}
+                    onChange={value =>
+                      setValues(prev => ({ ...prev, [parameter.name]: value }))
+                    }
+                  />
+                  {parameter.description && (
+                    <p className="text-xs text-muted-foreground">
+                      {parameter.description}
+                    </p>
+                  )}
+                  {error && <p className="text-xs text-destructive">{error}</p>}
+                </div>
+              )
+            })}
+          </div>
+
+          {runError && (
+            <div className="flex items-start gap-2 text-xs text-destructive">
+              <AlertCircle className="h-4 w-4 shrink-0" />
+              <span className="break-words">{runError}</span>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onCancel}
+              disabled={isRunning}
+              className="cursor-pointer"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isRunning}
+              className="cursor-pointer"
+            >
+              {isRunning && <Loader2 className="h-4 w-4 animate-spin" />}
+              Run
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,382 @@
+/**
+ * Query Plan Dialog Component
+ *
+ * This component shows the plan of a statement from EXPLAIN ANALYZE: the
+ * operator tree with the time and rows of each operator, a flame-style view
+ * of where the time went, and DuckDB's raw profiling output. The operators
+ * the query spent the most time in are listed on top.
+ */
+
+import React, { useMemo } from 'react'
+import type {
+  Edge as FlowEdge,
+  EdgeTypes,
+  Node as FlowNode,
+  NodeProps,
+  NodeTypes,
+} from '@xyflow/react'
+// Lucide React icons
+import { AlertCircle, Flame, Loader2 } from 'lucide-react'
+import { QueryPlan, QueryPlanOperator } from '@/types/sql'
+import {
+  flattenQueryPlan,
+  getHottestOperators,
+  getSubtreeTiming,
+} from '@/lib/duckdb/plan'
+import { Canvas } from '@/components/ui/canvas'
+import { Controls } from '@/components/ui/controls'
+import { Edge } from '@/components/ui/edge'
+import {
+  Node,
+  NodeContent,
+  NodeDescription,
+  NodeHeader,
+  NodeTitle,
+} from '@/components/ui/node'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+
+interface QueryPlanDialogProps {
+  open: boolean
+  plan: QueryPlan | null
+  error: string | null
+  isLoading: boolean
+  onClose: () => void
+}
+
+interface OperatorNodeData extends Record<string, unknown> {
+  operator: QueryPlanOperator
+  /** Share of the total time spent in the operator itself */
+  share: number | null
+  hasInputs: boolean
+  hasOutput: boolean
+}
+
+type OperatorFlowNode = FlowNode<OperatorNodeData, 'operator'>
+
+const COLUMN_WIDTH = 320
+const ROW_HEIGHT = 170
+const MAX_EXTRA_INFO_ENTRIES = 3
+
+const formatSeconds = (seconds: number): string =>
+  `${(seconds * 1000).toFixed(seconds < 0.01 ? 3 : 1)}ms`
+
+const formatShare = (share: number): string => `${(share * 100).toFixed(1)}%`
+
+/**
+ * Color of an operator by its share of the total time, from cool to hot
+ */
+const getHeatColor = (share: number): string =>
+  `hsl(${Math.round(50 - 50 * Math.min(share, 1))} 90% 55% / 0.75)`
+
+/**
+ * Total time of a plan: the reported latency, otherwise the operator times
+ */
+const getTotalTiming = (plan: QueryPlan): number =>
+  plan.latency ||
+  plan.operators.reduce(
+    (total, operator) => total + getSubtreeTiming(operator),
+    0
+  )
+
+/**
+ * Lay out the operator tree from left to right: inputs (scans) on the left,
+ * the operator producing the result on the right, so rows flow along the
+ * edges
+ */
+function layoutQueryPlan(
+  plan: QueryPlan,
+  total: number
+): { nodes: OperatorFlowNode[]; edges: FlowEdge[] } {
+  const getDepth = (operator: QueryPlanOperator): number =>
+    1 + Math.max(0, ...operator.children.map(getDepth))
+  const maxDepth = Math.max(0, ...plan.operators.map(getDepth))
+  const nodes: OperatorFlowNode[] = []
+  const edges: FlowEdge[] = []
+  let nextRow = 0
+
+  // Leaves take the next free row, parents are centered on their children
+  const place = (
+    operator: QueryPlanOperator,
+    depth: number,
+    hasOutput: boolean
+  ): number => {
+    const rows = operator.children.map(child => {
+      edges.push({
+        id: `${child.id}->${operator.id}`,
+        source: child.id,
+        target: operator.id,
+        type: 'animated',
+      })
+      return place(child, depth + 1, true)
+    })
+    const row =
+      rows.length > 0 ? (rows[0]! + rows[rows.length - 1]!) / 2 : nextRow++
+    nodes.push({
+      id: operator.id,
+      type: 'operator',
+      position: {
+        x: (maxDepth - depth - 1) * COLUMN_WIDTH,
+        y: row * ROW_HEIGHT,
+      },
+      data: {
+        operator,
+        share:
+          operator.timing !== null && total > 0
+            ? operator.timing / total
+            : null,
+        hasInputs: operator.children.length > 0,
+        hasOutput,
+      },
+    })
+    return row
+  }
+
+  for (const operator of plan.operators) {
+    place(operator, 0, false)
+  }
+  return { nodes, edges }
+}
+
+/**
+ * An operator of the tree view
+ */
+function OperatorNode({ data }: NodeProps<OperatorFlowNode>): React.ReactNode {
+  const { operator, share, hasInputs, hasOutput } = data
+  const extraInfo = Object.entries(operator.extraInfo).slice(
+    0,
+    MAX_EXTRA_INFO_ENTRIES
+  )
+
+  return (
+    <Node
+      handles={{ target: hasInputs, source: hasOutput }}
+      className="w-72"
+      style={share !== null ? { borderColor: getHeatColor(share) } : undefined}
+    >
+      <NodeHeader>
+        <NodeTitle className="text-xs font-mono">{operator.name}</NodeTitle>
+        <NodeDescription className="text-xs">
+          {operator.timing !== null && formatSeconds(operator.timing)}
+          {share !== null && ` (${formatShare(share)})`}
+          {operator.cardinality !== null &&
+            ` · ${operator.cardinality.toLocaleString()} rows`}
+        </NodeDescription>
+      </NodeHeader>
+      {extraInfo.length > 0 && (
+        <NodeContent className="flex flex-col gap-1 text-xs">
+          {extraInfo.map(([key, value]) => (
+            <div key={key} className="truncate" title={value}>
+              <span className="text-muted-foreground">{key}: </span>
+              <span className="font-mono">{value.replace(/\n/g, ', ')}</span>
+            </div>
+          ))}
+        </NodeContent>
+      )}
+    </Node>
+  )
+}
+
+const NODE_TYPES: NodeTypes = { operator: OperatorNode }
+const EDGE_TYPES: EdgeTypes = { animated: Edge.Animated }
+
+/**
+ * An operator and its inputs as nested bars, sized by the time spent in them
+ */
+function FlameBar({
+  operator,
+  total,
+  parentTiming,
+}: {
+  operator: QueryPlanOperator
+  total: number
+  parentTiming: number
+}): React.ReactNode {
+  const timing = getSubtreeTiming(operator)
+  if (timing <= 0) return null
+  const share = (operator.timing ?? 0) / total
+
+  return (
+    <div
+      className="flex flex-col gap-px min-w-0"
+      style={{ width: `${(timing / parentTiming) * 100}%` }}
+    >
+      <div
+        className="h-6 px-1 rounded-sm text-[10px] leading-6 font-mono truncate text-black"
+        style={{ backgroundColor: getHeatColor(share) }}
+        title={`${operator.name}: ${formatSeconds(operator.timing ?? 0)} self, ${formatSeconds(timing)} total`}
+      >
+        {operator.name} {formatSeconds(timing)}
+      </div>
+      {operator.children.length > 0 && (
+        <div className="flex gap-px">
+          {operator.children.map(child => (
+            <FlameBar
+              key={child.id}
+              operator={child}
+              total={total}
+              parentTiming={timing}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Raw profiling output, indented when it is JSON
+ */
+const formatRawPlan = (raw: string): string => {
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2)
+  } catch {
+    return raw
+  }
+}
+
+/**
+ * Dialog with the query plan of a statement
+ */
+export function QueryPlanDialog({
+  open,
+  plan,
+  error,
+  isLoading,
+  onClose,
+}: QueryPlanDialogProps): React.ReactNode {
+  const total = plan ? getTotalTiming(plan) : 0
+  const layout = useMemo(
+    () => (plan ? layoutQueryPlan(plan, total) : { nodes: [], edges: [] }),
+    [plan, total]
+  )
+  const hottest = plan?.analyzed ? getHottestOperators(plan) : []
+  const operatorCount = plan ? flattenQueryPlan(plan.operators).length : 0
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Query plan</DialogTitle>
+          <DialogDescription>
+            {plan
+              ? plan.analyzed
+                ? `Profiled with EXPLAIN ANALYZE: ${operatorCount} operators, ${formatSeconds(total)} in total.`
+                : `${operatorCount} operators. Only queries are run to profile them, so there are no timings.`
+              : 'Runs the statement with EXPLAIN ANALYZE to measure each operator.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="flex items-center justify-center gap-2 h-40 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Explaining query...
+          </div>
+        )}
+
+        {error && !isLoading && (
+          <div className="flex items-start gap-2 text-xs text-destructive">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            <span className="break-words font-mono">{error}</span>
+          </div>
+        )}
+
+        {plan && !isLoading && (
+          <div className="flex flex-col gap-3 min-w-0">
+            {hottest.length > 0 && (
+              <div className="flex flex-col gap-1">
+                <div className="flex items-center gap-1 text-xs font-medium">
+                  <Flame className="h-3 w-3 text-orange-500" />
+                  Hottest operators
+                </div>
+                {hottest.map(operator => {
+                  const share = (operator.timing ?? 0) / total
+                  return (
+                    <div
+                      key={operator.id}
+                      className="flex items-center gap-2 text-xs"
+                    >
+                      <span className="w-40 truncate font-mono">
+                        {operator.name}
+                      </span>
+                      <div className="flex-1 h-2 bg-muted rounded-sm overflow-hidden">
+                        <div
+                          className="h-full"
+                          style={{
+                            width: formatShare(Math.min(share, 1)),
+                            backgroundColor: getHeatColor(share),
+                          }}
+                        />
+                      </div>
+                      <span className="w-32 text-right text-muted-foreground">
+                        {formatSeconds(operator.timing ?? 0)} (
+                        {formatShare(share)})
+                      </span>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+
+            <Tabs defaultValue="tree">
+              <TabsList>
+                <TabsTrigger value="tree">Tree</TabsTrigger>
+                <TabsTrigger value="timing" disabled={!plan.analyzed}>
+                  Timing
+                </TabsTrigger>
+                <TabsTrigger value="raw">Raw</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="tree">
+                <div className="h-[50vh] border rounded-sm">
+                  <Canvas
+                    nodes={layout.nodes}
+                    edges={layout.edges}
+                    nodeTypes={NODE_TYPES}
+                    edgeTypes={EDGE_TYPES}
+                    nodesConnectable={false}
+                    deleteKeyCode={null}
+                    proOptions={{ hideAttribution: true }}
+                  >
+                    <Controls showInteractive={false} />
+                  </Canvas>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="timing">
+                <div className="flex flex-col gap-1 h-[50vh] overflow-auto">
+                  <p className="text-xs text-muted-foreground">
+                    Each bar is an operator with the operators feeding it below,
+                    as wide as the time spent in all of them.
+                  </p>
+                  <div className="flex gap-px">
+                    {plan.operators.map(operator => (
+                      <FlameBar
+                        key={operator.id}
+                        operator={operator}
+                        total={total}
+                        parentTiming={total}
+                      />
+                    ))}
+                  </div>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="raw">
+                <pre className="h-[50vh] overflow-auto p-3 rounded-sm bg-muted text-xs font-mono whitespace-pre">
+                  {formatRawPlan(plan.raw)}
+                </pre>
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
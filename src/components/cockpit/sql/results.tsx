@@ -6,13 +6,22 @@
  */
 
 import { cn } from '@/lib/utils'
-import { QueryResult, SQLError, InsightsQuery } from '@/types/sql'
 import {
+  ColumnFilter,
+  QueryResult,
+  ResultExportFormat,
+  ResultView,
+  SQLError,
+  InsightsQuery,
+  StatementResult,
+} from '@/types/sql'
+import {
+  RESULT_EXPORT_EXTENSIONS,
   exportQueryResultToCSV,
   exportQueryResultToJSON,
-  exportQueryResultToCSVFile,
-  exportQueryResultToJSONFile,
+  exportQueryResultToFile,
 } from '@/lib/duckdb/ops'
+import { AsyncDuckDB, AsyncDuckDBConnection } from '@duckdb/duckdb-wasm'
 import React from 'react'
 import {
   ChevronLeft,
@@ -29,8 +38,26 @@ import {
   Copy,
   BarChart3,
   Table as TableIcon,
+  CheckCircle,
+  XCircle,
+  MinusCircle,
+  Ban,
+  TimerOff,
+  Loader2,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  FileBox,
+  type LucideIcon,
 } from 'lucide-react'
-import { usePagination } from '@/lib/hooks'
+import { usePagination, useVirtualWindow } from '@/lib/hooks'
+import {
+  EMPTY_RESULT_VIEW,
+  applyResultView,
+  isResultViewActive,
+  toggleColumnSort,
+} from '@/lib/result-view'
+import { ColumnFilterMenu } from './column-filter'
 import { Button } from '@/components/ui/button'
 import {
   Table,
@@ -40,7 +67,14 @@ import {
   TableHead,
   TableCell,
 } from '@/components/ui/table'
-import { TypeBadge } from '@/lib/duckdb/type-labels'
+import {
+  DuckDBType,
+  getBaseDuckDBType,
+  TypeBadge,
+} from '@/lib/duckdb/type-labels'
+import { formatResultValue, isDecimalString } from '@/lib/duckdb/values'
+import { isQueryInterruption } from '@/lib/duckdb/ops'
+import { NestedCellValue } from './nested-value'
 import { toast } from 'sonner'
 import {
   DropdownMenu,
@@ -49,8 +83,87 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 
+const NESTED_DISPLAY_TYPES = new Set<DuckDBType>([
+  'LIST',
+  'ARRAY',
+  'STRUCT',
+  'MAP',
+  'JSON',
+])
+
+const DEFAULT_EXPORT_FORMATS: ResultExportFormat[] = [
+  'csv',
+  'json',
+  'ndjson',
+  'arrow',
+  'parquet',
+  'excel',
+]
+
+const EXPORT_FORMAT_LABELS: Record<ResultExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  ndjson: 'NDJSON',
+  arrow: 'Arrow',
+  parquet: 'Parquet',
+  excel: 'Excel',
+}
+
+const EXPORT_FORMAT_ICONS: Record<ResultExportFormat, LucideIcon> = {
+  csv: FileSpreadsheet,
+  json: Braces,
+  ndjson: Braces,
+  arrow: FileBox,
+  parquet: FileBox,
+  excel: FileSpreadsheet,
+}
+
 const MIN_COLUMN_WIDTH = 160
+const MAX_COLUMN_WIDTH = 480
 const COLUMN_PADDING_BUFFER = 16
+const ROW_HEIGHT = 40
+const HEADER_HEIGHT = 45
+const ROW_NUMBER_MIN_WIDTH = 56
+const RESIZED_COLUMN_MIN_WIDTH = 60
+
+// Approximate glyph widths used to estimate column widths (text-sm)
+const CELL_CHAR_WIDTH = 8.5
+const HEADER_CHAR_WIDTH = 8
+const TYPE_BADGE_WIDTH = 64
+const HEADER_ACTIONS_WIDTH = 56
+const WIDTH_SAMPLE_SIZE = 100
+
+/**
+ * Estimate the width of a results column from its header and a sample of
+ * its values, clamped between MIN_COLUMN_WIDTH and MAX_COLUMN_WIDTH
+ */
+const estimateColumnWidth = (
+  column: QueryResult['columns'][0],
+  rows: Record<string, unknown>[]
+): number => {
+  let width =
+    column.name.length * HEADER_CHAR_WIDTH +
+    TYPE_BADGE_WIDTH +
+    HEADER_ACTIONS_WIDTH +
+    COLUMN_PADDING_BUFFER * 2
+
+  const sampleSize = Math.min(rows.length, WIDTH_SAMPLE_SIZE)
+  for (let index = 0; index < sampleSize; index++) {
+    const value = rows[index]![column.name]
+    if (value === null || value === undefined) continue
+    // Long strings are cut at 100 characters by CellValue
+    const text = typeof value === 'object' ? formatResultValue(value) : value
+    const length = Math.min(String(text).length, 103)
+    width = Math.max(
+      width,
+      length * CELL_CHAR_WIDTH + COLUMN_PADDING_BUFFER * 2
+    )
+  }
+
+  return Math.round(
+    Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, width))
+  )
+}
 
 interface ResultsPanelProps {
   result: QueryResult | null
@@ -65,12 +178,45 @@ interface ResultsPanelProps {
 
   // Insights query - if provided, shows chart visualization
   insightsQuery?: InsightsQuery | null
+
+  // Multi-statement scripts - one tab per statement when more than one ran
+  statementResults?: StatementResult[]
+  activeStatementIndex?: number
+  onActiveStatementChange?: (index: number) => void
+
+  // Paged results - pages of a larger result set are fetched on demand
+  pageSize?: number
+  isFetchingPage?: boolean
+  onPageRequest?: (offset: number, limit: number) => void
+  onLoadFullResult?: () => Promise<QueryResult | null>
+
+  // Sorting, filtering and resizing. The view is applied in memory unless the
+  // result is paged, in which case onViewChange has to fetch the result again
+  view?: ResultView
+  onViewChange?: (view: ResultView) => void
+  enableColumnSort?: boolean
+  enableColumnFilter?: boolean
+  enableColumnResize?: boolean
+
+  // Export formats offered in the Save menu; Parquet and Excel are written by
+  // DuckDB and are only offered when db and connection are set
+  exportFormats?: ResultExportFormat[]
+  db?: AsyncDuckDB | undefined
+  connection?: AsyncDuckDBConnection | undefined
+}
+
+interface StatementTabsProps {
+  statementResults: StatementResult[]
+  activeStatementIndex: number
+  onActiveStatementChange?: ((index: number) => void) | undefined
 }
 
 type PaginationControls = ReturnType<typeof usePagination>
 
 interface ResultsSelectionToolbarProps {
   result: QueryResult | null
+  totalRows: number
+  isFetchingPage: boolean
   showCopyButton: boolean
   selectedColumns: Set<number>
   selectedRows: Set<number>
@@ -88,10 +234,8 @@ interface ResultsSelectionToolbarProps {
   onCopySelectedRowsAsJSON: () => Promise<void>
   onSaveAsCSV: () => Promise<void>
   onSaveAsJSON: () => Promise<void>
-  onDownloadSelectedAsCSV: (selectionType: 'columns' | 'rows') => Promise<void>
-  onDownloadSelectedAsJSON: (selectionType: 'columns' | 'rows') => Promise<void>
-  onDownloadFullCSV: () => void
-  onDownloadFullJSON: () => void
+  exportFormats: ResultExportFormat[]
+  onDownload: (format: ResultExportFormat) => Promise<void>
   onClearSelection: () => void
 }
 
@@ -125,6 +269,8 @@ function StateTransition({
 
 function ResultsSelectionToolbar({
   result,
+  totalRows,
+  isFetchingPage,
   showCopyButton,
   selectedColumns,
   selectedRows,
@@ -142,10 +288,8 @@ function ResultsSelectionToolbar({
   onCopySelectedRowsAsJSON,
   onSaveAsCSV,
   onSaveAsJSON,
-  onDownloadSelectedAsCSV,
-  onDownloadSelectedAsJSON,
-  onDownloadFullCSV,
-  onDownloadFullJSON,
+  exportFormats,
+  onDownload,
   onClearSelection,
 }: ResultsSelectionToolbarProps): React.ReactNode {
   return (
@@ -181,8 +325,11 @@ function ResultsSelectionToolbar({
               {pagination.isPaginationEnabled
                 ? `${pagination.startIndex + 1} - ${pagination.endIndex}`
                 : `1 - ${result?.data.length}`}{' '}
-              of {result?.data.length.toLocaleString()} rows
+              of {totalRows.toLocaleString()} rows
             </span>
+            {isFetchingPage && (
+              <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+            )}
           </div>
 
           {pagination.isPaginationEnabled && (
@@ -317,60 +464,19 @@ function ResultsSelectionToolbar({
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent className="z-1">
-                  {selectedColumns.size > 0 && (
-                    <>
-                      <DropdownMenuItem
-                        onClick={() => onDownloadSelectedAsCSV('columns')}
-                        className="cursor-pointer"
-                      >
-                        <FileSpreadsheet className="h-4 w-4 mr-2" />
-                        Save as CSV
-                      </DropdownMenuItem>
-                      <DropdownMenuItem
-                        onClick={() => onDownloadSelectedAsJSON('columns')}
-                        className="cursor-pointer"
-                      >
-                        <Braces className="h-4 w-4 mr-2" />
-                        Save as JSON
-                      </DropdownMenuItem>
-                    </>
-                  )}
-                  {selectedRows.size > 0 && (
-                    <>
-                      <DropdownMenuItem
-                        onClick={() => onDownloadSelectedAsCSV('rows')}
-                        className="cursor-pointer"
-                      >
-                        <FileSpreadsheet className="h-4 w-4 mr-2" />
-                        Save as CSV
-                      </DropdownMenuItem>
-                      <DropdownMenuItem
-                        onClick={() => onDownloadSelectedAsJSON('rows')}
-                        className="cursor-pointer"
-                      >
-                        <Braces className="h-4 w-4 mr-2" />
-                        Save as JSON
-                      </DropdownMenuItem>
-                    </>
-                  )}
-                  {selectedColumns.size === 0 && selectedRows.size === 0 && (
-                    <>
+                  {exportFormats.map(format => {
+                    const FormatIcon = EXPORT_FORMAT_ICONS[format]
+                    return (
                       <DropdownMenuItem
-                        onClick={onDownloadFullCSV}
+                        key={format}
+                        onClick={() => onDownload(format)}
                         className="cursor-pointer"
                       >
-                        <FileSpreadsheet className="h-4 w-4 mr-2" />
-                        Save as CSV
+                        <FormatIcon className="h-4 w-4 mr-2" />
+                        Save as {EXPORT_FORMAT_LABELS[format]}
                       </DropdownMenuItem>
-                      <DropdownMenuItem
-                        onClick={onDownloadFullJSON}
-                        className="cursor-pointer"
-                      >
-                        <Braces className="h-4 w-4 mr-2" />
-                        Save as JSON
-                      </DropdownMenuItem>
-                    </>
-                  )}
+                    )
+                  })}
                 </DropdownMenuContent>
               </DropdownMenu>
 
@@ -398,26 +504,104 @@ function ResultsSelectionToolbar({
  * Results Panel component for displaying query results or errors
  */
 export function ResultsPanel({
-  result,
+  result: sourceResult,
   error,
   isLoading = false,
   maxHeight = '600px',
   className,
   onSelectionChange,
   insightsQuery = null,
+  statementResults = [],
+  activeStatementIndex = 0,
+  onActiveStatementChange,
+  pageSize = 1000,
+  isFetchingPage = false,
+  onPageRequest,
+  onLoadFullResult,
+  view,
+  onViewChange,
+  enableColumnSort = true,
+  enableColumnFilter = true,
+  enableColumnResize = true,
+  exportFormats = DEFAULT_EXPORT_FORMATS,
+  db,
+  connection,
 }: ResultsPanelProps): React.ReactNode {
   const [isEditingPage, setIsEditingPage] = React.useState(false)
   const [pageInput, setPageInput] = React.useState('')
   const pageInputRef = React.useRef<HTMLInputElement>(null)
   const [hoveredColumn, setHoveredColumn] = React.useState<string | null>(null)
   const [showCopyButton, setShowCopyButton] = React.useState(false)
-  const headerScrollRef = React.useRef<HTMLDivElement>(null)
   const bodyScrollRef = React.useRef<HTMLDivElement>(null)
-  const scrollSyncLockRef = React.useRef<'header' | 'body' | null>(null)
-  const [columnWidths, setColumnWidths] = React.useState<number[]>([])
-  const totalColumnWidth = React.useMemo(
-    () => columnWidths.reduce((total, width) => total + width, 0),
-    [columnWidths]
+  const [viewport, setViewport] = React.useState({
+    width: 0,
+    height: 0,
+    scrollTop: 0,
+    scrollLeft: 0,
+  })
+
+  const availableExportFormats = exportFormats.filter(
+    format =>
+      (format !== 'parquet' && format !== 'excel') || (!!db && !!connection)
+  )
+
+  // Sorting and filtering; uncontrolled unless the view prop is set
+  const [internalView, setInternalView] =
+    React.useState<ResultView>(EMPTY_RESULT_VIEW)
+  const currentView = view ?? internalView
+  const isPagedSource =
+    !!sourceResult &&
+    sourceResult.offset !== undefined &&
+    sourceResult.totalCount !== undefined
+  // Only part of a paged result is in memory, so its view has to be applied
+  // by the parent
+  const canChangeView = !isPagedSource || !!onViewChange
+  const result = React.useMemo(
+    () =>
+      sourceResult && !isPagedSource
+        ? applyResultView(sourceResult, currentView)
+        : sourceResult,
+    [sourceResult, isPagedSource, currentView]
+  )
+
+  // A view that filters out every row keeps the table (and its header
+  // controls) visible so the filter can be changed
+  const hasTableContent =
+    !!result && (result.data.length > 0 || isResultViewActive(currentView))
+
+  const updateView = (next: ResultView): void => {
+    if (view === undefined) setInternalView(next)
+    onViewChange?.(next)
+  }
+
+  // A new set of columns (i.e. another query) starts without a view
+  const columnsKey = sourceResult?.columns.map(column => column.name).join('\0')
+  React.useEffect(() => {
+    setInternalView(EMPTY_RESULT_VIEW)
+  }, [columnsKey])
+
+  // Column widths are estimated from the data, as only the visible columns
+  // are ever in the DOM to be measured. Resized columns keep their width.
+  const [columnWidthOverrides, setColumnWidthOverrides] = React.useState<
+    Record<string, number>
+  >({})
+  const isResizingRef = React.useRef(false)
+  const estimatedColumnWidths = React.useMemo(
+    () =>
+      sourceResult
+        ? sourceResult.columns.map(column =>
+            estimateColumnWidth(column, sourceResult.data)
+          )
+        : [],
+    [sourceResult]
+  )
+  const columnWidths = React.useMemo(
+    () =>
+      estimatedColumnWidths.map(
+        (width, index) =>
+          columnWidthOverrides[sourceResult!.columns[index]!.name] ?? width
+      ),
+    [estimatedColumnWidths, columnWidthOverrides, sourceResult]
   )
 
   // Toggle between chart and table view for insights queries
@@ -438,227 +622,96 @@ export function ResultsPanel({
     number | null
   >(null)
 
+  // A paged result only holds the rows of the current page; the rest is
+  // fetched through onPageRequest
+  const isPagedResult =
+    !!result && result.offset !== undefined && result.totalCount !== undefined
+  const isPartialResult =
+    isPagedResult && result.totalCount! > result.data.length
+  const totalRows = isPagedResult
+    ? result.totalCount!
+    : result?.data.length || 0
+
   const pagination = usePagination({
-    totalItems: result?.data.length || 0,
-    itemsPerPage: 100,
+    totalItems: totalRows,
+    itemsPerPage: isPagedResult ? pageSize : 100,
     paginationThreshold: 1024,
+    serverSide: isPagedResult,
+    page: isPagedResult ? Math.floor(result.offset! / pageSize) + 1 : undefined,
+    onPageChange: page => {
+      if (isPagedResult) onPageRequest?.((page - 1) * pageSize, pageSize)
+    },
   })
 
-  const handleBodyScrollSync = React.useCallback(() => {
-    const header = headerScrollRef.current
-    const body = bodyScrollRef.current
-    if (!header || !body) return
-
-    if (scrollSyncLockRef.current === 'header') {
-      scrollSyncLockRef.current = null
-      return
-    }
-
-    if (header.scrollLeft !== body.scrollLeft) {
-      scrollSyncLockRef.current = 'body'
-      header.scrollLeft = body.scrollLeft
+  /**
+   * Resolve the complete result for full-dataset exports, loading the
+   * remaining pages when only one page is held in memory
+   */
+  const resolveFullResult = async (): Promise<QueryResult | null> => {
+    if (!result || !isPartialResult || !onLoadFullResult) return result
+    try {
+      return await onLoadFullResult()
+    } catch (err) {
+      console.error(
+        '[blockether-foundation-react] Failed to load full result:',
+        err
+      )
+      toast.error('Failed to load full result')
+      return null
     }
-  }, [])
+  }
 
-  const handleHeaderScrollSync = React.useCallback(() => {
-    const header = headerScrollRef.current
+  // Track the size and scroll position of the results viewport
+  const updateViewport = React.useCallback(() => {
     const body = bodyScrollRef.current
-    if (!header || !body) return
-
-    if (scrollSyncLockRef.current === 'body') {
-      scrollSyncLockRef.current = null
-      return
-    }
-
-    if (body.scrollLeft !== header.scrollLeft) {
-      scrollSyncLockRef.current = 'header'
-      body.scrollLeft = header.scrollLeft
-    }
+    if (!body) return
+
+    setViewport(prev =>
+      prev.width === body.clientWidth &&
+      prev.height === body.clientHeight &&
+      prev.scrollTop === body.scrollTop &&
+      prev.scrollLeft === body.scrollLeft
+        ? prev
+        : {
+            width: body.clientWidth,
+            height: body.clientHeight,
+            scrollTop: body.scrollTop,
+            scrollLeft: body.scrollLeft,
+          }
+    )
   }, [])
 
   React.useEffect(() => {
-    const header = headerScrollRef.current
     const body = bodyScrollRef.current
-    if (!header || !body) return
-
-    // Keep header aligned when data or pagination resets scroll
-    header.scrollLeft = body.scrollLeft
-  }, [result, pagination.currentPage])
-
-  const measureColumnWidths = React.useCallback(() => {
-    if (!result || !result.columns.length) {
-      setColumnWidths(prev => (prev.length ? [] : prev))
-      return
-    }
-
-    if (insightsQuery && showChartView) {
-      return
-    }
-
-    const headerTable = headerScrollRef.current?.querySelector('table') ?? null
-    const bodyTable = bodyScrollRef.current?.querySelector('table') ?? null
-
-    if (!headerTable && !bodyTable) {
-      return
-    }
-
-    const columnCount = result.columns.length
-    const nextWidths = Array.from(
-      { length: columnCount },
-      () => MIN_COLUMN_WIDTH
-    )
-    const restoreStack: Array<() => void> = []
-
-    const prepareTableForMeasurement = (
-      table: HTMLTableElement | null
-    ): void => {
-      if (!table) return
-
-      const previousWidth = table.style.width
-      table.style.width = 'auto'
-      restoreStack.push(() => {
-        table.style.width = previousWidth
-      })
-
-      const previousLayout = table.style.tableLayout
-      table.style.tableLayout = 'auto'
-      restoreStack.push(() => {
-        table.style.tableLayout = previousLayout
-      })
-
-      const previousMinWidth = table.style.minWidth
-      table.style.minWidth = '0px'
-      restoreStack.push(() => {
-        table.style.minWidth = previousMinWidth
-      })
-
-      const cols = table.querySelectorAll('col')
-      if (cols.length > 0) {
-        const previousColWidths = Array.from(cols).map(col => col.style.width)
-        Array.from(cols).forEach(col => {
-          col.style.width = 'auto'
-        })
-        restoreStack.push(() => {
-          Array.from(cols).forEach((col, index) => {
-            col.style.width = previousColWidths[index]
-          })
-        })
-      }
-    }
-
-    prepareTableForMeasurement(headerTable)
-    prepareTableForMeasurement(bodyTable)
-
-    const measureElementWidth = (element: HTMLElement): number => {
-      const intrinsicWidth = Math.ceil(
-        Math.max(element.scrollWidth, element.clientWidth)
-      )
-      if (intrinsicWidth <= 0 || Number.isNaN(intrinsicWidth)) {
-        return MIN_COLUMN_WIDTH
-      }
-      return Math.max(MIN_COLUMN_WIDTH, intrinsicWidth + COLUMN_PADDING_BUFFER)
-    }
-
-    try {
-      if (headerTable) {
-        const headerCells = headerTable.querySelectorAll('thead th')
-        headerCells.forEach((cell, index) => {
-          if (index >= columnCount) {
-            return
-          }
-          const measuredWidth = measureElementWidth(cell as HTMLElement)
-          if (measuredWidth > nextWidths[index]) {
-            nextWidths[index] = measuredWidth
-          }
-        })
-      }
-
-      if (bodyTable) {
-        const bodyRows = bodyTable.querySelectorAll('tbody tr')
-        bodyRows.forEach(row => {
-          Array.from(row.children).forEach((cell, index) => {
-            if (index >= columnCount) {
-              return
-            }
-            const measuredWidth = measureElementWidth(cell as HTMLElement)
-            if (measuredWidth > nextWidths[index]) {
-              nextWidths[index] = measuredWidth
-            }
-          })
-        })
-      }
-    } finally {
-      while (restoreStack.length > 0) {
-        const restore = restoreStack.pop()
-        if (restore) {
-          restore()
-        }
-      }
-    }
-
-    setColumnWidths(prev => {
-      if (
-        prev.length === nextWidths.length &&
-        prev.every((value, index) => value === nextWidths[index])
-      ) {
-        return prev
-      }
-      return nextWidths
-    })
-  }, [result, insightsQuery, showChartView])
-
-  React.useEffect(() => {
-    if (!result || !result.columns.length) {
-      setColumnWidths([])
-      return
-    }
-
-    const frame = window.requestAnimationFrame(() => {
-      measureColumnWidths()
-    })
+    if (!body) return
 
-    return () => {
-      window.cancelAnimationFrame(frame)
-    }
-  }, [
-    result,
-    pagination.currentPage,
-    pagination.itemsPerPage,
-    measureColumnWidths,
-    insightsQuery,
-    showChartView,
-  ])
+    updateViewport()
 
-  React.useEffect(() => {
     if (typeof ResizeObserver === 'undefined') {
-      return
-    }
-
-    if (!bodyScrollRef.current) {
-      return
+      window.addEventListener('resize', updateViewport)
+      return () => {
+        window.removeEventListener('resize', updateViewport)
+      }
     }
 
     const observer = new ResizeObserver(() => {
-      measureColumnWidths()
+      updateViewport()
     })
-
-    observer.observe(bodyScrollRef.current)
+    observer.observe(body)
 
     return () => {
       observer.disconnect()
     }
-  }, [measureColumnWidths])
+  }, [updateViewport, result, showChartView])
 
+  // Start at the top when new data or another page is shown
   React.useEffect(() => {
-    const handleResize = (): void => {
-      measureColumnWidths()
-    }
+    const body = bodyScrollRef.current
+    if (!body) return
 
-    window.addEventListener('resize', handleResize)
-    return () => {
-      window.removeEventListener('resize', handleResize)
-    }
-  }, [measureColumnWidths])
+    body.scrollTop = 0
+    updateViewport()
+  }, [result, pagination.currentPage, updateViewport])
 
   const handleCopySelection = async (): Promise<void> => {
     const selection = window.getSelection()
@@ -749,75 +802,22 @@ export function ResultsPanel({
 
   // Save functions for full dataset export
   const saveAsCSV = async (): Promise<void> => {
-    if (!result) return
+    const fullResult = await resolveFullResult()
+    if (!fullResult) return
 
-    const csvContent = exportQueryResultToCSV(result)
+    const csvContent = exportQueryResultToCSV(fullResult)
 
     try {
       await navigator.clipboard.writeText(csvContent)
-      toast.success(`Full dataset (${result.data.length} rows) copied as CSV`)
+      toast.success(
+        `Full dataset (${fullResult.data.length} rows) copied as CSV`
+      )
     } catch (err) {
       console.error('[blockether-foundation-react] Failed to save CSV:', err)
       toast.error('Failed to save CSV')
     }
   }
 
-  const downloadSelectedAsCSV = async (
-    selectionType: 'columns' | 'rows'
-  ): Promise<void> => {
-    if (!result) return
-
-    if (selectionType === 'columns' && selectedColumns.size > 0) {
-      const file = exportQueryResultToCSVFile(
-        result,
-        `selected_columns_${Date.now()}.csv`,
-        { selectedColumns: Array.from(selectedColumns) }
-      )
-      downloadFile(file)
-      toast.success(
-        `${selectedColumns.size} column${selectedColumns.size > 1 ? 's' : ''} saved as CSV`
-      )
-    } else if (selectionType === 'rows' && selectedRows.size > 0) {
-      const file = exportQueryResultToCSVFile(
-        result,
-        `selected_rows_${Date.now()}.csv`,
-        { selectedRows: Array.from(selectedRows) }
-      )
-      downloadFile(file)
-      toast.success(
-        `${selectedRows.size} row${selectedRows.size > 1 ? 's' : ''} saved as CSV`
-      )
-    }
-  }
-
-  const downloadSelectedAsJSON = async (
-    selectionType: 'columns' | 'rows'
-  ): Promise<void> => {
-    if (!result) return
-
-    if (selectionType === 'columns' && selectedColumns.size > 0) {
-      const file = exportQueryResultToJSONFile(
-        result,
-        `selected_columns_${Date.now()}.json`,
-        { selectedColumns: Array.from(selectedColumns) }
-      )
-      downloadFile(file)
-      toast.success(
-        `${selectedColumns.size} column${selectedColumns.size > 1 ? 's' : ''} saved as JSON`
-      )
-    } else if (selectionType === 'rows' && selectedRows.size > 0) {
-      const file = exportQueryResultToJSONFile(
-        result,
-        `selected_rows_${Date.now()}.json`,
-        { selectedRows: Array.from(selectedRows) }
-      )
-      downloadFile(file)
-      toast.success(
-        `${selectedRows.size} row${selectedRows.size > 1 ? 's' : ''} saved as JSON`
-      )
-    }
-  }
-
   const downloadFile = (file: File): void => {
     const url = URL.createObjectURL(file)
     const link = document.createElement('a')
@@ -829,39 +829,139 @@ export function ResultsPanel({
     URL.revokeObjectURL(url)
   }
 
-  const handleDownloadFullResultAsCSV = (): void => {
-    if (!result) return
-
-    const file = exportQueryResultToCSVFile(result, `results_${Date.now()}.csv`)
-    downloadFile(file)
-    toast.success(`Full dataset (${result.data.length} rows) saved as CSV`)
-  }
+  // Save the selected columns or rows, or the full dataset when nothing is
+  // selected
+  const handleDownload = async (format: ResultExportFormat): Promise<void> => {
+    const label = EXPORT_FORMAT_LABELS[format]
+    const extension = RESULT_EXPORT_EXTENSIONS[format]
+    const selectionType =
+      selectedColumns.size > 0
+        ? 'columns'
+        : selectedRows.size > 0
+          ? 'rows'
+          : null
+
+    const exportResult = selectionType ? result : await resolveFullResult()
+    if (!exportResult) return
 
-  const handleDownloadFullResultAsJSON = (): void => {
-    if (!result) return
+    try {
+      const file = await exportQueryResultToFile(
+        exportResult,
+        format,
+        `${selectionType ? `selected_${selectionType}` : 'results'}_${Date.now()}.${extension}`,
+        selectionType === 'columns'
+          ? { selectedColumns: Array.from(selectedColumns) }
+          : selectionType === 'rows'
+            ? { selectedRows: Array.from(selectedRows) }
+            : undefined,
+        db && connection ? { db, connection } : undefined
+      )
+      downloadFile(file)
 
-    const file = exportQueryResultToJSONFile(
-      result,
-      `results_${Date.now()}.json`
-    )
-    downloadFile(file)
-    toast.success(`Full dataset (${result.data.length} rows) saved as JSON`)
+      if (selectionType === 'columns') {
+        toast.success(
+          `${selectedColumns.size} column${selectedColumns.size > 1 ? 's' : ''} saved as ${label}`
+        )
+      } else if (selectionType === 'rows') {
+        toast.success(
+          `${selectedRows.size} row${selectedRows.size > 1 ? 's' : ''} saved as ${label}`
+        )
+      } else {
+        toast.success(
+          `Full dataset (${exportResult.data.length} rows) saved as ${label}`
+        )
+      }
+    } catch (err) {
+      console.error(
+        `[blockether-foundation-react] Failed to save ${label}:`,
+        err
+      )
+      toast.error(`Failed to save ${label}`)
+    }
   }
 
   const saveAsJSON = async (): Promise<void> => {
-    if (!result) return
+    const fullResult = await resolveFullResult()
+    if (!fullResult) return
 
-    const jsonContent = exportQueryResultToJSON(result)
+    const jsonContent = exportQueryResultToJSON(fullResult)
 
     try {
       await navigator.clipboard.writeText(jsonContent)
-      toast.success(`Full dataset (${result.data.length} rows) copied as JSON`)
+      toast.success(
+        `Full dataset (${fullResult.data.length} rows) copied as JSON`
+      )
     } catch (err) {
       console.error('[blockether-foundation-react] Failed to save JSON:', err)
       toast.error('Failed to save JSON')
     }
   }
 
+  const handleSortClick = (column: string, event: React.MouseEvent): void => {
+    event.preventDefault()
+    event.stopPropagation()
+    updateView({
+      ...currentView,
+      sorts: toggleColumnSort(currentView.sorts, column, event.shiftKey),
+    })
+  }
+
+  const handleFilterChange = (
+    column: string,
+    filter: ColumnFilter | null
+  ): void => {
+    const filters = currentView.filters.filter(item => item.column !== column)
+    updateView({
+      ...currentView,
+      filters: filter ? [...filters, filter] : filters,
+    })
+  }
+
+  // Drag the right edge of a header to resize its column; double-click
+  // restores the estimated width
+  const handleResizeStart = (
+    columnIndex: number,
+    event: React.MouseEvent
+  ): void => {
+    event.preventDefault()
+    event.stopPropagation()
+    if (!result) return
+
+    const column = result.columns[columnIndex]!.name
+    const startX = event.clientX
+    const startWidth = columnWidths[columnIndex]!
+    isResizingRef.current = true
+
+    const handleMouseMove = (moveEvent: MouseEvent): void => {
+      const width = Math.max(
+        RESIZED_COLUMN_MIN_WIDTH,
+        Math.round(startWidth + moveEvent.clientX - startX)
+      )
+      setColumnWidthOverrides(prev => ({ ...prev, [column]: width }))
+    }
+
+    const handleMouseUp = (): void => {
+      document.removeEventListener('mousemove', handleMouseMove)
+      document.removeEventListener('mouseup', handleMouseUp)
+      // Let the click that ends the drag pass without selecting the column
+      window.setTimeout(() => {
+        isResizingRef.current = false
+      })
+    }
+
+    document.addEventListener('mousemove', handleMouseMove)
+    document.addEventListener('mouseup', handleMouseUp)
+  }
+
+  const handleResizeReset = (column: string, event: React.MouseEvent): void => {
+    event.preventDefault()
+    event.stopPropagation()
+    setColumnWidthOverrides(prev => {
+      const { [column]: _removed, ...rest } = prev
+      return rest
+    })
+  }
+
   const handleColumnClick = (
     columnIndex: number,
     event: React.MouseEvent
@@ -869,6 +969,8 @@ export function ResultsPanel({
     event.preventDefault()
     event.stopPropagation()
 
+    if (isResizingRef.current) return
+
     if (
       event.shiftKey &&
       selectedColumns.size > 0 &&
@@ -908,7 +1010,7 @@ export function ResultsPanel({
 
     if (!result) return
 
-    const actualRowIndex = pagination.startIndex + rowIndex
+    const actualRowIndex = pagination.dataStartIndex + rowIndex
 
     if (
       event.shiftKey &&
@@ -1017,7 +1119,7 @@ export function ResultsPanel({
             i < Math.min(pageEndIndex - startIndex, result.data.length);
             i++
           ) {
-            newSelection.add(startIndex + i)
+            newSelection.add(pagination.dataStartIndex + i)
           }
           setSelectedRows(newSelection)
           setSelectedColumns(new Set())
@@ -1038,10 +1140,10 @@ export function ResultsPanel({
 
         if (selectedColumns.size > 0) {
           // Save selected columns as CSV
-          downloadSelectedAsCSV('columns')
+          handleDownload('csv')
         } else if (selectedRows.size > 0) {
           // Save selected rows as CSV
-          downloadSelectedAsCSV('rows')
+          handleDownload('csv')
         }
       }
     }
@@ -1056,11 +1158,20 @@ export function ResultsPanel({
     result,
     pagination.startIndex,
     pagination.endIndex,
+    pagination.dataStartIndex,
     copySelectedColumnsAsCSV,
     copySelectedRowsAsCSV,
     handleCopySelection,
   ])
 
+  // Row selection of a paged result refers to the rows of the current page,
+  // so it does not carry over to another page
+  // The same goes for another sort order or filter
+  const pageOffset = result?.offset
+  React.useEffect(() => {
+    setSelectedRows(prev => (prev.size ? new Set() : prev))
+  }, [pageOffset, currentView])
+
   // Notify parent component of selection changes
   React.useEffect(() => {
     if (onSelectionChange) {
@@ -1150,6 +1261,25 @@ export function ResultsPanel({
   // Get paginated data
   const displayData = result ? pagination.getPaginatedData(result.data) : []
 
+  // Virtualize rows and columns of the current page
+  const rowNumberWidth = Math.max(
+    ROW_NUMBER_MIN_WIDTH,
+    String(pagination.endIndex).length * 8 + 24
+  )
+  const rowWindow = useVirtualWindow({
+    count: displayData.length,
+    itemSize: ROW_HEIGHT,
+    viewportSize: Math.max(viewport.height - HEADER_HEIGHT, 0),
+    scrollOffset: viewport.scrollTop,
+    overscan: 10,
+  })
+  const columnWindow = useVirtualWindow({
+    count: columnWidths.length,
+    itemSize: columnWidths,
+    viewportSize: Math.max(viewport.width - rowNumberWidth, 0),
+    scrollOffset: viewport.scrollLeft,
+  })
+
   // Loading state content without header (for unified toolbar)
   const loadingContentNoHeader = (
     <div className="overflow-y-auto bg-background text-foreground flex-1 grow min-h-[30vh]">
@@ -1263,8 +1393,32 @@ export function ResultsPanel({
     </div>
   )
 
-  // Error state content without header (for unified toolbar)
-  const errorContentNoHeader = (
+  // Error state content without header (for unified toolbar); cancelled and
+  // timed-out queries didn't fail, so they are not shown as errors
+  const errorContentNoHeader = isQueryInterruption(error) ? (
+    <div className="overflow-y-auto flex-1 grow min-h-[30vh]">
+      <div className="flex items-center justify-center min-h-[30vh] p-6">
+        <div className="max-w-2xl mx-auto text-center">
+          <div className="flex justify-center mb-4">
+            <div className="shrink-0 w-12 h-12 bg-muted/30 rounded-full flex items-center justify-center border">
+              <QueryInterruptionIcon
+                type={error.type}
+                className="w-6 h-6 text-muted-foreground"
+              />
+            </div>
+          </div>
+          <h3 className="text-lg font-medium text-foreground mb-2">
+            {getErrorTypeLabel(error.type)}
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {error.type === 'timeout'
+              ? `${error.message}. Raise the query timeout or narrow the query to let it finish.`
+              : `${error.message}. Run it again to get its results.`}
+          </p>
+        </div>
+      </div>
+    </div>
+  ) : (
     <div className="overflow-y-auto flex-1 grow min-h-[30vh]">
       <div className="flex items-center justify-center min-h-[30vh] p-6">
         <div className="max-w-2xl mx-auto text-center">
@@ -1295,8 +1449,8 @@ export function ResultsPanel({
           </div>
           {(error?.line || error?.column) && (
             <div className="text-xs bg-muted/50 text-muted-foreground p-3 rounded-sm text-left">
-              <span className="font-medium">Location:</span> Line {error?.line},
-              Column {error?.column}
+              <span className="font-medium">Location:</span> Line {error?.line}
+              {error?.column !== undefined && `, Column ${error.column}`}
             </div>
           )}
         </div>
@@ -1368,150 +1522,234 @@ export function ResultsPanel({
     </div>
   )
 
-  // Results table content (table only)
+  // Results table content (table only). A single scroll container with a
+  // sticky header and a frozen row-number column; only the rows and columns
+  // in view are rendered, with spacers standing in for the rest.
+  const visibleColumns = result
+    ? result.columns.slice(columnWindow.startIndex, columnWindow.endIndex)
+    : []
+  const spacerColumnCount =
+    (columnWindow.offsetBefore > 0 ? 1 : 0) +
+    (columnWindow.offsetAfter > 0 ? 1 : 0)
+  const renderedColumnCount = 1 + visibleColumns.length + spacerColumnCount
+
   const resultsTableContent = (
     <div className="h-full bg-muted/50 flex flex-col mt-0">
-      {/* Fixed Header */}
-      <div className="sticky top-0 z-1 bg-background border-b border-border">
-        <div
-          className="overflow-x-auto blockether-scrollbar-hidden"
-          ref={headerScrollRef}
-          onScroll={handleHeaderScrollSync}
+      <div
+        className="overflow-auto relative flex-1 h-full border-b-2 bg-background"
+        ref={bodyScrollRef}
+        onScroll={updateViewport}
+      >
+        <Table
+          className="border-separate border-spacing-0"
+          style={{
+            tableLayout: 'fixed',
+            width: '100%',
+            minWidth: `${rowNumberWidth + columnWindow.totalSize}px`,
+          }}
         >
-          <Table
-            className="border-separate border-spacing-0"
-            style={{
-              tableLayout: columnWidths.length ? 'fixed' : 'auto',
-              width: '100%',
-              minWidth: columnWidths.length
-                ? `${totalColumnWidth}px`
-                : undefined,
-            }}
-          >
-            <colgroup>
-              {result?.columns.map((_, index: number) => (
-                <col
-                  key={index}
-                  style={
-                    columnWidths[index]
-                      ? { width: `${columnWidths[index]}px` }
-                      : undefined
-                  }
-                />
-              ))}
-            </colgroup>
-            <TableHeader>
-              <TableRow>
-                {result?.columns.map(
-                  (column: QueryResult['columns'][0], index: number) => (
+          <colgroup>
+            <col style={{ width: `${rowNumberWidth}px` }} />
+            {columnWindow.offsetBefore > 0 && (
+              <col style={{ width: `${columnWindow.offsetBefore}px` }} />
+            )}
+            {visibleColumns.map((_, index: number) => (
+              <col
+                key={columnWindow.startIndex + index}
+                style={{
+                  width: `${columnWidths[columnWindow.startIndex + index]}px`,
+                }}
+              />
+            ))}
+            {columnWindow.offsetAfter > 0 && (
+              <col style={{ width: `${columnWindow.offsetAfter}px` }} />
+            )}
+          </colgroup>
+          <TableHeader>
+            <TableRow>
+              <TableHead
+                className="sticky top-0 left-0 z-3 p-0 bg-muted border-b-3 border-r text-right"
+                aria-label="Row number"
+              />
+              {columnWindow.offsetBefore > 0 && (
+                <TableHead className="sticky top-0 z-2 p-0 bg-muted border-b-3" />
+              )}
+              {visibleColumns.map(
+                (column: QueryResult['columns'][0], visibleIndex: number) => {
+                  const index = columnWindow.startIndex + visibleIndex
+                  const sortIndex = currentView.sorts.findIndex(
+                    sort => sort.column === column.name
+                  )
+                  const sort = currentView.sorts[sortIndex]
+                  return (
                     <TableHead
                       key={index}
-                      className={cn(
-                        'text-foreground h-10 px-3 text-left align-middle whitespace-nowrap border-y-2 font-bold transition-colors cursor-pointer select-none border-b-3 bg-muted/50 hover:bg-muted/50 border-r',
-                        hoveredColumn === column.name
-                          ? 'bg-primary/10'
-                          : 'hover:bg-muted/50',
-                        selectedColumns.has(index) &&
-                        'bg-primary/20 ring-2 ring-primary/50',
-                        selectionMode === 'column' && 'hover:bg-primary/30'
-                      )}
-                      style={{ minWidth: `${MIN_COLUMN_WIDTH}px` }}
+                      className="sticky top-0 z-2 p-0 bg-muted text-foreground align-middle whitespace-nowrap border-y-2 font-bold cursor-pointer select-none border-b-3 border-r"
                       onMouseEnter={() => setHoveredColumn(column.name)}
                       onMouseLeave={() => setHoveredColumn(null)}
                       onClick={e => handleColumnClick(index, e)}
+                      aria-sort={
+                        sort
+                          ? sort.direction === 'asc'
+                            ? 'ascending'
+                            : 'descending'
+                          : undefined
+                      }
                     >
-                      <div className="flex items-center justify-between w-full min-w-0">
-                        <span className="truncate mr-2">{column.name}</span>
-                        <TypeBadge
-                          type={column.type}
-                          nullable={column.nullable}
-                        />
-                      </div>
-                    </TableHead>
-                  )
-                )}
-              </TableRow>
-            </TableHeader>
-          </Table>
-        </div>
-      </div>
-
-      {/* Results table - flex-1 to take remaining height */}
-      <div
-        className={cn('overflow-auto relative flex-1 h-full border-b-2')}
-        ref={bodyScrollRef}
-        onScroll={handleBodyScrollSync}
-      >
-        <div className="overflow-x-visible">
-          <Table
-            className="w-full border-separate border-spacing-0"
-            style={{
-              tableLayout: columnWidths.length ? 'fixed' : 'auto',
-              minWidth: columnWidths.length
-                ? `${totalColumnWidth}px`
-                : undefined,
-            }}
-          >
-            <colgroup>
-              {result?.columns.map((_, index: number) => (
-                <col
-                  key={index}
-                  style={
-                    columnWidths[index]
-                      ? { width: `${columnWidths[index]}px` }
-                      : undefined
-                  }
-                />
-              ))}
-            </colgroup>
-            <TableBody>
-              {(displayData as Array<Record<string, unknown>>).map(
-                (row: Record<string, unknown>, rowIndex: number) => {
-                  const actualRowIndex = pagination.startIndex + rowIndex
-                  const isRowSelected = selectedRows.has(actualRowIndex)
-
-                  return (
-                    <TableRow
-                      key={actualRowIndex}
-                      className={cn(
-                        'transition-colors cursor-pointer select-none',
-                        isRowSelected
-                          ? 'bg-primary/20 ring-2 ring-primary/50'
-                          : 'hover:bg-primary/10',
-                        selectionMode === 'row' && 'hover:bg-primary/30'
-                      )}
-                      onClick={e => handleRowClick(rowIndex, e)}
-                    >
-                      {result?.columns.map(
-                        (
-                          column: QueryResult['columns'][0],
-                          colIndex: number
-                        ) => {
-                          const value = row[column.name]
-                          const isColumnSelected = selectedColumns.has(colIndex)
-
-                          return (
-                            <TableCell
-                              key={colIndex}
+                      <div
+                        className={cn(
+                          'flex items-center justify-between w-full min-w-0 h-10 px-3 transition-colors',
+                          hoveredColumn === column.name && 'bg-primary/10',
+                          selectedColumns.has(index) &&
+                            'bg-primary/20 ring-2 ring-inset ring-primary/50',
+                          selectionMode === 'column' && 'hover:bg-primary/30'
+                        )}
+                      >
+                        <span className="truncate mr-2" title={column.name}>
+                          {column.name}
+                        </span>
+                        <div className="flex items-center gap-0.5 shrink-0">
+                          {enableColumnSort && canChangeView && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
                               className={cn(
-                                'align-middle whitespace-nowrap text-foreground transition-colors select-none border-r',
-                                isColumnSelected && 'bg-primary/15',
-                                hoveredColumn === column.name && 'bg-primary/10'
+                                'h-6 px-1 gap-0.5 cursor-pointer',
+                                sort ? 'text-primary' : 'text-muted-foreground'
                               )}
-                              style={{ minWidth: `${MIN_COLUMN_WIDTH}px` }}
+                              onClick={e => handleSortClick(column.name, e)}
+                              title="Sort (shift-click to sort by several columns)"
+                              aria-label={`Sort by ${column.name}`}
                             >
-                              <CellValue value={value} type={column.type} />
-                            </TableCell>
-                          )
-                        }
+                              {sort?.direction === 'asc' ? (
+                                <ArrowUp className="h-3 w-3" />
+                              ) : sort?.direction === 'desc' ? (
+                                <ArrowDown className="h-3 w-3" />
+                              ) : (
+                                <ArrowUpDown className="h-3 w-3" />
+                              )}
+                              {sort && currentView.sorts.length > 1 && (
+                                <span className="text-[10px]">
+                                  {sortIndex + 1}
+                                </span>
+                              )}
+                            </Button>
+                          )}
+                          {enableColumnFilter && canChangeView && (
+                            <ColumnFilterMenu
+                              column={column}
+                              filter={currentView.filters.find(
+                                filter => filter.column === column.name
+                              )}
+                              onChange={filter =>
+                                handleFilterChange(column.name, filter)
+                              }
+                            />
+                          )}
+                          <TypeBadge
+                            type={column.duckdbType ?? column.type}
+                            nullable={column.nullable}
+                          />
+                        </div>
+                      </div>
+                      {enableColumnResize && (
+                        <div
+                          className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-primary/40"
+                          onMouseDown={e => handleResizeStart(index, e)}
+                          onClick={e => e.stopPropagation()}
+                          onDoubleClick={e => handleResizeReset(column.name, e)}
+                          role="separator"
+                          aria-orientation="vertical"
+                          aria-label={`Resize ${column.name}`}
+                        />
                       )}
-                    </TableRow>
+                    </TableHead>
                   )
                 }
               )}
-            </TableBody>
-          </Table>
-        </div>
+              {columnWindow.offsetAfter > 0 && (
+                <TableHead className="sticky top-0 z-2 p-0 bg-muted border-b-3" />
+              )}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rowWindow.offsetBefore > 0 && (
+              <tr aria-hidden="true" style={{ height: rowWindow.offsetBefore }}>
+                <td colSpan={renderedColumnCount} />
+              </tr>
+            )}
+            {(
+              displayData.slice(
+                rowWindow.startIndex,
+                rowWindow.endIndex
+              ) as Array<Record<string, unknown>>
+            ).map((row: Record<string, unknown>, visibleRowIndex: number) => {
+              const rowIndex = rowWindow.startIndex + visibleRowIndex
+              const actualRowIndex = pagination.dataStartIndex + rowIndex
+              const isRowSelected = selectedRows.has(actualRowIndex)
+
+              return (
+                <TableRow
+                  key={actualRowIndex}
+                  className={cn(
+                    'transition-colors cursor-pointer select-none',
+                    isRowSelected
+                      ? 'bg-primary/20 ring-2 ring-inset ring-primary/50'
+                      : 'hover:bg-primary/10',
+                    selectionMode === 'row' && 'hover:bg-primary/30'
+                  )}
+                  style={{ height: ROW_HEIGHT }}
+                  onClick={e => handleRowClick(rowIndex, e)}
+                >
+                  <TableCell className="sticky left-0 z-1 p-0 bg-background border-r">
+                    <div
+                      className={cn(
+                        'flex items-center justify-end h-full px-2 font-mono text-xs text-muted-foreground',
+                        isRowSelected && 'bg-primary/20 text-foreground'
+                      )}
+                    >
+                      {(pagination.startIndex + rowIndex + 1).toLocaleString()}
+                    </div>
+                  </TableCell>
+                  {columnWindow.offsetBefore > 0 && <TableCell />}
+                  {visibleColumns.map(
+                    (
+                      column: QueryResult['columns'][0],
+                      visibleIndex: number
+                    ) => {
+                      const colIndex = columnWindow.startIndex + visibleIndex
+                      const value = row[column.name]
+                      const isColumnSelected = selectedColumns.has(colIndex)
+
+                      return (
+                        <TableCell
+                          key={colIndex}
+                          className={cn(
+                            'align-middle whitespace-nowrap overflow-hidden text-ellipsis text-foreground transition-colors select-none border-r',
+                            isColumnSelected && 'bg-primary/15',
+                            hoveredColumn === column.name && 'bg-primary/10'
+                          )}
+                        >
+                          <CellValue
+                            value={value}
+                            type={column.type}
+                            duckdbType={column.duckdbType}
+                          />
+                        </TableCell>
+                      )
+                    }
+                  )}
+                  {columnWindow.offsetAfter > 0 && <TableCell />}
+                </TableRow>
+              )
+            })}
+            {rowWindow.offsetAfter > 0 && (
+              <tr aria-hidden="true" style={{ height: rowWindow.offsetAfter }}>
+                <td colSpan={renderedColumnCount} />
+              </tr>
+            )}
+          </TableBody>
+        </Table>
       </div>
     </div>
   )
@@ -1519,6 +1757,15 @@ export function ResultsPanel({
   // Main render with animated state transitions
   return (
     <div className="bg-background relative flex flex-col h-full max-h-[65vh]">
+      {/* Statement tabs for multi-statement scripts */}
+      {statementResults.length > 1 && (
+        <StatementTabs
+          statementResults={statementResults}
+          activeStatementIndex={activeStatementIndex}
+          onActiveStatementChange={onActiveStatementChange}
+        />
+      )}
+
       {/* Unified results summary toolbar - always present with consistent height */}
       <div className="h-[68px] max-h-[68px] flex items-center justify-between px-3 py-2 bg-background border-t border-b transition-all duration-200 ease-in-out shrink-0">
         <div className="flex items-center gap-3 text-xs min-w-0 flex-1 transition-all duration-200 ease-in-out">
@@ -1533,7 +1780,7 @@ export function ResultsPanel({
                     ? '0 rows returned'
                     : result.rowCount
                       ? `${result.rowCount.toLocaleString()} rows affected`
-                      : `${result.data.length.toLocaleString()} rows returned`}
+                      : `${totalRows.toLocaleString()} rows returned`}
           </span>
           <span className="text-muted-foreground transition-all duration-200 ease-in-out min-w-20 inline-block">
             {!error && result?.columns && <>{result.columns.length} columns</>}
@@ -1588,15 +1835,13 @@ export function ResultsPanel({
         </StateTransition>
 
         <StateTransition
-          isVisible={
-            !!result && result.data.length === 0 && !isLoading && !error
-          }
+          isVisible={!!result && !hasTableContent && !isLoading && !error}
         >
           {emptyResultContentNoHeader}
         </StateTransition>
 
         <StateTransition
-          isVisible={!!result && result.data.length > 0 && !isLoading && !error}
+          isVisible={!!result && hasTableContent && !isLoading && !error}
         >
           {insightsQuery && result && showChartView
             ? insightsQuery.renderer(result)
@@ -1611,6 +1856,8 @@ export function ResultsPanel({
           showCopyButton={showCopyButton}
           selectedColumns={selectedColumns}
           selectedRows={selectedRows}
+          totalRows={totalRows}
+          isFetchingPage={isFetchingPage}
           pagination={pagination}
           isEditingPage={isEditingPage}
           pageInput={pageInput}
@@ -1625,37 +1872,133 @@ export function ResultsPanel({
           onCopySelectedRowsAsJSON={copySelectedRowsAsJSON}
           onSaveAsCSV={saveAsCSV}
           onSaveAsJSON={saveAsJSON}
-          onDownloadSelectedAsCSV={downloadSelectedAsCSV}
-          onDownloadSelectedAsJSON={downloadSelectedAsJSON}
-          onDownloadFullCSV={handleDownloadFullResultAsCSV}
-          onDownloadFullJSON={handleDownloadFullResultAsJSON}
+          exportFormats={availableExportFormats}
+          onDownload={handleDownload}
           onClearSelection={clearSelection}
         />
       )}
 
       {/* Accessibility announcement */}
       <div role="status" aria-live="polite" className="sr-only">
-        Query completed successfully. {result?.data.length} rows returned.
+        Query completed successfully. {totalRows} rows returned.
       </div>
     </div>
   )
 }
 
+/**
+ * Tab strip with one tab per executed statement of a script
+ */
+function StatementTabs({
+  statementResults,
+  activeStatementIndex,
+  onActiveStatementChange,
+}: StatementTabsProps): React.ReactNode {
+  return (
+    <div
+      className="flex items-stretch overflow-x-auto border-t bg-muted/30 shrink-0"
+      role="tablist"
+      aria-label="Statement results"
+    >
+      {statementResults.map(statementResult => {
+        const isActive = statementResult.index === activeStatementIndex
+        const isSkipped = statementResult.status === 'skipped'
+        return (
+          <button
+            key={statementResult.index}
+            role="tab"
+            aria-selected={isActive}
+            disabled={isSkipped}
+            onClick={() => onActiveStatementChange?.(statementResult.index)}
+            title={
+              isSkipped
+                ? `Skipped after an earlier error or cancellation: ${statementResult.statement}`
+                : isQueryInterruption(statementResult.error)
+                  ? `${statementResult.error.message}: ${statementResult.statement}`
+                  : statementResult.statement
+            }
+            className={cn(
+              'flex items-center gap-1.5 px-3 py-1.5 text-xs border-r whitespace-nowrap transition-colors',
+              isActive
+                ? 'bg-background text-foreground font-medium'
+                : 'text-muted-foreground',
+              isSkipped
+                ? 'cursor-not-allowed opacity-50'
+                : 'cursor-pointer hover:bg-background/60'
+            )}
+          >
+            {statementResult.status === 'success' && (
+              <CheckCircle className="h-3 w-3 shrink-0 text-green-600 dark:text-green-500" />
+            )}
+            {statementResult.status === 'error' &&
+              (isQueryInterruption(statementResult.error) ? (
+                <QueryInterruptionIcon
+                  type={statementResult.error.type}
+                  className="h-3 w-3 shrink-0"
+                />
+              ) : (
+                <XCircle className="h-3 w-3 shrink-0 text-destructive" />
+              ))}
+            {isSkipped && <MinusCircle className="h-3 w-3 shrink-0" />}
+            <span className="font-mono max-w-40 truncate">
+              {statementResult.index + 1}.{' '}
+              {statementResult.statement.split('\n')[0]}
+            </span>
+            {!isSkipped && (
+              <span className="text-muted-foreground">
+                {statementResult.executionTime}ms
+              </span>
+            )}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+/**
+ * Format an exact integer or decimal string with locale digit grouping
+ */
+function formatExactNumber(value: bigint | string): string {
+  if (typeof value === 'bigint') return value.toLocaleString()
+
+  const [integer = '', fraction] = value.replace(/^-/, '').split('.')
+  const decimalSeparator = (1.5).toLocaleString().charAt(1)
+  return `${value.startsWith('-') ? '-' : ''}${BigInt(integer).toLocaleString()}${
+    fraction !== undefined ? `${decimalSeparator}${fraction}` : ''
+  }`
+}
+
 /**
  * Cell value renderer for different data types
  */
 function CellValue({
   value,
   type,
+  duckdbType,
 }: {
   value: unknown
   type: QueryResult['columns'][0]['type']
+  duckdbType?: string | undefined
 }): React.ReactNode {
   // Handle null values
   if (value === null || value === undefined) {
     return <span className="text-muted-foreground italic">NULL</span>
   }
 
+  // Nested and JSON values get an expandable viewer
+  if (duckdbType && NESTED_DISPLAY_TYPES.has(getBaseDuckDBType(duckdbType))) {
+    return <NestedCellValue value={value} duckdbType={duckdbType} />
+  }
+
+  // BIGINT/HUGEINT and DECIMAL values are exact; keep every digit
+  if (
+    type === 'number' &&
+    (typeof value === 'bigint' || isDecimalString(value))
+  ) {
+    return <span className="font-mono">{formatExactNumber(value)}</span>
+  }
+
   // Handle different data types
   switch (type) {
     case 'boolean':
@@ -1691,7 +2034,7 @@ function CellValue({
       }
 
     case 'date':
-      return <DateCellValue value={value} />
+      return <DateCellValue value={value} duckdbType={duckdbType} />
 
     case 'string':
     default:
@@ -1711,17 +2054,59 @@ function CellValue({
 /**
  * Date cell value component (separated to avoid JSX in try/catch)
  */
-function DateCellValue({ value }: { value: unknown }): React.ReactNode {
+function DateCellValue({
+  value,
+  duckdbType,
+}: {
+  value: unknown
+  duckdbType?: string | undefined
+}): React.ReactNode {
+  const baseType = duckdbType ? getBaseDuckDBType(duckdbType) : undefined
   let formattedDate: string
+  let title: string | undefined
 
   try {
-    const date = new Date(value as string)
-    formattedDate = `${date.toLocaleDateString()} ${date.toLocaleTimeString()}`
+    const date = new Date(
+      typeof value === 'bigint' ? Number(value) : (value as string)
+    )
+    if (baseType === 'DATE') {
+      // Dates and plain timestamps are wall-clock values stored as UTC
+      formattedDate = date.toLocaleDateString(undefined, { timeZone: 'UTC' })
+    } else if (baseType === 'TIMESTAMP') {
+      formattedDate = date.toLocaleString(undefined, { timeZone: 'UTC' })
+    } else if (baseType === 'TIMESTAMPTZ') {
+      // Instants are shown in the local time zone, with UTC on hover
+      formattedDate = date.toLocaleString(undefined, { timeZoneName: 'short' })
+      title = date.toISOString()
+    } else {
+      formattedDate = `${date.toLocaleDateString()} ${date.toLocaleTimeString()}`
+    }
   } catch {
     formattedDate = String(value)
   }
 
-  return <span className="font-mono">{formattedDate}</span>
+  return (
+    <span className="font-mono" title={title}>
+      {formattedDate}
+    </span>
+  )
+}
+
+/**
+ * Icon of a cancelled or timed-out query
+ */
+function QueryInterruptionIcon({
+  type,
+  className,
+}: {
+  type: 'cancelled' | 'timeout'
+  className?: string
+}): React.ReactNode {
+  return type === 'timeout' ? (
+    <TimerOff className={className} />
+  ) : (
+    <Ban className={className} />
+  )
 }
 
 /**
@@ -1737,6 +2122,10 @@ function getErrorTypeLabel(type: SQLError['type']): string {
       return 'Connection Error'
     case 'memory':
       return 'Memory Error'
+    case 'timeout':
+      return 'Query Timed Out'
+    case 'cancelled':
+      return 'Query Cancelled'
     default:
       return 'Error'
   }
@@ -2,24 +2,169 @@
  * Saved Queries Component
  *
  * This component provides a dropdown interface for selecting and managing saved SQL queries.
- * It displays query names, descriptions, and allows for easy selection.
+ * It displays query names, descriptions and tags, allows for easy selection and - when
+ * management callbacks are provided - saving the current editor contents, editing and
+ * deleting queries.
  */
 
 import React, { useState, useRef, useEffect } from 'react'
 import { AsyncDuckDB } from '@duckdb/duckdb-wasm'
 // Lucide React icons
-import { Clock, Search, X, History } from 'lucide-react'
+import {
+  Clock,
+  Search,
+  X,
+  Bookmark,
+  BookmarkPlus,
+  Pencil,
+  Trash2,
+  Tag,
+} from 'lucide-react'
 import { SavedQuery } from '@/types/sql'
+import { SavedQueryInput } from '@/lib/hooks/use-saved-queries'
 import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
 import { cn } from '@/lib/utils'
 
 interface SavedQueriesProps {
   queries: SavedQuery[]
   db?: AsyncDuckDB | undefined // DuckDB database instance
   onSelect: (query: SavedQuery) => void
+  currentQuery?: string | undefined // Editor contents used by "Save current query"
+  onCreate?: ((input: SavedQueryInput) => void) | undefined
+  onUpdate?: ((id: string, changes: Partial<SavedQueryInput>) => void) | undefined
+  onDelete?: ((id: string) => void) | undefined
   className?: string
 }
 
+interface SavedQueryDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onSubmit: (input: SavedQueryInput) => void
+  title: string
+  submitLabel: string
+  initialValue: SavedQueryInput
+}
+
+/**
+ * Parse a comma-separated tag list
+ */
+const parseTags = (value: string): string[] =>
+  value
+    .split(',')
+    .map(tag => tag.trim())
+    .filter(Boolean)
+
+/**
+ * Dialog for creating or editing a saved query
+ */
+function SavedQueryDialog({
+  isOpen,
+  onClose,
+  onSubmit,
+  title,
+  submitLabel,
+  initialValue,
+}: SavedQueryDialogProps): React.ReactNode {
+  const [name, setName] = useState(initialValue.name)
+  const [description, setDescription] = useState(
+    initialValue.description || ''
+  )
+  const [tags, setTags] = useState((initialValue.tags || []).join(', '))
+  const [queryText, setQueryText] = useState(initialValue.query)
+
+  // Reset the form every time the dialog is opened
+  useEffect(() => {
+    if (isOpen) {
+      setName(initialValue.name)
+      setDescription(initialValue.description || '')
+      setTags((initialValue.tags || []).join(', '))
+      setQueryText(initialValue.query)
+    }
+  }, [isOpen, initialValue])
+
+  const canSubmit = name.trim().length > 0 && queryText.trim().length > 0
+
+  const handleSubmit = (): void => {
+    if (!canSubmit) return
+    onSubmit({
+      name,
+      query: queryText,
+      tags: parseTags(tags),
+      description,
+    })
+    onClose()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Give the query a name so it is easy to find later. Tags are
+            separated by commas.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-3 py-2">
+          <Input
+            placeholder="Name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            aria-label="Query name"
+            autoFocus
+          />
+          <Input
+            placeholder="Description (optional)"
+            value={description}
+            onChange={e => setDescription(e.target.value)}
+            aria-label="Query description"
+          />
+          <Input
+            placeholder="Tags, e.g. reporting, daily"
+            value={tags}
+            onChange={e => setTags(e.target.value)}
+            aria-label="Query tags"
+          />
+          <Textarea
+            value={queryText}
+            onChange={e => setQueryText(e.target.value)}
+            className="min-h-[120px] font-mono text-xs"
+            aria-label="SQL query"
+            onKeyDown={e => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault()
+                handleSubmit()
+              }
+            }}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} className="cursor-pointer">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            className="cursor-pointer"
+          >
+            {submitLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
 /**
  * Saved Queries dropdown component
  */
@@ -27,10 +172,18 @@ export function SavedQueries({
   queries,
   db,
   onSelect,
+  currentQuery = '',
+  onCreate,
+  onUpdate,
+  onDelete,
   className,
 }: SavedQueriesProps): React.ReactNode {
   const [isOpen, setIsOpen] = useState(false)
   const [searchTerm, setSearchTerm] = useState('')
+  const [selectedTag, setSelectedTag] = useState<string | null>(null)
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null)
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
+  const [editingQuery, setEditingQuery] = useState<SavedQuery | null>(null)
   const dropdownRef = useRef<HTMLDivElement>(null)
   const searchInputRef = useRef<HTMLInputElement>(null)
   const triggerButtonRef = useRef<HTMLButtonElement>(null)
@@ -39,18 +192,55 @@ export function SavedQueries({
   const isDbAvailable = !!db
   const isComponentDisabled = !isDbAvailable
 
-  // Filter queries based on search term
+  // All tags used by the queries, for the tag filter
+  const allTags = React.useMemo(
+    () =>
+      Array.from(new Set(queries.flatMap(query => query.tags || []))).sort(),
+    [queries]
+  )
+
+  // Filter queries based on search term and selected tag
   const filteredQueries = React.useMemo(() => {
-    if (!searchTerm) return queries
+    const taggedQueries = selectedTag
+      ? queries.filter(query => query.tags?.includes(selectedTag))
+      : queries
+    if (!searchTerm) return taggedQueries
 
     const lowerSearchTerm = searchTerm.toLowerCase()
-    return queries.filter(
+    return taggedQueries.filter(
       query =>
         query.name.toLowerCase().includes(lowerSearchTerm) ||
         query.description?.toLowerCase().includes(lowerSearchTerm) ||
-        query.query.toLowerCase().includes(lowerSearchTerm)
+        query.query.toLowerCase().includes(lowerSearchTerm) ||
+        query.tags?.some(tag => tag.toLowerCase().includes(lowerSearchTerm))
     )
-  }, [queries, searchTerm])
+  }, [queries, searchTerm, selectedTag])
+
+  // Drop the tag filter when its last query goes away
+  useEffect(() => {
+    if (selectedTag && !allTags.includes(selectedTag)) {
+      setSelectedTag(null)
+    }
+  }, [allTags, selectedTag])
+
+  // Initial value for the "Save current query" dialog
+  const createInitialValue = React.useMemo<SavedQueryInput>(
+    () => ({ name: '', query: currentQuery, tags: [] }),
+    [currentQuery]
+  )
+
+  // Initial value for the edit dialog
+  const editInitialValue = React.useMemo<SavedQueryInput>(
+    () => ({
+      name: editingQuery?.name || '',
+      query: editingQuery?.query || '',
+      tags: editingQuery?.tags || [],
+      ...(editingQuery?.description && {
+        description: editingQuery.description,
+      }),
+    }),
+    [editingQuery]
+  )
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -66,6 +256,7 @@ export function SavedQueries({
       ) {
         setIsOpen(false)
         setSearchTerm('')
+        setPendingDeleteId(null)
       }
     }
 
@@ -80,10 +271,37 @@ export function SavedQueries({
     }
   }, [isOpen])
 
-  const handleSelect = (query: SavedQuery): void => {
-    onSelect(query)
+  const closeDropdown = (): void => {
     setIsOpen(false)
     setSearchTerm('')
+    setPendingDeleteId(null)
+  }
+
+  const handleSelect = (query: SavedQuery): void => {
+    onSelect(query)
+    closeDropdown()
+  }
+
+  const handleOpenCreate = (): void => {
+    closeDropdown()
+    setIsCreateDialogOpen(true)
+  }
+
+  const handleEdit = (query: SavedQuery, event: React.MouseEvent): void => {
+    event.stopPropagation()
+    closeDropdown()
+    setEditingQuery(query)
+  }
+
+  const handleDelete = (query: SavedQuery, event: React.MouseEvent): void => {
+    event.stopPropagation()
+    // First click asks for confirmation, second click deletes
+    if (pendingDeleteId === query.id) {
+      onDelete?.(query.id)
+      setPendingDeleteId(null)
+    } else {
+      setPendingDeleteId(query.id)
+    }
   }
 
   const formatLastModified = (date: Date): string => {
@@ -119,12 +337,12 @@ export function SavedQueries({
           'h-8 w-8 p-0',
           isComponentDisabled ? 'cursor-not-allowed opacity-50' : 'hover:cursor-pointer'
         )}
-        aria-label={isComponentDisabled ? 'Query history disabled - no database available' : 'Query history'}
+        aria-label={isComponentDisabled ? 'Saved queries disabled - no database available' : 'Saved queries'}
         aria-expanded={isOpen}
         aria-haspopup="menu"
-        title={isComponentDisabled ? 'Query history disabled - no database available' : 'Query history'}
+        title={isComponentDisabled ? 'Saved queries disabled - no database available' : 'Saved queries'}
       >
-        <History className="h-4 w-4" />
+        <Bookmark className="h-4 w-4" />
       </Button>
 
       {/* Dropdown */}
@@ -133,6 +351,27 @@ export function SavedQueries({
           ref={dropdownRef}
           className="absolute top-full right-0 mt-1 w-80 border shadow-lg bg-background text-foreground rounded-sm z-1 flex flex-col"
         >
+          {/* Save current query */}
+          {onCreate && (
+            <div className="p-2 border-b">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleOpenCreate}
+                disabled={!currentQuery.trim()}
+                className="w-full justify-start h-8 px-2 text-xs cursor-pointer"
+                title={
+                  currentQuery.trim()
+                    ? 'Save the current editor contents'
+                    : 'Nothing to save - the editor is empty'
+                }
+              >
+                <BookmarkPlus className="h-3 w-3 mr-1" />
+                Save current query
+              </Button>
+            </div>
+          )}
+
           {/* Search input */}
           {queries.length > 3 && (
             <div className="p-2">
@@ -163,19 +402,43 @@ export function SavedQueries({
             </div>
           )}
 
+          {/* Tag filter */}
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap gap-1 px-2 pb-2">
+              {allTags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() =>
+                    setSelectedTag(selectedTag === tag ? null : tag)
+                  }
+                  className={cn(
+                    'inline-flex items-center gap-1 px-2 py-0.5 text-xs border rounded-full cursor-pointer transition-colors',
+                    selectedTag === tag
+                      ? 'bg-primary text-primary-foreground border-primary'
+                      : 'hover:bg-muted'
+                  )}
+                  aria-pressed={selectedTag === tag}
+                >
+                  <Tag className="h-3 w-3" />
+                  {tag}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Query list */}
           <div className="max-h-60 overflow-y-auto">
             {filteredQueries.length === 0 ? (
               <div className="flex items-center justify-center min-h-[40vh] p-8">
                 <div className="text-center">
                   <div className="flex items-center justify-center w-16 h-16 bg-muted/30 rounded-full mb-4 mx-auto border">
-                    <History className="w-8 h-8 text-muted-foreground" />
+                    <Bookmark className="w-8 h-8 text-muted-foreground" />
                   </div>
                   <h3 className="text-base font-medium text-foreground mb-2">
                     No saved queries
                   </h3>
                   <p className="text-sm text-muted-foreground max-w-md">
-                    {searchTerm
+                    {searchTerm || selectedTag
                       ? 'No queries found matching your search. Try adjusting your search terms.'
                       : 'Your saved queries will appear here.'}
                   </p>
@@ -184,12 +447,13 @@ export function SavedQueries({
             ) : (
               <div role="menu">
                 {filteredQueries.map((query, index) => (
-                  <button
+                  <div
                     key={query.id}
                     role="menuitem"
-                    disabled={isComponentDisabled}
+                    tabIndex={isComponentDisabled ? -1 : 0}
+                    aria-disabled={isComponentDisabled}
                     className={cn(
-                      'w-full text-left px-3 py-3 text-sm',
+                      'group w-full text-left px-3 py-3 text-sm',
                       'focus:outline-none transition-colors',
                       isComponentDisabled
                         ? 'cursor-not-allowed opacity-50'
@@ -197,6 +461,11 @@ export function SavedQueries({
                       index < filteredQueries.length - 1 && 'border-b'
                     )}
                     onClick={() => !isComponentDisabled && handleSelect(query)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter' && !isComponentDisabled) {
+                        handleSelect(query)
+                      }
+                    }}
                   >
                     <div className="flex items-start justify-between gap-2">
                       <div className="flex-1 min-w-0">
@@ -211,10 +480,63 @@ export function SavedQueries({
                           <span className="text-xs">
                             {formatLastModified(query.updatedAt)}
                           </span>
+                          {query.tags && query.tags.length > 0 && (
+                            <span className="text-xs text-muted-foreground truncate">
+                              {query.tags.join(', ')}
+                            </span>
+                          )}
                         </div>
                       </div>
+                      {(onUpdate || onDelete) && (
+                        <div
+                          className={cn(
+                            'flex items-center gap-1 shrink-0 transition-opacity',
+                            pendingDeleteId === query.id
+                              ? 'opacity-100'
+                              : 'opacity-0 group-hover:opacity-100 group-focus:opacity-100'
+                          )}
+                        >
+                          {onUpdate && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 w-7 p-0 cursor-pointer"
+                              onClick={e => handleEdit(query, e)}
+                              title="Edit query"
+                              aria-label={`Edit ${query.name}`}
+                            >
+                              <Pencil className="h-3 w-3" />
+                            </Button>
+                          )}
+                          {onDelete && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className={cn(
+                                'h-7 p-0 cursor-pointer',
+                                pendingDeleteId === query.id
+                                  ? 'px-2 text-xs text-red-600 dark:text-red-500'
+                                  : 'w-7'
+                              )}
+                              onClick={e => handleDelete(query, e)}
+                              title={
+                                pendingDeleteId === query.id
+                                  ? 'Click again to delete'
+                                  : 'Delete query'
+                              }
+                              aria-label={`Delete ${query.name}`}
+                            >
+                              {pendingDeleteId === query.id ? (
+                                'Delete?'
+                              ) : (
+                                <Trash2 className="h-3 w-3" />
+                              )}
+                            </Button>
+                          )}
+                        </div>
+                      )}
                     </div>
-                  </button>
+                  </div>
                 ))}
               </div>
             )}
@@ -232,6 +554,32 @@ export function SavedQueries({
         </div>
       )}
 
+      {/* Create dialog */}
+      {onCreate && (
+        <SavedQueryDialog
+          isOpen={isCreateDialogOpen}
+          onClose={() => setIsCreateDialogOpen(false)}
+          onSubmit={onCreate}
+          title="Save Query"
+          submitLabel="Save"
+          initialValue={createInitialValue}
+        />
+      )}
+
+      {/* Edit dialog */}
+      {onUpdate && (
+        <SavedQueryDialog
+          isOpen={editingQuery !== null}
+          onClose={() => setEditingQuery(null)}
+          onSubmit={changes =>
+            editingQuery && onUpdate(editingQuery.id, changes)
+          }
+          title="Edit Saved Query"
+          submitLabel="Update"
+          initialValue={editInitialValue}
+        />
+      )}
+
       {/* Status announcement for screen readers */}
       <div role="status" aria-live="polite" className="sr-only">
         {isOpen &&
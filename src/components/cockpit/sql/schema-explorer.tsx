@@ -0,0 +1,360 @@
+/**
+ * Schema Explorer Component
+ *
+ * This component shows the loaded data sources as a tree of tables and views
+ * with their columns and types. Column statistics come from DuckDB's
+ * `SUMMARIZE` and `histogram`, and clicking a table or column inserts its
+ * identifier into the editor.
+ */
+
+import React, { useState } from 'react'
+import { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm'
+// Lucide React icons
+import {
+  AlertCircle,
+  BarChart3,
+  ChevronDown,
+  ChevronRight,
+  Eye,
+  Loader2,
+  Table2,
+} from 'lucide-react'
+import { ColumnStatistics, DataSource, HistogramBin } from '@/types/sql'
+import { getColumnHistogram, summarizeTable } from '@/lib/duckdb/ops'
+import { formatIdentifier, quoteTableName } from '@/lib/duckdb/sql'
+import { TypeBadge } from '@/lib/duckdb/type-labels'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { cn } from '@/lib/utils'
+
+interface SchemaExplorerProps {
+  dataSources: DataSource[]
+  connection?: AsyncDuckDBConnection | undefined
+  onInsertIdentifier?: ((identifier: string) => void) | undefined
+}
+
+interface ColumnStatisticsMenuProps {
+  tableName: string
+  columnName: string
+  connection: AsyncDuckDBConnection
+  loadStatistics: () => Promise<ColumnStatistics[]>
+}
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error)
+
+/**
+ * Changes whenever the data of a table may have changed: it was refreshed,
+ * imported again or its columns changed
+ */
+const getDataVersion = (dataSource: DataSource): string =>
+  JSON.stringify([
+    dataSource.createdAt,
+    dataSource.lastRefreshedAt,
+    dataSource.schema,
+  ])
+
+/**
+ * Statistics popover of a column: null share, distinct count, min/max and a
+ * histogram, loaded when the popover opens
+ */
+function ColumnStatisticsMenu({
+  tableName,
+  columnName,
+  connection,
+  loadStatistics,
+}: ColumnStatisticsMenuProps): React.ReactNode {
+  const [statistics, setStatistics] = useState<ColumnStatistics | null>(null)
+  const [histogram, setHistogram] = useState<HistogramBin[] | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleOpenChange = async (open: boolean): Promise<void> => {
+    if (!open || statistics || isLoading) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      const tableStatistics = await loadStatistics()
+      setStatistics(
+        tableStatistics.find(column => column.name === columnName) ?? null
+      )
+      // Not every column type can be binned; the histogram is optional
+      setHistogram(
+        await getColumnHistogram(connection, tableName, columnName).catch(
+          () => null
+        )
+      )
+    } catch (loadError) {
+      setError(getErrorMessage(loadError))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const maxBinCount = Math.max(1, ...(histogram ?? []).map(bin => bin.count))
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 w-5 p-0 cursor-pointer shrink-0 text-muted-foreground"
+          onClick={e => e.stopPropagation()}
+          title="Column statistics"
+          aria-label={`Statistics of ${columnName}`}
+        >
+          <BarChart3 className="h-3 w-3" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="end"
+        className="w-64 p-3 z-3"
+        onClick={e => e.stopPropagation()}
+        // Keep the surrounding data sources panel from closing on clicks here
+        onMouseDown={e => e.stopPropagation()}
+      >
+        <div className="text-xs font-semibold truncate pb-2 mb-2 border-b">
+          {columnName}
+        </div>
+
+        {isLoading && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Summarizing...
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 text-xs text-destructive">
+            <AlertCircle className="h-3 w-3 shrink-0 mt-0.5" />
+            <span className="break-words">{error}</span>
+          </div>
+        )}
+
+        {statistics && (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+            <dt className="text-muted-foreground">Rows</dt>
+            <dd className="font-mono text-right">
+              {statistics.count.toLocaleString()}
+            </dd>
+            <dt className="text-muted-foreground">Nulls</dt>
+            <dd className="font-mono text-right">
+              {statistics.nullPercentage.toLocaleString(undefined, {
+                maximumFractionDigits: 2,
+              })}
+              %
+            </dd>
+            <dt className="text-muted-foreground">Distinct</dt>
+            <dd className="font-mono text-right">
+              ~{statistics.distinctCount.toLocaleString()}
+            </dd>
+            <dt className="text-muted-foreground">Min</dt>
+            <dd
+              className="font-mono text-right truncate"
+              title={statistics.min ?? 'NULL'}
+            >
+              {statistics.min ?? 'NULL'}
+            </dd>
+            <dt className="text-muted-foreground">Max</dt>
+            <dd
+              className="font-mono text-right truncate"
+              title={statistics.max ?? 'NULL'}
+            >
+              {statistics.max ?? 'NULL'}
+            </dd>
+          </dl>
+        )}
+
+        {histogram && histogram.length > 0 && (
+          <div className="flex flex-col gap-0.5 mt-3 pt-2 border-t">
+            {histogram.map(bin => (
+              <div
+                key={bin.label}
+                className="flex items-center gap-2 text-xs"
+                title={`${bin.label}: ${bin.count.toLocaleString()}`}
+              >
+                <span className="w-24 shrink-0 font-mono truncate text-muted-foreground">
+                  {bin.label}
+                </span>
+                <div className="flex-1 h-2 bg-muted rounded-sm overflow-hidden">
+                  <div
+                    className="h-full bg-primary/70"
+                    style={{ width: `${(bin.count / maxBinCount) * 100}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+/**
+ * Tree of tables/views and their columns
+ */
+export function SchemaExplorer({
+  dataSources,
+  connection,
+  onInsertIdentifier,
+}: SchemaExplorerProps): React.ReactNode {
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set())
+  // SUMMARIZE scans the whole table, so its result is shared by all columns
+  // until the table's data changes
+  const [statisticsByTable] = useState(
+    () =>
+      new Map<
+        string,
+        { version: string; statistics: Promise<ColumnStatistics[]> }
+      >()
+  )
+
+  const loadStatistics = (
+    dataSource: DataSource
+  ): Promise<ColumnStatistics[]> => {
+    const { tableName } = dataSource
+    const version = getDataVersion(dataSource)
+    const cached = statisticsByTable.get(tableName)
+    if (cached?.version === version) return cached.statistics
+    if (!connection) {
+      return Promise.reject(new Error('No database connection'))
+    }
+
+    const statistics = summarizeTable(connection, tableName)
+    // Failed summaries are retried the next time
+    statistics.catch(() => {
+      if (statisticsByTable.get(tableName)?.statistics === statistics) {
+        statisticsByTable.delete(tableName)
+      }
+    })
+    statisticsByTable.set(tableName, { version, statistics })
+    return statistics
+  }
+
+  const toggleExpanded = (id: string): void => {
+    setExpandedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const loadedDataSources = dataSources.filter(
+    ds => ds.loadingStatus === undefined || ds.loadingStatus === 'loaded'
+  )
+
+  if (loadedDataSources.length === 0) {
+    return (
+      <div className="p-6 text-center text-sm text-muted-foreground">
+        No tables loaded yet.
+      </div>
+    )
+  }
+
+  return (
+    <div role="tree" className="py-1 text-sm">
+      {loadedDataSources.map(dataSource => {
+        const isExpanded = expandedIds.has(dataSource.id)
+        const isView =
+          dataSource.type === 'view' || dataSource.importStrategy === 'view'
+        const columns = dataSource.schema ?? []
+
+        return (
+          <div key={dataSource.id} role="treeitem" aria-expanded={isExpanded}>
+            <div className="flex items-center gap-1 px-2 py-1 hover:bg-muted">
+              <button
+                type="button"
+                className="p-0.5 cursor-pointer text-muted-foreground"
+                onClick={() => toggleExpanded(dataSource.id)}
+                aria-label={isExpanded ? 'Collapse' : 'Expand'}
+              >
+                {isExpanded ? (
+                  <ChevronDown className="h-3 w-3" />
+                ) : (
+                  <ChevronRight className="h-3 w-3" />
+                )}
+              </button>
+              <button
+                type="button"
+                className="flex flex-1 items-center gap-2 min-w-0 text-left cursor-pointer"
+                onClick={() =>
+                  onInsertIdentifier?.(quoteTableName(dataSource.tableName))
+                }
+                title={`Insert ${dataSource.tableName}`}
+              >
+                {isView ? (
+                  <Eye className="h-3.5 w-3.5 shrink-0" />
+                ) : (
+                  <Table2 className="h-3.5 w-3.5 shrink-0" />
+                )}
+                <span className="font-mono truncate">
+                  {dataSource.tableName}
+                </span>
+                <span className="ml-auto text-xs text-muted-foreground shrink-0">
+                  {columns.length}
+                </span>
+              </button>
+            </div>
+
+            {isExpanded && (
+              <div role="group">
+                {columns.length === 0 && (
+                  <div className="pl-9 pr-2 py-1 text-xs text-muted-foreground">
+                    No columns
+                  </div>
+                )}
+                {columns.map(column => {
+                  const identifier = `${quoteTableName(dataSource.tableName)}.${formatIdentifier(column.name)}`
+                  return (
+                    <div
+                      key={column.name}
+                      role="treeitem"
+                      className="flex items-center gap-2 pl-9 pr-2 py-0.5 hover:bg-muted"
+                    >
+                      <button
+                        type="button"
+                        className={cn(
+                          'flex-1 min-w-0 text-left font-mono text-xs truncate',
+                          onInsertIdentifier && 'cursor-pointer'
+                        )}
+                        onClick={() => onInsertIdentifier?.(identifier)}
+                        title={`Insert ${identifier}`}
+                      >
+                        {column.name}
+                      </button>
+                      <TypeBadge
+                        type={column.type}
+                        nullable={column.nullable}
+                        className="shrink-0 max-w-24 truncate"
+                      />
+                      {connection && (
+                        <ColumnStatisticsMenu
+                          // Statistics shown are dropped with the data
+                          key={getDataVersion(dataSource)}
+                          tableName={dataSource.tableName}
+                          columnName={column.name}
+                          connection={connection}
+                          loadStatistics={() => loadStatistics(dataSource)}
+                        />
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -2,7 +2,8 @@
  * SQL Toolbar Component
  *
  * This component provides a professional toolbar with action buttons for SQL query
- * management, including Run Query, Format Query, Saved Queries, Help, and database status.
+ * management, including Run Query, Format Query, Saved Queries, Query History, Help, and
+ * database status.
  */
 
 import React, { useEffect, useState } from 'react'
@@ -15,42 +16,79 @@ import {
   HelpCircle,
   BarChart3,
   Wand2,
+  ChevronDown,
+  Check,
+  Gauge,
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 import { cn } from '@/lib/utils'
 import { SavedQueries } from './saved'
+import { QueryHistory } from './history'
+import { SavedQueryInput } from '@/lib/hooks/use-saved-queries'
 import { DataSources } from './datasources'
-import { SavedQuery, DataSource, QueryResult, InsightsQuery } from '@/types/sql'
+import {
+  SavedQuery,
+  DataSource,
+  QueryResult,
+  InsightsQuery,
+  QueryHistoryEntry,
+  QueryRunMode,
+} from '@/types/sql'
 import { DuckDBQueryState } from '@/lib/duckdb/types'
-import { AsyncDuckDB } from '@duckdb/duckdb-wasm'
+import { AsyncDuckDB, AsyncDuckDBConnection } from '@duckdb/duckdb-wasm'
 
 interface SQLToolbarProps {
   // Actions
-  onRunQuery: () => void
+  onRunQuery: (mode?: QueryRunMode) => void
+  onRunModeSelect?: (mode: QueryRunMode) => void
   onCancelQuery?: () => void
   onFormatQuery: () => void
+  onExplainQuery?: () => void
   onHelp?: () => void
   onSaveResults?: () => void
   onAIAssist?: () => void
 
   // State
   db?: AsyncDuckDB | undefined // DuckDB database instance
+  connection?: AsyncDuckDBConnection | undefined // DuckDB connection
   showDbStatusRed?: boolean // Whether to show red status (5-second timeout exceeded)
   queryState: DuckDBQueryState
+  runMode?: QueryRunMode // Default run mode of the run button
   queryResult?: QueryResult | null
   queryError?: any
   query?: string // Current query content for format button validation
   hasLLMCompletion?: boolean // Whether LLM completion function is available
+  hasRemoteExecution?: boolean // Whether queries run on a remote engine (no DuckDB needed)
+  readOnly?: boolean // Whether the editor contents may be modified (format, AI assist)
 
   // Saved queries
   savedQueries: SavedQuery[]
   onSavedQuerySelect?: (query: SavedQuery) => void
+  onSavedQueryCreate?: (input: SavedQueryInput) => void
+  onSavedQueryUpdate?: (id: string, changes: Partial<SavedQueryInput>) => void
+  onSavedQueryDelete?: (id: string) => void
+
+  // Query history
+  queryHistory?: QueryHistoryEntry[]
+  onHistorySelect?: (entry: QueryHistoryEntry) => void
+  onHistoryRerun?: (entry: QueryHistoryEntry) => void
+  onHistoryRemove?: (entry: QueryHistoryEntry) => void
+  onHistoryClear?: () => void
 
   // Data sources
   dataSources?: DataSource[]
   isLoadingBatch: boolean
   onImportFile?: (file: File) => Promise<void>
   onSelectDataSource?: (dataSource: DataSource) => void
+  onRefreshDataSource?: (dataSource: DataSource) => Promise<void>
+  refreshingDataSourceIds?: ReadonlySet<string>
+  onInsertIdentifier?: (identifier: string) => void
   onExecuteInsightsQuery?: (
     query: InsightsQuery,
     dataSource?: DataSource
@@ -66,29 +104,63 @@ interface SQLToolbarProps {
   className?: string
 }
 
+/**
+ * Run modes offered by the run button menu
+ */
+const RUN_MODE_OPTIONS: {
+  mode: QueryRunMode
+  label: string
+  shortcut?: string
+}[] = [
+  { mode: 'all', label: 'Run all', shortcut: 'Ctrl+Enter' },
+  { mode: 'selection', label: 'Run selected text' },
+  {
+    mode: 'statement',
+    label: 'Run current statement',
+    shortcut: 'Ctrl+Shift+Enter',
+  },
+]
+
 /**
  * SQL Toolbar component with action buttons and status indicators
  */
 export function SQLToolbar({
   onRunQuery,
+  onRunModeSelect,
   onCancelQuery,
   onFormatQuery,
+  onExplainQuery,
   onHelp,
   onSaveResults,
   onAIAssist,
   db,
+  connection,
   showDbStatusRed = false,
   queryState,
+  runMode = 'all',
   queryResult,
   queryError,
   query = '',
   hasLLMCompletion = false,
+  hasRemoteExecution = false,
+  readOnly = false,
   savedQueries = [],
   onSavedQuerySelect,
+  onSavedQueryCreate,
+  onSavedQueryUpdate,
+  onSavedQueryDelete,
+  queryHistory,
+  onHistorySelect,
+  onHistoryRerun,
+  onHistoryRemove,
+  onHistoryClear,
   dataSources = [],
   isLoadingBatch = false,
   onImportFile,
   onSelectDataSource,
+  onRefreshDataSource,
+  refreshingDataSourceIds,
+  onInsertIdentifier,
   onExecuteInsightsQuery,
   currentInsightsQuery = null,
   insightQueries,
@@ -101,8 +173,9 @@ export function SQLToolbar({
   const isRunning = queryState === DuckDBQueryState.QueryRunning
   const isInterrupting = queryState === DuckDBQueryState.QueryInterrupting
   const hasQueryContent = query.trim().length > 0
+  const canExecute = !!db || hasRemoteExecution
   const canRun =
-    db &&
+    canExecute &&
     (queryState === DuckDBQueryState.QueryIdle ||
       queryState === DuckDBQueryState.QueryCompleted ||
       queryState === DuckDBQueryState.QueryError) &&
@@ -117,13 +190,18 @@ export function SQLToolbar({
     queryState === DuckDBQueryState.QueryCompleted
 
   // Format functionality is only available when there's content in the editor AND database is available
-  const canFormat = db && query.trim().length > 0
+  // AND the editor is not read-only
+  const canFormat = db && query.trim().length > 0 && !readOnly
+
+  // Explaining profiles the query on the local DuckDB engine
+  const canExplain = canRun && !!connection && !hasRemoteExecution
 
   // AI Assist is only available when LLM completion is enabled, database is available, AND at least one datasource is loaded
   const hasActiveDataSources = dataSources.some(
     ds => ds.loadingStatus === 'loaded'
   )
-  const canUseAIAssist = db && hasLLMCompletion && onAIAssist && hasActiveDataSources
+  const canUseAIAssist =
+    db && hasLLMCompletion && onAIAssist && hasActiveDataSources && !readOnly
 
   // Reset animation when query state changes (prevents jumping)
   React.useEffect(() => {
@@ -241,9 +319,9 @@ export function SQLToolbar({
             title={
               isRunning || isInterrupting
                 ? 'Cancel query'
-                : db && hasQueryContent
-                  ? 'Run query (Ctrl+Enter)'
-                  : !db
+                : canExecute && hasQueryContent
+                  ? `${RUN_MODE_OPTIONS.find(option => option.mode === runMode)?.label} (Ctrl+Enter)`
+                  : !canExecute
                     ? 'Run query disabled - no database available'
                     : 'Run query disabled - no content to execute'
             }
@@ -292,6 +370,51 @@ export function SQLToolbar({
             </Button>
           </div>
 
+          {/* Run mode menu */}
+          {onRunModeSelect && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={!canRun}
+                  className={cn(
+                    'w-6 px-0 -ml-1',
+                    canRun
+                      ? 'hover:cursor-pointer'
+                      : 'cursor-not-allowed opacity-50'
+                  )}
+                  aria-label="Choose run mode"
+                  title="Choose run mode"
+                >
+                  <ChevronDown className="h-3 w-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start" className="w-64 z-3">
+                {RUN_MODE_OPTIONS.map(option => (
+                  <DropdownMenuItem
+                    key={option.mode}
+                    onClick={() => onRunModeSelect(option.mode)}
+                    className="cursor-pointer text-xs"
+                  >
+                    <Check
+                      className={cn(
+                        'h-3 w-3',
+                        option.mode !== runMode && 'invisible'
+                      )}
+                    />
+                    <span className="flex-1">{option.label}</span>
+                    {option.shortcut && (
+                      <span className="text-muted-foreground">
+                        {option.shortcut}
+                      </span>
+                    )}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
           {/* Format Query button */}
           <div
             title={
@@ -299,7 +422,9 @@ export function SQLToolbar({
                 ? 'Format query (Ctrl+Shift+F)'
                 : !db
                   ? 'Format query disabled - no database available'
-                  : 'Format query disabled - no content to format'
+                  : readOnly
+                    ? 'Format query disabled - editor is read-only'
+                    : 'Format query disabled - no content to format'
             }
           >
             <Button
@@ -322,15 +447,45 @@ export function SQLToolbar({
             </Button>
           </div>
 
+          {/* Explain Query button */}
+          {onExplainQuery && (
+            <div
+              title={
+                canExplain
+                  ? 'Explain query - profile the current statement with EXPLAIN ANALYZE'
+                  : hasRemoteExecution
+                    ? 'Explain query disabled - queries run on a remote engine'
+                    : 'Explain query disabled - no database or content available'
+              }
+            >
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={onExplainQuery}
+                disabled={!canExplain}
+                className={cn(
+                  'hover:cursor-pointer',
+                  !canExplain && 'opacity-50 cursor-not-allowed'
+                )}
+                aria-label="Explain query"
+              >
+                <Gauge className="h-4 w-4" />
+                <span className="sr-only">Explain Query</span>
+              </Button>
+            </div>
+          )}
+
           {/* AI Assist button */}
           {hasLLMCompletion && onAIAssist && (
             <div
               title={
-                db && hasActiveDataSources
+                canUseAIAssist
                   ? 'AI-assisted query generation'
                   : !db
                     ? 'AI Assist disabled - no database available'
-                    : 'AI Assist disabled - no active data sources available'
+                    : readOnly
+                      ? 'AI Assist disabled - editor is read-only'
+                      : 'AI Assist disabled - no active data sources available'
               }
             >
               <Button
@@ -365,7 +520,7 @@ export function SQLToolbar({
           </div>
         )}
 
-        {/* Right side - Data Sources, Saved Queries and Help */}
+        {/* Right side - Data Sources, Saved Queries, Query History and Help */}
         <div className="flex items-center gap-1">
           {/* Data Sources component */}
           <div className="relative">
@@ -373,20 +528,43 @@ export function SQLToolbar({
               dataSources={dataSources}
               isLoadingBatch={isLoadingBatch}
               db={db}
+              connection={connection}
               onImportFile={onImportFile}
               onSelectDataSource={onSelectDataSource}
+              onRefreshDataSource={onRefreshDataSource}
+              refreshingDataSourceIds={refreshingDataSourceIds}
+              onInsertIdentifier={onInsertIdentifier}
               onExecuteInsightsQuery={onExecuteInsightsQuery}
               insightQueries={insightQueries}
             />
           </div>
 
           {/* Saved Queries component */}
-          {savedQueries.length > 0 && onSavedQuerySelect && (
+          {(savedQueries.length > 0 || onSavedQueryCreate) &&
+            onSavedQuerySelect && (
+              <div className="relative">
+                <SavedQueries
+                  queries={savedQueries}
+                  db={db}
+                  onSelect={onSavedQuerySelect}
+                  currentQuery={query}
+                  onCreate={onSavedQueryCreate}
+                  onUpdate={onSavedQueryUpdate}
+                  onDelete={onSavedQueryDelete}
+                />
+              </div>
+            )}
+
+          {/* Query History component */}
+          {queryHistory && onHistorySelect && (
             <div className="relative">
-              <SavedQueries
-                queries={savedQueries}
+              <QueryHistory
+                entries={queryHistory}
                 db={db}
-                onSelect={onSavedQuerySelect}
+                onSelect={onHistorySelect}
+                onRerun={onHistoryRerun}
+                onRemove={onHistoryRemove}
+                onClear={onHistoryClear}
               />
             </div>
           )}
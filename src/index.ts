@@ -7,19 +7,85 @@ export { AssistantCockpit } from './components/cockpit/ai/assistant'
 
 // SQL Cockpit components
 export { SQLCockpit } from './components/cockpit/sql/cockpit'
-export { SQLEditor } from './components/cockpit/sql/editor'
+export { SQLEditor, getExecutionTarget } from './components/cockpit/sql/editor'
 export { SQLToolbar } from './components/cockpit/sql/toolbar'
 export { ResultsPanel } from './components/cockpit/sql/results'
 export { DataSources } from './components/cockpit/sql/datasources'
+export { QueryHistory } from './components/cockpit/sql/history'
 
 // SQL Cockpit hooks
 export { useSQLFormatter } from './hooks/use-sql-formatter'
 export { useTableColumnSync } from './hooks/use-table-column-sync'
-export { useCopyColumn, usePagination } from './lib/hooks'
+export {
+  useCopyColumn,
+  useDataSourceCatalog,
+  usePagination,
+  useQueryHistory,
+  useSavedQueries,
+  useVirtualWindow,
+} from './lib/hooks'
+export type { SavedQueryInput } from './lib/hooks'
 
 // DuckDB integration
 export * from './lib/duckdb'
 
+// Built-in insights
+export {
+  PROFILING_INSIGHT_CATEGORIES,
+  PROFILING_INSIGHT_RENDERERS,
+  buildProfilingQuery,
+  createProfilingInsights,
+  renderAnomalyInsight,
+  renderCorrelationInsight,
+  renderPatternInsight,
+  renderSummaryInsight,
+  renderTrendInsight,
+  renderValidationInsight,
+} from './lib/insights'
+export type {
+  ProfilingInsightCategory,
+  ProfilingInsightsOptions,
+  ProfilingQueryOptions,
+} from './lib/insights'
+
+// Persistence adapters
+export {
+  createLocalStorageAdapter,
+  createIndexedDBAdapter,
+  createMemoryAdapter,
+  createDefaultStorageAdapter,
+} from './lib/storage'
+export type { StorageAdapter } from './lib/storage'
+
+// SQL script utilities
+export {
+  splitSQLStatements,
+  findStatementAtOffset,
+  getStatementKeyword,
+  isRowReturningQuery,
+  changesCatalog,
+  skipQuotedOrComment,
+} from './lib/sql-statements'
+export type { SQLStatement } from './lib/sql-statements'
+export {
+  bindQueryParameters,
+  findParameterReferences,
+  getDefaultParameterValues,
+  getParameterColumns,
+  getParameterLabel,
+  referencesParameters,
+  validateParameterValue,
+} from './lib/sql-parameters'
+export type { BoundQuery, ParameterReference } from './lib/sql-parameters'
+export {
+  EMPTY_RESULT_VIEW,
+  applyResultView,
+  buildResultViewQuery,
+  isColumnFilterActive,
+  isResultViewActive,
+  toggleColumnSort,
+} from './lib/result-view'
+
 // LLM utilities
 export { formatLLMCompletionPrompt } from './lib/llm-utils'
 
@@ -46,12 +112,41 @@ export type {
   QueryResult,
   QueryColumn,
   SQLError,
+  SQLDiagnostic,
   SavedQuery,
+  QueryHistoryEntry,
+  StatementResult,
+  QueryRunMode,
+  QueryExecutionTarget,
+  ColumnSort,
+  ColumnFilter,
+  ResultView,
+  ResultExportFormat,
   SQLExecutionState,
   SQLEditorOptions,
   ResultsPanelOptions,
   ToolbarAction,
   DataSource,
   DataSourceLoadingStatus,
+  DataSourceImportStrategy,
+  DataSourceImportOptions,
+  DataSourceCatalogEntry,
+  DataSourceRefreshOptions,
+  RemoteFileVersion,
+  CSVImportColumn,
+  CSVImportOptions,
+  ImportFileFormat,
+  ColumnStatistics,
+  HistogramBin,
+  CatalogFunction,
+  CatalogRelation,
+  DuckDBCatalog,
+  QueryPlan,
+  QueryPlanOperator,
   InsightsQuery,
+  QueryParameter,
+  QueryParameterType,
+  QueryParameterValue,
+  QueryParameterValues,
+  DateRangeValue,
 } from './types/sql'
@@ -0,0 +1,209 @@
+/**
+ * DuckDB Catalog
+ *
+ * Reads the live catalog of a DuckDB connection (`duckdb_tables()`,
+ * `duckdb_views()`, `duckdb_columns()`, `duckdb_functions()` and
+ * `duckdb_keywords()`), so editor completion knows every table, view,
+ * attached database and function the loaded DuckDB version has. Catalogs are
+ * cached per connection until `invalidateDuckDBCatalog` is called, e.g. after
+ * a DDL statement ran.
+ */
+
+import { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm'
+import type {
+  CatalogFunction,
+  CatalogRelation,
+  ColumnInfo,
+  DuckDBCatalog,
+} from '@/types/sql'
+
+const catalogs = new WeakMap<AsyncDuckDBConnection, Promise<DuckDBCatalog>>()
+
+/**
+ * Read a LIST value, which arrives as an Arrow vector
+ */
+const readList = (value: unknown): string[] =>
+  typeof value === 'object' && value !== null && Symbol.iterator in value
+    ? Array.from(value as Iterable<unknown>)
+        .filter(item => item !== null && item !== undefined)
+        .map(String)
+    : []
+
+const optionalString = (value: unknown): string | null =>
+  value === null || value === undefined || value === '' ? null : String(value)
+
+/**
+ * Key of a relation, to attach columns to it
+ */
+const relationKey = (database: string, schema: string, name: string): string =>
+  JSON.stringify([database, schema, name])
+
+/**
+ * Read the databases, tables, views and their columns
+ */
+async function loadRelations(
+  connection: AsyncDuckDBConnection
+): Promise<Pick<DuckDBCatalog, 'currentDatabase' | 'databases' | 'relations'>> {
+  const currentDatabase = await connection.query(
+    'SELECT current_database() AS name'
+  )
+  const databases = await connection.query(
+    'SELECT database_name FROM duckdb_databases() WHERE NOT internal ORDER BY database_name'
+  )
+  const relations = await connection.query(
+    `SELECT database_name, schema_name, table_name AS name, 'table' AS kind, temporary FROM duckdb_tables() WHERE NOT internal
+     UNION ALL
+     SELECT database_name, schema_name, view_name AS name, 'view' AS kind, temporary FROM duckdb_views() WHERE NOT internal
+     ORDER BY database_name, schema_name, name`
+  )
+  const columns = await connection.query(
+    'SELECT database_name, schema_name, table_name, column_name, data_type, is_nullable FROM duckdb_columns() WHERE NOT internal ORDER BY database_name, schema_name, table_name, column_index'
+  )
+
+  const columnsByRelation = new Map<string, ColumnInfo[]>()
+  for (const row of columns.toArray()) {
+    const key = relationKey(
+      String(row.database_name),
+      String(row.schema_name),
+      String(row.table_name)
+    )
+    columnsByRelation.set(key, [
+      ...(columnsByRelation.get(key) ?? []),
+      {
+        name: String(row.column_name),
+        type: String(row.data_type),
+        nullable: Boolean(row.is_nullable),
+      },
+    ])
+  }
+
+  return {
+    currentDatabase: String(currentDatabase.toArray()[0]?.name ?? 'memory'),
+    databases: databases.toArray().map(row => String(row.database_name)),
+    relations: relations.toArray().map(
+      (row): CatalogRelation => ({
+        database: String(row.database_name),
+        schema: String(row.schema_name),
+        name: String(row.name),
+        kind: row.kind === 'view' ? 'view' : 'table',
+        temporary: Boolean(row.temporary),
+        columns:
+          columnsByRelation.get(
+            relationKey(
+              String(row.database_name),
+              String(row.schema_name),
+              String(row.name)
+            )
+          ) ?? [],
+      })
+    ),
+  }
+}
+
+/**
+ * Read the functions and keywords
+ *
+ * Lists are read as Arrow lists rather than converted with `to_json`, which
+ * would depend on the json extension being loaded (or downloadable).
+ */
+async function loadFunctions(
+  connection: AsyncDuckDBConnection
+): Promise<Pick<DuckDBCatalog, 'functions' | 'keywords'>> {
+  const functions = await connection.query(
+    `SELECT function_name, function_type, description, return_type, parameters, parameter_types, varargs, examples
+     FROM duckdb_functions()
+     WHERE regexp_matches(function_name, '^[A-Za-z_][A-Za-z0-9_]*$') AND NOT starts_with(function_name, '__')
+     ORDER BY function_name`
+  )
+  const keywords = await connection.query(
+    'SELECT keyword_name FROM duckdb_keywords() ORDER BY keyword_name'
+  )
+
+  return {
+    functions: functions.toArray().map(
+      (row): CatalogFunction => ({
+        name: String(row.function_name),
+        type: String(row.function_type),
+        description: optionalString(row.description),
+        parameters: readList(row.parameters),
+        parameterTypes: readList(row.parameter_types),
+        returnType: optionalString(row.return_type),
+        varargs: optionalString(row.varargs),
+        examples: readList(row.examples),
+      })
+    ),
+    keywords: keywords.toArray().map(row => String(row.keyword_name)),
+  }
+}
+
+/**
+ * Read the catalog of a DuckDB connection
+ *
+ * Internal tables and views are left out, as are operators and internal
+ * functions (names starting with `__`). Relations and functions are read
+ * separately: when one of them can't be read the catalog has the other, and
+ * the read only fails when neither can be.
+ *
+ * @param connection - The DuckDB connection
+ */
+export async function loadDuckDBCatalog(
+  connection: AsyncDuckDBConnection
+): Promise<DuckDBCatalog> {
+  const [relations, functions] = await Promise.allSettled([
+    loadRelations(connection),
+    loadFunctions(connection),
+  ])
+  if (relations.status === 'rejected' && functions.status === 'rejected') {
+    throw relations.reason
+  }
+  for (const part of [relations, functions]) {
+    if (part.status === 'rejected') {
+      console.warn(
+        '[blockether-foundation-react] Failed to read part of the DuckDB catalog:',
+        part.reason
+      )
+    }
+  }
+
+  return {
+    ...(relations.status === 'fulfilled'
+      ? relations.value
+      : { currentDatabase: 'memory', databases: [], relations: [] }),
+    ...(functions.status === 'fulfilled'
+      ? functions.value
+      : { functions: [], keywords: [] }),
+  }
+}
+
+/**
+ * Get the catalog of a connection, reading it on first use
+ *
+ * Concurrent callers share one read; a failed read is not cached.
+ *
+ * @param connection - The DuckDB connection
+ */
+export function getDuckDBCatalog(
+  connection: AsyncDuckDBConnection
+): Promise<DuckDBCatalog> {
+  let catalog = catalogs.get(connection)
+  if (!catalog) {
+    catalog = loadDuckDBCatalog(connection)
+    catalogs.set(connection, catalog)
+    catalog.catch(() => {
+      if (catalogs.get(connection) === catalog) catalogs.delete(connection)
+    })
+  }
+  return catalog
+}
+
+/**
+ * Drop the cached catalog of a connection, so the next completion reads the
+ * catalog again (after tables, views, macros or attached databases changed)
+ *
+ * @param connection - The DuckDB connection
+ */
+export function invalidateDuckDBCatalog(
+  connection: AsyncDuckDBConnection
+): void {
+  catalogs.delete(connection)
+}
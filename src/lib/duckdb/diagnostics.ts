@@ -0,0 +1,265 @@
+/**
+ * SQL Diagnostics
+ *
+ * Locates DuckDB errors in the SQL they came from, so the editor can mark
+ * them in place, and checks SQL without running it: statements are planned
+ * with `EXPLAIN`, which catches syntax errors as well as unknown tables and
+ * columns, or only parsed with `json_serialize_sql` where planning would
+ * report false errors.
+ */
+
+import { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm'
+import { findParameterReferences } from '@/lib/sql-parameters'
+import { getStatementKeyword, splitSQLStatements } from '@/lib/sql-statements'
+import type { SQLDiagnostic, SQLError } from '@/types/sql'
+import { runPreparedQuery } from './sql'
+
+/**
+ * Position of an error within SQL text, 1-based
+ */
+export interface SQLErrorPosition {
+  line: number
+  /** Column, unless the reported line was cut and could not be found */
+  column?: number | undefined
+}
+
+// DuckDB appends the line of the error and a caret under its position:
+//   LINE 1: SELECT * FORM users
+//                    ^
+const ERROR_POSITION_PATTERN = /^LINE (\d+): (.*)\n( *)\^/m
+const ERROR_LOCATION_PATTERN = /\n+LINE \d+:[\s\S]*$/
+const TOKEN_PATTERN = /^(?:[A-Za-z0-9_]+|"(?:[^"]|"")*"|'(?:[^']|'')*'|\S)/
+const EXPLAIN_PREFIX = 'EXPLAIN '
+
+/**
+ * Statements `EXPLAIN` can plan without running them
+ */
+const PLANNABLE_KEYWORDS = new Set([
+  'SELECT',
+  'WITH',
+  'FROM',
+  'VALUES',
+  'TABLE',
+  'INSERT',
+  'UPDATE',
+  'DELETE',
+])
+
+/**
+ * Find the position of a DuckDB error from the location in its message
+ *
+ * Long lines are shown cut around the error, and the reported line counts
+ * from the start of the SQL DuckDB ran, which may wrap the statement (e.g. to
+ * page through it). When the SQL is given, the shown text is looked up in it
+ * to report the position within that SQL.
+ *
+ * @param message - DuckDB error message
+ * @param sql - SQL the error was raised for
+ * @returns The position, or null when the message has no location
+ */
+export function parseDuckDBErrorPosition(
+  message: string,
+  sql?: string
+): SQLErrorPosition | null {
+  const match = ERROR_POSITION_PATTERN.exec(message)
+  if (!match) return null
+
+  const line = Number(match[1])
+  const shown = match[2]!
+  const caret = match[3]!.length - `LINE ${match[1]}: `.length
+  const cut = shown.startsWith('...') ? 3 : 0
+  const snippet = shown.slice(cut).replace(/\.\.\.$/, '')
+
+  if (sql !== undefined) {
+    const lines = sql.split('\n')
+    const nearest = lines
+      .map((_, index) => index)
+      .sort((a, b) => Math.abs(a - line + 1) - Math.abs(b - line + 1))
+    for (const index of nearest) {
+      const at = lines[index]!.indexOf(snippet)
+      if (at >= 0) return { line: index + 1, column: at + caret - cut + 1 }
+    }
+  }
+
+  return { line, column: cut ? undefined : caret + 1 }
+}
+
+/**
+ * Message of a DuckDB error without the location DuckDB appends to it
+ */
+export const getErrorSummary = (message: string): string =>
+  message.replace(ERROR_LOCATION_PATTERN, '').trim()
+
+/**
+ * Offset of a 1-based line and column within a text, kept inside the text
+ */
+function getOffsetAt(text: string, line: number, column = 1): number {
+  const lines = text.split('\n')
+  const lineIndex = Math.min(Math.max(line - 1, 0), lines.length - 1)
+  let offset = 0
+  for (let i = 0; i < lineIndex; i++) offset += lines[i]!.length + 1
+  return offset + Math.min(Math.max(column - 1, 0), lines[lineIndex]!.length)
+}
+
+/**
+ * Mark the token at an offset of a statement, or its first line when the
+ * offset is unknown
+ */
+function createDiagnostic(
+  message: string,
+  text: string,
+  start: number,
+  offset: number | null
+): SQLDiagnostic {
+  if (offset === null) {
+    const lineEnd = text.indexOf('\n')
+    return {
+      start,
+      end: start + (lineEnd >= 0 ? lineEnd : text.length),
+      message,
+    }
+  }
+
+  offset = Math.min(Math.max(offset, 0), text.length)
+  const token = TOKEN_PATTERN.exec(text.slice(offset))
+  if (token) {
+    return {
+      start: start + offset,
+      end: start + offset + token[0].length,
+      message,
+    }
+  }
+  // Errors at the end of the input (or between tokens) mark the character before
+  const before = Math.max(offset - 1, 0)
+  return { start: start + before, end: start + Math.max(offset, 1), message }
+}
+
+/**
+ * Mark the error of a statement in the text it came from
+ *
+ * @param error - The statement's error, positioned within the statement
+ * @param text - The statement text
+ * @param start - Offset of the statement in the text to mark
+ */
+export function getErrorDiagnostic(
+  error: SQLError,
+  text: string,
+  start: number
+): SQLDiagnostic {
+  return createDiagnostic(
+    getErrorSummary(error.message),
+    text,
+    start,
+    error.line === undefined
+      ? null
+      : getOffsetAt(text, error.line, error.column)
+  )
+}
+
+/**
+ * Plan a statement with EXPLAIN
+ *
+ * @returns The error's message and offset in the statement, or null if the
+ * statement is valid
+ */
+async function explainStatement(
+  connection: AsyncDuckDBConnection,
+  text: string
+): Promise<{ message: string; offset: number | null } | null> {
+  const sql = EXPLAIN_PREFIX + text
+  try {
+    await connection.query(sql)
+    return null
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    const position = parseDuckDBErrorPosition(message, sql)
+    return {
+      message,
+      offset: position
+        ? Math.max(
+            getOffsetAt(sql, position.line, position.column) -
+              EXPLAIN_PREFIX.length,
+            0
+          )
+        : null,
+    }
+  }
+}
+
+/**
+ * Parse a statement with json_serialize_sql, which reports syntax errors only
+ *
+ * @returns The error's message and offset in the statement, or null if the
+ * statement parses
+ */
+async function parseStatement(
+  connection: AsyncDuckDBConnection,
+  text: string
+): Promise<{ message: string; offset: number | null } | null> {
+  const result = await runPreparedQuery(
+    connection,
+    'SELECT json_serialize_sql(?) AS result',
+    [text]
+  )
+  const serialized = JSON.parse(String(result.toArray()[0]?.result ?? '{}'))
+  // Statements other than SELECT parse, but can't be serialized
+  if (!serialized.error || serialized.error_type !== 'parser') return null
+
+  const message = String(serialized.error_message)
+  const position = parseDuckDBErrorPosition(message, text)
+  return {
+    message: `Parser Error: ${message}`,
+    offset:
+      serialized.position !== undefined
+        ? Number(serialized.position)
+        : position
+          ? getOffsetAt(text, position.line, position.column)
+          : null,
+  }
+}
+
+/**
+ * Check SQL without running it
+ *
+ * Queries and data changes are planned, so references to unknown tables and
+ * columns are reported too. Other statements, statements with `$name`
+ * parameters and everything after another kind of statement (which may
+ * create a table the rest of the script uses) are only checked for syntax
+ * errors.
+ *
+ * @param connection - The DuckDB connection
+ * @param sql - SQL text, possibly several statements
+ * @returns Problems found, located by offsets in the SQL text
+ */
+export async function validateSQL(
+  connection: AsyncDuckDBConnection,
+  sql: string
+): Promise<SQLDiagnostic[]> {
+  const diagnostics: SQLDiagnostic[] = []
+  let canPlan = true
+
+  for (const statement of splitSQLStatements(sql)) {
+    const plannable = PLANNABLE_KEYWORDS.has(
+      getStatementKeyword(statement.text)
+    )
+    const problem =
+      canPlan &&
+      plannable &&
+      findParameterReferences(statement.text).length === 0
+        ? await explainStatement(connection, statement.text)
+        : await parseStatement(connection, statement.text)
+    if (problem) {
+      diagnostics.push(
+        createDiagnostic(
+          getErrorSummary(problem.message),
+          statement.text,
+          statement.start,
+          problem.offset
+        )
+      )
+    }
+    canPlan = canPlan && plannable
+  }
+
+  return diagnostics
+}
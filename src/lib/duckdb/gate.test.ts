@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest'
+import type { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm'
+import { getGatedConnection, runExclusive } from './gate'
+import { runInterruptible } from './ops'
+
+/**
+ * A connection whose queries are recorded and finish when told to
+ */
+function createFakeConnection() {
+  const calls: string[] = []
+  const pending = new Map<string, () => void>()
+  const connection = {
+    query: (sql: string) => {
+      calls.push(sql)
+      return new Promise<string>(resolve =>
+        pending.set(sql, () => resolve(sql))
+      )
+    },
+    cancelSent: async () => {
+      calls.push('cancelSent')
+      return true
+    },
+  } as unknown as AsyncDuckDBConnection
+  const finish = (sql: string): void => pending.get(sql)?.()
+  return { connection, calls, finish }
+}
+
+const flush = (): Promise<void> => new Promise(resolve => setTimeout(resolve))
+
+describe('getGatedConnection', () => {
+  it('returns one view per connection', () => {
+    const { connection } = createFakeConnection()
+    const gated = getGatedConnection(connection)
+    expect(getGatedConnection(connection)).toBe(gated)
+    expect(getGatedConnection(gated)).toBe(gated)
+  })
+
+  it('holds queries back while an exclusive task runs', async () => {
+    const { connection, calls, finish } = createFakeConnection()
+    const gated = getGatedConnection(connection)
+
+    const exclusive = runExclusive(gated, raw => raw.query('user query'))
+    await flush()
+    const background = gated.query('background query')
+    await flush()
+    expect(calls).toEqual(['user query'])
+
+    finish('user query')
+    await exclusive
+    await flush()
+    expect(calls).toEqual(['user query', 'background query'])
+    finish('background query')
+    await expect(background).resolves.toBe('background query')
+  })
+
+  it('runs exclusive tasks one after the other', async () => {
+    const { connection, calls, finish } = createFakeConnection()
+    const first = runExclusive(connection, raw => raw.query('first'))
+    const second = runExclusive(connection, raw => raw.query('second'))
+    await flush()
+    expect(calls).toEqual(['first'])
+
+    finish('first')
+    await first
+    await flush()
+    finish('second')
+    await second
+    expect(calls).toEqual(['first', 'second'])
+  })
+})
+
+describe('runInterruptible', () => {
+  it('reports a cancelled query once it stopped', async () => {
+    const { connection, calls } = createFakeConnection()
+    const controller = new AbortController()
+    const run = runInterruptible(
+      connection,
+      signal =>
+        new Promise<never>((_, reject) =>
+          signal.addEventListener('abort', () =>
+            reject(new Error('query was canceled'))
+          )
+        ),
+      { signal: controller.signal }
+    )
+
+    controller.abort()
+    await expect(run).rejects.toEqual({
+      type: 'cancelled',
+      message: 'Query cancelled',
+    })
+    expect(calls).toEqual(['cancelSent'])
+  })
+
+  it('reports a timeout', async () => {
+    const { connection } = createFakeConnection()
+    const run = runInterruptible(
+      connection,
+      signal =>
+        new Promise<never>((_, reject) =>
+          signal.addEventListener('abort', () => reject(new Error('stopped')))
+        ),
+      { timeoutMs: 10 }
+    )
+    await expect(run).rejects.toEqual({
+      type: 'timeout',
+      message: 'Query timed out after 10ms',
+    })
+  })
+
+  it('returns the result of work that finished despite the cancellation', async () => {
+    const { connection, finish } = createFakeConnection()
+    const controller = new AbortController()
+    const run = runInterruptible(
+      connection,
+      () => connection.query('prepared statement'),
+      { signal: controller.signal }
+    )
+
+    controller.abort()
+    await flush()
+    finish('prepared statement')
+    await expect(run).resolves.toBe('prepared statement')
+  })
+
+  it('stops waiting for remote engines, which cannot be interrupted', async () => {
+    const controller = new AbortController()
+    const run = runInterruptible(null, () => new Promise(() => {}), {
+      signal: controller.signal,
+    })
+    controller.abort()
+    await expect(run).rejects.toMatchObject({ type: 'cancelled' })
+  })
+})
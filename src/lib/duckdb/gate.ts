@@ -0,0 +1,141 @@
+/**
+ * Connection Gate
+ *
+ * A query sent with `connection.send` stays pending while DuckDB runs it, and
+ * any other query on the same connection ends it. Queries the user runs
+ * therefore hold the connection exclusively (`runExclusive`), and everything
+ * else (completion, validation, statistics, refreshes, imports) uses a gated
+ * view of the connection (`getGatedConnection`), whose calls wait until no
+ * exclusive task holds the connection. Both are the same DuckDB connection,
+ * so temporary tables and settings are shared.
+ */
+
+import { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm'
+
+type ConnectionMethod = (...args: unknown[]) => Promise<unknown>
+
+/**
+ * Connection methods that run something on the connection; `cancelSent` and
+ * `close` are left out so they are never held up
+ */
+const GATED_METHODS = [
+  'query',
+  'send',
+  'getTableNames',
+  'insertArrowTable',
+  'insertArrowFromIPCStream',
+  'insertCSVFromPath',
+  'insertJSONFromPath',
+] as const
+
+/** Methods of prepared statements that run them */
+const GATED_STATEMENT_METHODS = ['query', 'send'] as const
+
+const gatedConnections = new WeakMap<
+  AsyncDuckDBConnection,
+  AsyncDuckDBConnection
+>()
+const rawConnections = new WeakMap<
+  AsyncDuckDBConnection,
+  AsyncDuckDBConnection
+>()
+// Settles when the last queued exclusive task is done
+const exclusiveTasks = new WeakMap<AsyncDuckDBConnection, Promise<void>>()
+
+const getRawConnection = (
+  connection: AsyncDuckDBConnection
+): AsyncDuckDBConnection => rawConnections.get(connection) ?? connection
+
+/**
+ * Wait until no exclusive task holds or waits for the connection
+ */
+async function whenIdle(connection: AsyncDuckDBConnection): Promise<void> {
+  let task = exclusiveTasks.get(connection)
+  while (task) {
+    await task
+    task = exclusiveTasks.get(connection)
+  }
+}
+
+/**
+ * A view of an object whose methods wait for the connection to be idle
+ */
+function createGatedView<T extends object>(
+  target: T,
+  connection: AsyncDuckDBConnection,
+  methods: readonly string[]
+): T {
+  const view = Object.create(target) as T
+  for (const method of methods) {
+    const run = (target as Record<string, ConnectionMethod>)[method]
+    if (typeof run !== 'function') continue
+    Object.defineProperty(view, method, {
+      value: async (...args: unknown[]) => {
+        await whenIdle(connection)
+        return run.apply(target, args)
+      },
+    })
+  }
+  return view
+}
+
+/**
+ * Get the gated view of a connection
+ *
+ * Its queries wait while an exclusive task holds the connection. The view is
+ * created once per connection, so it can be used as a cache key.
+ *
+ * @param connection - The DuckDB connection (or its gated view)
+ */
+export function getGatedConnection(
+  connection: AsyncDuckDBConnection
+): AsyncDuckDBConnection {
+  const raw = getRawConnection(connection)
+  let gated = gatedConnections.get(raw)
+  if (!gated) {
+    gated = createGatedView(raw, raw, GATED_METHODS)
+    // Statements prepared through the view are gated too
+    Object.defineProperty(gated, 'prepare', {
+      value: async (text: string) => {
+        await whenIdle(raw)
+        return createGatedView(
+          await raw.prepare(text),
+          raw,
+          GATED_STATEMENT_METHODS
+        )
+      },
+    })
+    gatedConnections.set(raw, gated)
+    rawConnections.set(gated, raw)
+  }
+  return gated
+}
+
+/**
+ * Run a task that holds the connection exclusively
+ *
+ * Exclusive tasks run one after the other, and calls through the gated view
+ * wait until they are done. The task gets the connection itself and must
+ * use it (not the gated view) for its queries, which would wait for the task
+ * to finish otherwise.
+ *
+ * @param connection - The DuckDB connection (or its gated view)
+ * @param task - Runs the queries
+ */
+export function runExclusive<T>(
+  connection: AsyncDuckDBConnection,
+  task: (connection: AsyncDuckDBConnection) => Promise<T>
+): Promise<T> {
+  const raw = getRawConnection(connection)
+  const previous = exclusiveTasks.get(raw) ?? Promise.resolve()
+  const result = previous.then(() => task(raw))
+  const done = result.then(
+    () => undefined,
+    () => undefined
+  )
+  exclusiveTasks.set(raw, done)
+  void done.then(() => {
+    if (exclusiveTasks.get(raw) === done) exclusiveTasks.delete(raw)
+  })
+  return result
+}
@@ -1,6 +1,6 @@
 import { AsyncDuckDB, AsyncDuckDBConnection } from '@duckdb/duckdb-wasm'
 
-import { getDuckDB, isLoaded } from './init'
+import { DuckDBInitOptions, getDuckDB, isLoaded } from './init'
 import { useEffect } from 'react'
 import React from 'react'
 import {
@@ -11,8 +11,13 @@ import {
 
 /**
  * React hook to access a singleton DuckDb instance within components or other hooks.
+ *
+ * @param options - Initialization options, used if the database is not
+ * initialized yet
  */
-export const useDuckDB = (): {
+export const useDuckDB = (
+  options?: DuckDBInitOptions
+): {
   db: AsyncDuckDB | undefined
   state: DuckDBLoadingState
   error: Error | undefined
@@ -28,7 +33,7 @@ export const useDuckDB = (): {
   useEffect(() => {
     const fetchDB = async () => {
       try {
-        const db = await getDuckDB()
+        const db = await getDuckDB(options)
         setDb(db)
         setState(DuckDBLoadingState.DuckDBLoaded)
       } catch (error) {
@@ -1,3 +1,10 @@
 export * from './ops'
 export * from './hooks'
 export * from './type-labels'
+export * from './values'
+export * from './rows'
+export * from './sql'
+export * from './catalog'
+export * from './diagnostics'
+export * from './plan'
+export * from './gate'
@@ -1,27 +1,51 @@
 /// <reference types="../../../types/env.d.ts" />
-import { AsyncDuckDB, DuckDBConfig, selectBundle, ConsoleLogger } from '@duckdb/duckdb-wasm'
+import { AsyncDuckDB, DuckDBAccessMode, DuckDBConfig, selectBundle, ConsoleLogger } from '@duckdb/duckdb-wasm'
 import { getPerformanceNow } from './perf'
 import { getGlobalLogger } from '../foundation'
 
 let GlobalDatabaseHandle: Promise<AsyncDuckDB> | undefined
+let GlobalDatabaseIsPersistent = false
+
+/**
+ * Default Origin Private File System path of the persistent database
+ */
+export const DEFAULT_OPFS_DATABASE_PATH = 'opfs://blockether-foundation.duckdb'
+
+/**
+ * Options of `initializeDuckDb`
+ */
+export interface DuckDBInitOptions {
+  debug?: boolean
+  config?: DuckDBConfig
+  /**
+   * Store the database in the Origin Private File System under this path
+   * (e.g. `opfs://app.duckdb`) so tables survive page reloads. Falls back to
+   * an in-memory database when OPFS is unavailable or the file is locked by
+   * another tab.
+   */
+  opfsPath?: string
+}
 
 /**
  * Initialize DuckDB, ensuring we only initialize it once.
  *
+ * Options only apply to the first call; later calls return the database
+ * created by the first one.
+ *
  * @param debug If true, log DuckDB logs and elapsed times to the console.
  * @param config An optional DuckDBConfig object.
+ * @param opfsPath An optional OPFS path to persist the database at.
  */
-export default async function initializeDuckDb(options?: {
-  debug?: boolean
-  config?: DuckDBConfig
-}): Promise<AsyncDuckDB> {
-  const { debug, config } = options || {}
+export default async function initializeDuckDb(
+  options?: DuckDBInitOptions
+): Promise<AsyncDuckDB> {
+  const { debug, config, opfsPath } = options || {}
   const logger = getGlobalLogger()
   const start = getPerformanceNow()
   debug && logger.debug('initializeDuckDb')
 
   if (GlobalDatabaseHandle === undefined) {
-    GlobalDatabaseHandle = _initializeDuckDb(config)
+    GlobalDatabaseHandle = _initializeDuckDb(config, opfsPath)
   }
   const end = getPerformanceNow()
 
@@ -135,7 +159,8 @@ const bundleResolver = BLOCKETHER_FOUNDATION_ASSETS_PATH !== '' ?
  * Initialize DuckGlobalDatabaseHandle with a browser-specific Wasm bundle.
  */
 const _initializeDuckDb = async (
-  config?: DuckDBConfig
+  config?: DuckDBConfig,
+  opfsPath?: string
 ): Promise<AsyncDuckDB> => {
   const start = performance.now()
   const logger = getGlobalLogger()
@@ -167,7 +192,9 @@ const _initializeDuckDb = async (
     await db.instantiate(bundle.mainModule, bundle.pthreadWorker)
     logger.info('DuckDB database instantiated successfully')
 
-    if (config) {
+    if (opfsPath && (await openPersistentDatabase(db, opfsPath, config))) {
+      GlobalDatabaseIsPersistent = true
+    } else if (config) {
       if (config.path) {
         logger.info('Loading database file:', config.path)
         const res = await fetch(config.path)
@@ -205,20 +232,63 @@ const _initializeDuckDb = async (
   }
 }
 
+/**
+ * Open the database stored at an OPFS path, creating it if needed.
+ *
+ * @returns false if the database could not be opened (the in-memory database
+ * stays open)
+ */
+const openPersistentDatabase = async (
+  db: AsyncDuckDB,
+  opfsPath: string,
+  config?: DuckDBConfig
+): Promise<boolean> => {
+  const logger = getGlobalLogger()
+
+  if (typeof navigator === 'undefined' || !navigator.storage?.getDirectory) {
+    logger.warn('OPFS is not available, using an in-memory database')
+    return false
+  }
+
+  try {
+    logger.info('Opening persistent database:', opfsPath)
+    await db.open({
+      ...config,
+      path: opfsPath,
+      accessMode: DuckDBAccessMode.READ_WRITE,
+    })
+    logger.info('Persistent database opened successfully')
+    return true
+  } catch (error) {
+    logger.warn('Failed to open persistent database, using an in-memory database:', error)
+    return false
+  }
+}
+
 /**
  * Get the instance of DuckDB, initializing it if needed.
  *
  * Typically `useDuckDB` is used in React components instead, but this
  * method provides access outside of React contexts.
  */
-export const getDuckDB = async (): Promise<AsyncDuckDB> => {
+export const getDuckDB = async (
+  options?: DuckDBInitOptions
+): Promise<AsyncDuckDB> => {
   if (GlobalDatabaseHandle) {
     return GlobalDatabaseHandle
   } else {
-    return await initializeDuckDb()
+    return await initializeDuckDb(options)
   }
 }
 
 export const isLoaded = (): boolean => {
   return GlobalDatabaseHandle !== undefined
 }
+
+/**
+ * Whether the database is stored in OPFS (see `DuckDBInitOptions.opfsPath`)
+ * rather than in memory. Only meaningful once the database is initialized.
+ */
+export const isPersistent = (): boolean => {
+  return GlobalDatabaseIsPersistent
+}
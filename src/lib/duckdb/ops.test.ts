@@ -0,0 +1,110 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { resolve } from 'path'
+import type { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm'
+import {
+  ConsoleLogger,
+  createDuckDB,
+  DuckDBBindings,
+  DuckDBConnection,
+  LogLevel,
+  NODE_RUNTIME,
+} from '@duckdb/duckdb-wasm/blocking'
+import { transformDuckDBResultPage } from './ops'
+
+describe('transformDuckDBResultPage', () => {
+  let db: DuckDBBindings
+  let connection: DuckDBConnection
+  let sent: string[]
+
+  // The connection with the SQL of every query it runs recorded
+  const recordingConnection = (): AsyncDuckDBConnection =>
+    ({
+      query: (sql: string) => {
+        sent.push(sql)
+        return connection.query(sql)
+      },
+      send: (sql: string) => {
+        sent.push(sql)
+        return connection.send(sql)
+      },
+    }) as unknown as AsyncDuckDBConnection
+
+  const counted = (): string[] => sent.filter(sql => sql.includes('COUNT(*)'))
+
+  beforeAll(async () => {
+    const dist = resolve(
+      __dirname,
+      '../../../node_modules/@duckdb/duckdb-wasm/dist'
+    )
+    db = await createDuckDB(
+      {
+        mvp: {
+          mainModule: resolve(dist, 'duckdb-mvp.wasm'),
+          mainWorker: resolve(dist, 'duckdb-node-mvp.worker.cjs'),
+        },
+        eh: {
+          mainModule: resolve(dist, 'duckdb-eh.wasm'),
+          mainWorker: resolve(dist, 'duckdb-node-eh.worker.cjs'),
+        },
+      },
+      new ConsoleLogger(LogLevel.WARNING),
+      NODE_RUNTIME
+    )
+    await db.instantiate(() => {})
+    connection = db.connect()
+  })
+
+  afterAll(() => {
+    connection.close()
+    db.reset()
+  })
+
+  it('takes the total from a first page that is not full', async () => {
+    sent = []
+    const page = await transformDuckDBResultPage(
+      recordingConnection(),
+      'SELECT * FROM range(3)',
+      { offset: 0, limit: 10 },
+      Date.now()
+    )
+    expect(page.data).toHaveLength(3)
+    expect(page.totalCount).toBe(3)
+    expect(page.hasMore).toBe(false)
+    expect(counted()).toEqual([])
+  })
+
+  it('counts the rows when the first page is full', async () => {
+    sent = []
+    const page = await transformDuckDBResultPage(
+      recordingConnection(),
+      'SELECT * FROM range(25)',
+      { offset: 0, limit: 10 },
+      Date.now()
+    )
+    expect(page.data).toHaveLength(10)
+    expect(page.totalCount).toBe(25)
+    expect(page.hasMore).toBe(true)
+    expect(counted()).toHaveLength(1)
+  })
+
+  it('counts the rows for later pages unless the total is passed in', async () => {
+    sent = []
+    const page = await transformDuckDBResultPage(
+      recordingConnection(),
+      'SELECT * FROM range(25)',
+      { offset: 20, limit: 10 },
+      Date.now()
+    )
+    expect(page.totalCount).toBe(25)
+    expect(counted()).toHaveLength(1)
+
+    sent = []
+    await transformDuckDBResultPage(
+      recordingConnection(),
+      'SELECT * FROM range(25)',
+      { offset: 20, limit: 10, totalCount: 25 },
+      Date.now()
+    )
+    expect(counted()).toEqual([])
+  })
+})
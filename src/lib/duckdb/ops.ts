@@ -1,12 +1,54 @@
-import { Table as Arrow, Table, tableFromIPC, tableToIPC } from 'apache-arrow'
+import {
+  Table as Arrow,
+  Field,
+  Table,
+  tableFromIPC,
+  tableToIPC,
+  vectorFromArray,
+} from 'apache-arrow'
 import {
   ARROW_MIME_TYPE,
   CSV_MIME_TYPE,
+  JSON_MIME_TYPE,
   JSONObject,
+  NDJSON_MIME_TYPE,
   PARQUET_MIME_TYPE,
+  XLSX_MIME_TYPE,
 } from './types'
-import { AsyncDuckDB, AsyncDuckDBConnection } from '@duckdb/duckdb-wasm'
-import type { QueryResult, SQLError } from '@/types/sql'
+import {
+  AsyncDuckDB,
+  AsyncDuckDBConnection,
+  DuckDBDataProtocol,
+} from '@duckdb/duckdb-wasm'
+import { DuckDBType, getBaseDuckDBType } from './type-labels'
+import {
+  arrowTypeToDuckDBType,
+  DuckDBInterval,
+  formatResultValue,
+  needsValueNormalization,
+  normalizeArrowValue,
+} from './values'
+import {
+  formatIdentifier,
+  quoteIdentifier,
+  quoteLiteral,
+  quoteTableName,
+  runPreparedQuery,
+  sendQuery,
+} from './sql'
+import { parseDuckDBErrorPosition } from './diagnostics'
+import { isRowReturningQuery } from '@/lib/sql-statements'
+import type {
+  ColumnStatistics,
+  CSVImportOptions,
+  HistogramBin,
+  ImportFileFormat,
+  RemoteFileVersion,
+  QueryColumn,
+  QueryResult,
+  ResultExportFormat,
+  SQLError,
+} from '@/types/sql'
 
 /**
  * Is a given file a Parquet file?
@@ -17,6 +59,64 @@ export const isParquetFile = async (file: File): Promise<boolean> => {
   return firstBytes.startsWith('PAR1')
 }
 
+/**
+ * Detect the format of a file to import
+ *
+ * Binary formats are recognized by their magic bytes, whatever the file is
+ * called. Text files are told apart by extension, and JSON files by whether
+ * their first line is a complete JSON object (newline-delimited JSON).
+ *
+ * @returns The detected format, or null if the file cannot be imported
+ */
+export const detectFileFormat = async (
+  file: File
+): Promise<ImportFileFormat | null> => {
+  const header = new Uint8Array(await file.slice(0, 16).arrayBuffer())
+  const ascii = (start: number, end: number): string =>
+    String.fromCharCode(...header.subarray(start, end))
+
+  if (ascii(0, 4) === 'PAR1') return 'parquet'
+  // Arrow IPC files (and Feather v2) start with 'ARROW1', IPC streams with
+  // the 0xFFFFFFFF continuation marker of their first message
+  if (ascii(0, 6) === 'ARROW1') return 'arrow'
+  if (header.length >= 4 && header.subarray(0, 4).every(byte => byte === 0xff))
+    return 'arrow'
+  if (ascii(0, 16) === 'SQLite format 3\0') return 'sqlite'
+  if (ascii(8, 12) === 'DUCK') return 'duckdb'
+  // XLSX workbooks are ZIP archives
+  if (ascii(0, 4) === 'PK\x03\x04') return 'excel'
+
+  const extension = file.name.split('.').pop()?.toLowerCase()
+  if (extension === 'csv' || extension === 'tsv') return 'csv'
+  if (extension === 'ndjson' || extension === 'jsonl') return 'ndjson'
+
+  const text = (await file.slice(0, 64 * 1024).text()).trimStart()
+  if (text.startsWith('{')) {
+    try {
+      JSON.parse(text.split('\n')[0]!)
+      return 'ndjson'
+    } catch {
+      return 'json'
+    }
+  }
+  if (text.startsWith('[') || extension === 'json') return 'json'
+  if (extension === 'txt') return 'csv'
+  return null
+}
+
+/**
+ * Is a given file name a delimited text (CSV or TSV) file?
+ */
+export const isCSVFileName = (fileName: string): boolean =>
+  /\.(csv|tsv)$/i.test(fileName)
+
+/**
+ * Derive a table name from a file name (extension removed, other characters
+ * than letters, digits and underscores replaced)
+ */
+export const fileNameToTableName = (fileName: string): string =>
+  fileName.replace(/\.[^/.]+$/, '').replace(/[^a-zA-Z0-9_]/g, '_')
+
 /**
  * Create a temporary unique filename, to avoid collisions.
  */
@@ -95,7 +195,10 @@ export const exportTableToArrow = async (
 ): Promise<File> => {
   filename = filename || getExportedFilename(tableName, 'arrow')
 
-  const arrow = await runQuery(connection, `SELECT * FROM '${tableName}'`)
+  const arrow = await runQuery(
+    connection,
+    `SELECT * FROM ${quoteTableName(tableName)}`
+  )
   const buffer = arrowToArrayBuffer(arrow)
 
   return new File([buffer as unknown as ArrayBuffer], filename, {
@@ -118,7 +221,7 @@ export const exportTableToCSV = async (
   const tempFile = getTempFilename()
   await runQuery(
     connection,
-    `COPY '${tableName}' TO '${tempFile}' WITH (HEADER 1, DELIMITER '${delimiter}')`
+    `COPY ${quoteTableName(tableName)} TO ${quoteLiteral(tempFile)} WITH (HEADER 1, DELIMITER ${quoteLiteral(delimiter)})`
   )
 
   const buffer = await db.copyFileToBuffer(tempFile)
@@ -146,7 +249,7 @@ export const exportTableToParquet = async (
   const tempFile = getTempFilename()
   await runQuery(
     connection,
-    `COPY '${tableName}' TO '${tempFile}' (FORMAT PARQUET, COMPRESSION ${compression})`
+    `COPY ${quoteTableName(tableName)} TO ${quoteLiteral(tempFile)} (FORMAT PARQUET, COMPRESSION ${compression})`
   )
 
   const buffer = await db.copyFileToBuffer(tempFile)
@@ -189,12 +292,28 @@ const getExportedFilename = (tableName: string, extension: string) => {
   return basename + '.' + extension
 }
 
+const TEXT_DISPLAY_TYPES = new Set<DuckDBType>([
+  'LIST',
+  'ARRAY',
+  'STRUCT',
+  'MAP',
+  'UNION',
+  'INTERVAL',
+  'TIME',
+  'TIMETZ',
+])
+
 /**
  * Map DuckDB type to QueryResult column type
  */
 export function mapDuckDBTypeToQueryType(
   duckdbType: string
 ): 'string' | 'number' | 'boolean' | 'date' | 'binary' {
+  // Nested values, intervals and times of day are shown as text
+  if (TEXT_DISPLAY_TYPES.has(getBaseDuckDBType(duckdbType))) {
+    return 'string'
+  }
+
   const type = duckdbType.toLowerCase()
 
   if (
@@ -222,41 +341,217 @@ export function mapDuckDBTypeToQueryType(
   return 'string'
 }
 
+/**
+ * Arrow table returned by DuckDB (bundles its own apache-arrow version)
+ */
+type DuckDBResultTable = Awaited<ReturnType<AsyncDuckDBConnection['query']>>
+
+/**
+ * Convert an Arrow result table to QueryResult format
+ */
+const arrowResultToQueryResult = (
+  result: Pick<DuckDBResultTable, 'schema' | 'toArray'>,
+  startTime: number,
+  columnTypes?: string[]
+): QueryResult => {
+  const fields = result.schema.fields as unknown as Field[]
+
+  // Extract column metadata; described types are exact, Arrow types are not
+  const columns = fields.map((field, index): QueryColumn => {
+    const duckdbType =
+      columnTypes?.length === fields.length
+        ? columnTypes[index]!
+        : arrowTypeToDuckDBType(field)
+    return {
+      name: field.name,
+      type: mapDuckDBTypeToQueryType(duckdbType),
+      nullable: field.nullable,
+      duckdbType,
+    }
+  })
+
+  // Only copy rows into plain objects when some values need converting
+  const normalizedFields = fields.filter(field =>
+    needsValueNormalization(field.type)
+  )
+  const rows = result.toArray()
+  const data =
+    normalizedFields.length === 0
+      ? rows
+      : rows.map(row => {
+          const values: Record<string, unknown> = row.toJSON()
+          for (const field of normalizedFields) {
+            values[field.name] = normalizeArrowValue(
+              values[field.name],
+              field.type
+            )
+          }
+          return values
+        })
+
+  return {
+    data,
+    columns,
+    executionTime: Date.now() - startTime,
+  }
+}
+
+/**
+ * Get the DuckDB logical type of every column a plain query returns
+ *
+ * Describing a query only binds it, so this is cheap. Returns undefined for
+ * other statements or when the query cannot be described.
+ */
+const describeQueryColumnTypes = async (
+  connection: AsyncDuckDBConnection,
+  query: string,
+  params: unknown[] = []
+): Promise<string[] | undefined> => {
+  if (!isRowReturningQuery(query)) return undefined
+  try {
+    const description = await runPreparedQuery(
+      connection,
+      `DESCRIBE SELECT * FROM (\n${query}\n) AS described_result`,
+      params
+    )
+    return description.toArray().map(row => String(row.column_type))
+  } catch {
+    return undefined
+  }
+}
+
 /**
  * Transform DuckDB query result to QueryResult format
+ *
+ * @param params - Values bound to the `?` placeholders of the query
+ * @param signal - Cancels the query; once it ran, its result is returned
+ * without column types rather than dropped
  */
 export async function transformDuckDBResult(
   connection: AsyncDuckDBConnection,
   query: string,
+  startTime: number,
+  params: unknown[] = [],
+  signal?: AbortSignal
+): Promise<QueryResult> {
+  const result = await sendQuery(connection, query, params, signal)
+  const columnTypes = signal?.aborted
+    ? undefined
+    : await describeQueryColumnTypes(connection, query, params)
+  return arrowResultToQueryResult(result, startTime, columnTypes)
+}
+
+/**
+ * Options for fetching one page of a query result
+ */
+export interface QueryResultPageOptions {
+  /** Row offset of the first row to fetch */
+  offset: number
+  /** Maximum number of rows to fetch */
+  limit: number
+  /** Total row count if already known (skips the COUNT query) */
+  totalCount?: number | undefined
+  /** Values bound to the `?` placeholders of the query */
+  params?: unknown[] | undefined
+  /** Cancels fetching the page; checked before each query */
+  signal?: AbortSignal | undefined
+}
+
+/**
+ * Fetch one page of a query result
+ *
+ * The query is wrapped in a subquery with LIMIT/OFFSET so only the requested
+ * rows are materialized in JavaScript. The total row count is computed with a
+ * separate COUNT query unless it is passed in or the first page is not full.
+ * Only use this for plain queries (see `isRowReturningQuery`).
+ */
+export async function transformDuckDBResultPage(
+  connection: AsyncDuckDBConnection,
+  query: string,
+  { offset, limit, totalCount, params = [], signal }: QueryResultPageOptions,
   startTime: number
 ): Promise<QueryResult> {
-  const result = await connection.query(query)
-  const data = result.toArray()
-  const schema = result.schema
-
-  // Extract column metadata
-  const columns = schema.fields.map(field => ({
-    name: field.name,
-    type: mapDuckDBTypeToQueryType(field.type.toString()),
-    nullable: field.nullable,
-  }))
+  // Newlines keep a trailing line comment from swallowing the closing paren
+  const result = await sendQuery(
+    connection,
+    `SELECT * FROM (\n${query}\n) AS paged_result LIMIT ${limit} OFFSET ${offset}`,
+    params,
+    signal
+  )
+
+  // A first page that isn't full holds the whole result
+  let total =
+    totalCount ??
+    (offset === 0 && result.numRows < limit ? result.numRows : undefined)
+  if (total === undefined) {
+    const countResult = await sendQuery(
+      connection,
+      `SELECT COUNT(*) AS total FROM (\n${query}\n) AS counted_result`,
+      params,
+      signal
+    )
+    total = Number(countResult.toArray()[0]?.total ?? 0)
+  }
+
+  signal?.throwIfAborted()
+  const columnTypes = await describeQueryColumnTypes(connection, query, params)
 
   return {
-    data,
-    columns,
-    executionTime: Date.now() - startTime,
+    ...arrowResultToQueryResult(result, startTime, columnTypes),
+    offset,
+    totalCount: total,
+    hasMore: offset + result.numRows < total,
   }
 }
 
+/**
+ * Error types of DuckDB's error classes (the `Parser` of `Parser Error: ...`)
+ */
+const DUCKDB_ERROR_TYPES: Record<string, SQLError['type']> = {
+  Parser: 'syntax',
+  Syntax: 'syntax',
+  'Out of Memory': 'memory',
+  Permission: 'permission',
+  Connection: 'connection',
+  HTTP: 'connection',
+}
+
+const DUCKDB_ERROR_CLASS_PATTERN = /^([A-Z][A-Za-z ]*?) Error: /
+
 /**
  * Transform Error to SQLError format
+ *
+ * The type comes from DuckDB's error class, and the position DuckDB reports
+ * becomes the error's line and column.
+ *
+ * @param error - The thrown error
+ * @param sql - SQL the error was raised for, to locate it within that SQL
  */
-export function transformErrorToSQLError(error: unknown): SQLError {
+export function transformErrorToSQLError(
+  error: unknown,
+  sql?: string
+): SQLError {
+  // Errors that already follow the SQLError shape (e.g. thrown by a remote
+  // onQueryExecute implementation) are passed through unchanged
+  if (
+    error &&
+    typeof error === 'object' &&
+    !(error instanceof Error) &&
+    'type' in error &&
+    'message' in error &&
+    typeof error.message === 'string'
+  ) {
+    return error as SQLError
+  }
+
   const message = error instanceof Error ? error.message : String(error)
+  const errorClass = DUCKDB_ERROR_CLASS_PATTERN.exec(message)?.[1]
 
-  // Try to detect error type from message
   let type: SQLError['type'] = 'runtime'
-  if (message.toLowerCase().includes('syntax')) {
+  if (errorClass) {
+    type = DUCKDB_ERROR_TYPES[errorClass] ?? 'runtime'
+  } else if (message.toLowerCase().includes('syntax')) {
+    // Not a DuckDB error: guess the type from the message
     type = 'syntax'
   } else if (message.toLowerCase().includes('memory')) {
     type = 'memory'
@@ -264,12 +559,108 @@ export function transformErrorToSQLError(error: unknown): SQLError {
     type = 'connection'
   }
 
+  const position = parseDuckDBErrorPosition(message, sql)
   return {
     type,
     message,
+    ...(errorClass && { code: errorClass }),
+    ...(position && { line: position.line }),
+    ...(position?.column !== undefined && { column: position.column }),
+    ...(sql !== undefined && { statement: sql }),
   }
 }
 
+/**
+ * Whether an error reports a cancelled or timed-out query rather than a
+ * failure
+ */
+export const isQueryInterruption = (
+  error: SQLError | null | undefined
+): error is SQLError & { type: 'cancelled' | 'timeout' } =>
+  error?.type === 'cancelled' || error?.type === 'timeout'
+
+/**
+ * Options for running queries that can be interrupted
+ */
+export interface QueryInterruptOptions {
+  /** Cancels the queries when aborted */
+  signal?: AbortSignal | undefined
+  /** Milliseconds after which the queries are cancelled (0: no limit) */
+  timeoutMs?: number | undefined
+}
+
+const formatTimeout = (ms: number): string =>
+  ms % 1000 === 0 ? `${ms / 1000}s` : `${ms}ms`
+
+/**
+ * Run queries until they finish, are cancelled or time out
+ *
+ * On cancellation or timeout the pending query of the connection is
+ * interrupted with `cancelSent()`, and the signal passed to `run` is aborted
+ * so it starts no further queries. The returned promise settles once `run`
+ * has: it rejects with a `cancelled` or `timeout` SQLError when `run` stopped
+ * early, and resolves with the result when the work finished anyway
+ * (prepared statements can't be interrupted). Without a connection (remote
+ * engines) nothing can be stopped, so the result is no longer waited for.
+ *
+ * @param connection - The DuckDB connection running the queries, if any
+ * @param run - Runs the queries, checking the signal before each of them
+ * @param options - Abort signal and timeout
+ */
+export function runInterruptible<T>(
+  connection: AsyncDuckDBConnection | null | undefined,
+  run: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs = 0 }: QueryInterruptOptions = {}
+): Promise<T> {
+  const cancelled: SQLError = { type: 'cancelled', message: 'Query cancelled' }
+  if (signal?.aborted) return Promise.reject(cancelled)
+
+  return new Promise<T>((resolve, reject) => {
+    const interruption = new AbortController()
+    let interruptedBy: SQLError | null = null
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const interrupt = (error: SQLError): void => {
+      if (interruptedBy) return
+      interruptedBy = error
+      interruption.abort()
+      if (connection) {
+        connection.cancelSent().catch(() => false)
+      } else {
+        reject(error)
+      }
+    }
+    const handleAbort = (): void => interrupt(cancelled)
+    const cleanUp = (): void => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', handleAbort)
+    }
+
+    signal?.addEventListener('abort', handleAbort)
+    if (timeoutMs > 0) {
+      timer = setTimeout(
+        () =>
+          interrupt({
+            type: 'timeout',
+            message: `Query timed out after ${formatTimeout(timeoutMs)}`,
+          }),
+        timeoutMs
+      )
+    }
+
+    run(interruption.signal).then(
+      value => {
+        cleanUp()
+        resolve(value)
+      },
+      error => {
+        cleanUp()
+        reject(interruptedBy ?? error)
+      }
+    )
+  })
+}
+
 /**
  * Options for exporting QueryResult data
  */
@@ -314,7 +705,8 @@ export function exportQueryResultToCSV(
     if (!row) return []
 
     return columnIndices.map(colIndex => {
-      const value = row[result.columns[colIndex].name]
+      const column = result.columns[colIndex]
+      const value = row[column.name]
 
       // Handle BigInt
       if (typeof value === 'bigint') {
@@ -332,6 +724,13 @@ export function exportQueryResultToCSV(
         return ''
       }
 
+      // Format nested values, intervals and blobs as quoted text
+      if (typeof value === 'object' && !(value instanceof Date)) {
+        const isMap = getBaseDuckDBType(column.duckdbType ?? '') === 'MAP'
+        const escaped = formatResultValue(value, isMap).replace(/"/g, '""')
+        return `"${escaped}"`
+      }
+
       return String(value)
     })
   })
@@ -413,5 +812,845 @@ export function exportQueryResultToJSONFile(
   options?: QueryResultExportOptions
 ): File {
   const jsonContent = exportQueryResultToJSON(result, options)
-  return new File([jsonContent], filename, { type: 'application/json' })
+  return new File([jsonContent], filename, { type: JSON_MIME_TYPE })
+}
+
+/**
+ * File extension for each result export format
+ */
+export const RESULT_EXPORT_EXTENSIONS: Record<ResultExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  ndjson: 'ndjson',
+  arrow: 'arrow',
+  parquet: 'parquet',
+  excel: 'xlsx',
+}
+
+/**
+ * Resolve the columns and rows an export includes, in result order
+ */
+const getExportSelection = (
+  result: QueryResult,
+  options?: QueryResultExportOptions
+): { columns: QueryColumn[]; rows: Record<string, unknown>[] } => {
+  const { selectedColumns, selectedRows } = options || {}
+
+  const columns = selectedColumns?.length
+    ? [...selectedColumns]
+        .sort((a, b) => a - b)
+        .map(index => result.columns[index])
+        .filter((column): column is QueryColumn => !!column)
+    : result.columns
+
+  const rows = selectedRows?.length
+    ? [...selectedRows]
+        .sort((a, b) => a - b)
+        .map(index => result.data[index])
+        .filter((row): row is Record<string, unknown> => !!row)
+    : result.data
+
+  return { columns, rows }
+}
+
+/**
+ * Export QueryResult to newline-delimited JSON (one object per line)
+ */
+export function exportQueryResultToNDJSON(
+  result: QueryResult,
+  options?: QueryResultExportOptions
+): string {
+  const { columns, rows } = getExportSelection(result, options)
+
+  return rows
+    .map(row => {
+      const obj: Record<string, unknown> = {}
+      columns.forEach(column => {
+        obj[column.name] = row[column.name] ?? null
+      })
+      return JSON.stringify(obj, (_key, value) =>
+        typeof value === 'bigint' ? value.toString() : value
+      )
+    })
+    .join('\n')
+}
+
+/**
+ * Export QueryResult to NDJSON File
+ */
+export function exportQueryResultToNDJSONFile(
+  result: QueryResult,
+  filename: string,
+  options?: QueryResultExportOptions
+): File {
+  const content = exportQueryResultToNDJSON(result, options)
+  return new File([content], filename, { type: NDJSON_MIME_TYPE })
+}
+
+/**
+ * Convert a QueryResult to an Arrow table
+ *
+ * Date columns are stored as Arrow dates; other column types are inferred
+ * from the values.
+ */
+export function exportQueryResultToArrow(
+  result: QueryResult,
+  options?: QueryResultExportOptions
+): Arrow {
+  const { columns, rows } = getExportSelection(result, options)
+
+  const vectors = Object.fromEntries(
+    columns.map(column => {
+      const values = rows.map(row => {
+        const value = row[column.name] ?? null
+        if (
+          column.type === 'date' &&
+          (typeof value === 'number' || typeof value === 'string')
+        ) {
+          return new Date(value)
+        }
+        // Arrow has no type for DuckDB's month/day/time intervals
+        if (value instanceof DuckDBInterval) {
+          return value.toString()
+        }
+        return value
+      })
+      return [column.name, vectorFromArray(values)]
+    })
+  )
+
+  return new Table(vectors)
+}
+
+/**
+ * Export QueryResult to an Arrow IPC File
+ */
+export function exportQueryResultToArrowFile(
+  result: QueryResult,
+  filename: string,
+  options?: QueryResultExportOptions
+): File {
+  const buffer = tableToIPC(exportQueryResultToArrow(result, options), 'file')
+  return new File([buffer as unknown as ArrayBuffer], filename, {
+    type: ARROW_MIME_TYPE,
+  })
+}
+
+/**
+ * The DuckDB query a QueryResult was read from
+ */
+export interface QueryResultSource {
+  /** SQL of the result, with any sorting and filtering applied */
+  query: string
+  /** Values bound to the `?` placeholders of the query */
+  params?: unknown[] | undefined
+}
+
+const EXPORT_ROW_POSITION = '__export_row_position'
+
+/**
+ * Build the SELECT that reads the exported columns and rows of a result
+ * from its query
+ *
+ * Columns are referenced by position, as a result may have several columns
+ * of the same name. Selected rows are found by their position in the query
+ * result (the page offset plus their index in the page).
+ */
+const buildExportQuery = (
+  result: QueryResult,
+  query: string,
+  options?: QueryResultExportOptions
+): string => {
+  const { selectedColumns, selectedRows } = options || {}
+
+  const columnList = selectedColumns?.length
+    ? [...selectedColumns]
+        .sort((a, b) => a - b)
+        .map(index => `#${index + 1}`)
+        .join(', ')
+    : '*'
+
+  // Newlines keep a trailing line comment from swallowing the closing paren
+  if (!selectedRows?.length) {
+    return `SELECT ${columnList} FROM (\n${query}\n) AS exported_result`
+  }
+
+  const offset = result.offset ?? 0
+  const positions = [...selectedRows]
+    .sort((a, b) => a - b)
+    .map(index => offset + index)
+  return [
+    `SELECT ${columnList === '*' ? `* EXCLUDE (${EXPORT_ROW_POSITION})` : columnList} FROM (`,
+    `SELECT *, row_number() OVER () - 1 AS ${EXPORT_ROW_POSITION}`,
+    `FROM (\n${query}\n) AS exported_result`,
+    `) AS numbered_result WHERE ${EXPORT_ROW_POSITION} IN (${positions.join(', ')})`,
+  ].join('\n')
+}
+
+/**
+ * Write a QueryResult to a file through DuckDB's COPY ... TO
+ *
+ * DuckDB writes formats that are not available in JavaScript (Parquet, XLSX).
+ * With the query the result was read from, DuckDB runs it again, so the
+ * file keeps the column types of the query (decimals, huge integers, maps,
+ * intervals, timestamps with microseconds). Otherwise the rows are loaded
+ * into a temporary table through Arrow IPC, with column types inferred from
+ * their values.
+ */
+const copyQueryResultToFile = async (
+  db: AsyncDuckDB,
+  connection: AsyncDuckDBConnection,
+  result: QueryResult,
+  copyOptions: string,
+  options?: QueryResultExportOptions,
+  source?: QueryResultSource
+): Promise<Uint8Array> => {
+  const tempFile = getTempFilename()
+
+  if (source && isRowReturningQuery(source.query)) {
+    try {
+      await runPreparedQuery(
+        connection,
+        `COPY (\n${buildExportQuery(result, source.query, options)}\n) TO ${quoteLiteral(tempFile)} (${copyOptions})`,
+        source.params
+      )
+      return await db.copyFileToBuffer(tempFile)
+    } finally {
+      await db.dropFile(tempFile).catch(() => undefined)
+    }
+  }
+
+  const tempTable = getTempFilename().replace(/-/g, '_')
+  await connection.insertArrowFromIPCStream(
+    tableToIPC(exportQueryResultToArrow(result, options), 'stream'),
+    { name: tempTable, create: true }
+  )
+
+  try {
+    await runQuery(
+      connection,
+      `COPY ${quoteIdentifier(tempTable)} TO ${quoteLiteral(tempFile)} (${copyOptions})`
+    )
+    return await db.copyFileToBuffer(tempFile)
+  } finally {
+    await db.dropFile(tempFile).catch(() => undefined)
+    await runQuery(
+      connection,
+      `DROP TABLE IF EXISTS ${quoteIdentifier(tempTable)}`
+    )
+  }
+}
+
+/**
+ * Export QueryResult to a Parquet File
+ *
+ * Uses zstd compression by default, like exportTableToParquet.
+ *
+ * @param source - Query the result was read from; its rows are written by
+ * DuckDB with their original types
+ */
+export async function exportQueryResultToParquetFile(
+  db: AsyncDuckDB,
+  connection: AsyncDuckDBConnection,
+  result: QueryResult,
+  filename: string,
+  options?: QueryResultExportOptions,
+  compression: 'uncompressed' | 'snappy' | 'gzip' | 'zstd' = 'zstd',
+  source?: QueryResultSource
+): Promise<File> {
+  const buffer = await copyQueryResultToFile(
+    db,
+    connection,
+    result,
+    `FORMAT PARQUET, COMPRESSION ${compression}`,
+    options,
+    source
+  )
+  return new File([buffer as unknown as ArrayBuffer], filename, {
+    type: PARQUET_MIME_TYPE,
+  })
+}
+
+/**
+ * Export QueryResult to an Excel (XLSX) File
+ *
+ * Requires DuckDB's excel extension, which is installed and loaded on first
+ * use.
+ *
+ * @param source - Query the result was read from; its rows are written by
+ * DuckDB with their original types
+ */
+export async function exportQueryResultToExcelFile(
+  db: AsyncDuckDB,
+  connection: AsyncDuckDBConnection,
+  result: QueryResult,
+  filename: string,
+  options?: QueryResultExportOptions,
+  source?: QueryResultSource
+): Promise<File> {
+  await runQuery(connection, 'INSTALL excel')
+  await runQuery(connection, 'LOAD excel')
+
+  const buffer = await copyQueryResultToFile(
+    db,
+    connection,
+    result,
+    'FORMAT XLSX, HEADER true',
+    options,
+    source
+  )
+  return new File([buffer as unknown as ArrayBuffer], filename, {
+    type: XLSX_MIME_TYPE,
+  })
+}
+
+/**
+ * Export QueryResult to a File in any supported format
+ *
+ * Parquet and Excel exports are written by DuckDB and need `db` and
+ * `connection`, plus the `source` query of the result to keep its column
+ * types.
+ */
+export async function exportQueryResultToFile(
+  result: QueryResult,
+  format: ResultExportFormat,
+  filename: string,
+  options?: QueryResultExportOptions,
+  duckdb?: {
+    db: AsyncDuckDB
+    connection: AsyncDuckDBConnection
+    source?: QueryResultSource | undefined
+  }
+): Promise<File> {
+  switch (format) {
+    case 'csv':
+      return exportQueryResultToCSVFile(result, filename, options)
+    case 'json':
+      return exportQueryResultToJSONFile(result, filename, options)
+    case 'ndjson':
+      return exportQueryResultToNDJSONFile(result, filename, options)
+    case 'arrow':
+      return exportQueryResultToArrowFile(result, filename, options)
+    case 'parquet':
+    case 'excel':
+      if (!duckdb) {
+        throw new Error(`Exporting ${format} requires a DuckDB connection`)
+      }
+      return format === 'parquet'
+        ? exportQueryResultToParquetFile(
+            duckdb.db,
+            duckdb.connection,
+            result,
+            filename,
+            options,
+            'zstd',
+            duckdb.source
+          )
+        : exportQueryResultToExcelFile(
+            duckdb.db,
+            duckdb.connection,
+            result,
+            filename,
+            options,
+            duckdb.source
+          )
+    default:
+      throw new Error(`Unsupported format: ${format}`)
+  }
+}
+
+/**
+ * DuckDB table functions that can read a remote file in place, by extension
+ */
+const REMOTE_FILE_READERS: Record<string, string> = {
+  parquet: 'read_parquet',
+  csv: 'read_csv',
+  tsv: 'read_csv',
+  json: 'read_json',
+  jsonl: 'read_json',
+  ndjson: 'read_json',
+}
+
+/**
+ * Create a view over a remote file instead of importing it
+ *
+ * The URL is registered with DuckDB's HTTP file system, so queries on the view
+ * use range requests and only fetch what they need (for Parquet, the footer
+ * plus the row groups and columns a query touches). CSV and JSON files are
+ * read in full by every query.
+ *
+ * @param db - The DuckDB instance
+ * @param connection - Connection used to create the view
+ * @param viewName - Name of the view to create (replaced if it exists)
+ * @param url - Absolute or page-relative URL of a Parquet, CSV or JSON file
+ */
+export async function createRemoteFileView(
+  db: AsyncDuckDB,
+  connection: AsyncDuckDBConnection,
+  viewName: string,
+  url: string
+): Promise<void> {
+  const href = new URL(url, globalThis.location?.href).href
+  const extension = new URL(href).pathname.split('.').pop()?.toLowerCase()
+  const reader = extension && REMOTE_FILE_READERS[extension]
+  if (!reader) {
+    throw new Error(
+      `Cannot create a view over ${url}: only Parquet, CSV and JSON files can be queried remotely`
+    )
+  }
+
+  await db.registerFileURL(href, href, DuckDBDataProtocol.HTTP, false)
+  await connection.query(
+    `CREATE OR REPLACE VIEW ${quoteTableName(viewName)} AS SELECT * FROM ${reader}(${quoteLiteral(href)})`
+  )
+}
+
+/**
+ * Download a remote file, unless it is unchanged since a previous download
+ *
+ * With a `version`, the request is conditional (If-None-Match /
+ * If-Modified-Since) and a `304 Not Modified` response resolves to null.
+ *
+ * @param url - URL of the file
+ * @param version - Validators of the previous download
+ * @returns The file (named after the last URL path segment) and its
+ * validators, or null if it has not changed
+ */
+export async function fetchRemoteFile(
+  url: string,
+  version?: RemoteFileVersion
+): Promise<{ file: File; version: RemoteFileVersion } | null> {
+  const headers: Record<string, string> = {}
+  if (version?.etag) headers['If-None-Match'] = version.etag
+  if (version?.lastModified) headers['If-Modified-Since'] = version.lastModified
+
+  const response = await fetch(url, { headers })
+  if (response.status === 304) return null
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch ${url}: ${response.status} ${response.statusText}`
+    )
+  }
+
+  const blob = await response.blob()
+  const fileName =
+    new URL(url, globalThis.location?.href).pathname.split('/').pop() || url
+  const etag = response.headers.get('ETag')
+  const lastModified = response.headers.get('Last-Modified')
+  return {
+    file: new File([blob], fileName, { type: blob.type || 'text/csv' }),
+    version: {
+      ...(etag && { etag }),
+      ...(lastModified && { lastModified }),
+    },
+  }
+}
+
+/**
+ * Build the `read_csv(...)` call for a registered CSV file
+ *
+ * Column names and types are always passed explicitly, so the header row (if
+ * any) is skipped and the given names win.
+ *
+ * @param fileName - Name the file is registered under
+ * @param options - Dialect and columns, e.g. from `sniffCSVFile`
+ */
+export function buildReadCSVQuery(
+  fileName: string,
+  options: CSVImportOptions
+): string {
+  const parameters = [
+    quoteLiteral(fileName),
+    `delim=${quoteLiteral(options.delimiter)}`,
+    `quote=${quoteLiteral(options.quote)}`,
+    `escape=${quoteLiteral(options.escape)}`,
+    `header=${options.header}`,
+    `skip=${Math.max(0, Math.floor(options.skipRows))}`,
+  ]
+  if (options.dateFormat) {
+    parameters.push(`dateformat=${quoteLiteral(options.dateFormat)}`)
+  }
+  if (options.timestampFormat) {
+    parameters.push(`timestampformat=${quoteLiteral(options.timestampFormat)}`)
+  }
+  if (options.columns.length > 0) {
+    const columns = options.columns.map(
+      column => `${quoteLiteral(column.name)}: ${quoteLiteral(column.type)}`
+    )
+    parameters.push(`columns={${columns.join(', ')}}`)
+  }
+  return `read_csv(${parameters.join(', ')})`
+}
+
+/**
+ * Detect the dialect and column types of a registered CSV file with DuckDB's
+ * CSV sniffer
+ *
+ * @param connection - The DuckDB connection
+ * @param fileName - Name the file is registered under
+ * @param dialect - Dialect settings to keep instead of detecting them
+ * @returns Import options describing the file
+ */
+export async function sniffCSVFile(
+  connection: AsyncDuckDBConnection,
+  fileName: string,
+  dialect?: Partial<
+    Pick<
+      CSVImportOptions,
+      'delimiter' | 'quote' | 'escape' | 'header' | 'skipRows'
+    >
+  >
+): Promise<CSVImportOptions> {
+  const parameters = [quoteLiteral(fileName)]
+  if (dialect?.delimiter) {
+    parameters.push(`delim=${quoteLiteral(dialect.delimiter)}`)
+  }
+  if (dialect?.quote !== undefined) {
+    parameters.push(`quote=${quoteLiteral(dialect.quote)}`)
+  }
+  if (dialect?.escape !== undefined) {
+    parameters.push(`escape=${quoteLiteral(dialect.escape)}`)
+  }
+  if (dialect?.header !== undefined) {
+    parameters.push(`header=${dialect.header}`)
+  }
+  if (dialect?.skipRows !== undefined) {
+    parameters.push(`skip=${Math.max(0, Math.floor(dialect.skipRows))}`)
+  }
+
+  const result = await connection.query(
+    `SELECT Delimiter, Quote, Escape, SkipRows, HasHeader, DateFormat, TimestampFormat, to_json(Columns) AS Columns FROM sniff_csv(${parameters.join(', ')})`
+  )
+  const row = result.toArray()[0]
+  if (!row) {
+    throw new Error(`Could not detect the CSV dialect of ${fileName}`)
+  }
+
+  // The sniffer reports a missing quote or escape character as NUL
+  const character = (value: unknown): string =>
+    typeof value === 'string' ? value.replace(/\0/g, '') : ''
+  const columns = JSON.parse(String(row.Columns)) as CSVImportOptions['columns']
+
+  return {
+    delimiter: character(row.Delimiter) || ',',
+    quote: character(row.Quote),
+    escape: character(row.Escape),
+    header: Boolean(row.HasHeader),
+    skipRows: Number(row.SkipRows ?? 0),
+    ...(row.DateFormat && { dateFormat: String(row.DateFormat) }),
+    ...(row.TimestampFormat && {
+      timestampFormat: String(row.TimestampFormat),
+    }),
+    columns: columns.map(column => ({ name: column.name, type: column.type })),
+  }
+}
+
+/**
+ * Read the local file header and data of a ZIP archive entry
+ */
+const readZipEntry = async (
+  bytes: Uint8Array,
+  view: DataView,
+  localHeaderOffset: number,
+  compressedSize: number,
+  compressionMethod: number
+): Promise<string> => {
+  const nameLength = view.getUint16(localHeaderOffset + 26, true)
+  const extraLength = view.getUint16(localHeaderOffset + 28, true)
+  const start = localHeaderOffset + 30 + nameLength + extraLength
+  const data = bytes.slice(start, start + compressedSize)
+
+  // 0 = stored, 8 = deflated
+  if (compressionMethod === 0) return new TextDecoder().decode(data)
+  if (compressionMethod !== 8) {
+    throw new Error(`Unsupported ZIP compression method ${compressionMethod}`)
+  }
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Response(stream).text()
+}
+
+/**
+ * List the sheet names of an Excel (XLSX) workbook, in workbook order
+ *
+ * Only the ZIP central directory and `xl/workbook.xml` are read; the sheets
+ * themselves are imported by DuckDB's excel extension.
+ */
+export async function listExcelSheets(file: Blob): Promise<string[]> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+  // The end of central directory record is at most 64 KiB of comment away
+  // from the end of the archive
+  let endOfDirectory = -1
+  for (
+    let offset = bytes.length - 22;
+    offset >= Math.max(0, bytes.length - 22 - 0xffff);
+    offset--
+  ) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      endOfDirectory = offset
+      break
+    }
+  }
+  if (endOfDirectory < 0) {
+    throw new Error('Not an Excel workbook: the ZIP directory is missing')
+  }
+
+  const entryCount = view.getUint16(endOfDirectory + 10, true)
+  let offset = view.getUint32(endOfDirectory + 16, true)
+  for (let index = 0; index < entryCount; index++) {
+    const nameLength = view.getUint16(offset + 28, true)
+    const name = new TextDecoder().decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength)
+    )
+    if (name === 'xl/workbook.xml') {
+      const xml = await readZipEntry(
+        bytes,
+        view,
+        view.getUint32(offset + 42, true),
+        view.getUint32(offset + 20, true),
+        view.getUint16(offset + 10, true)
+      )
+      const decodeEntities = (value: string): string =>
+        value
+          .replace(/&lt;/g, '<')
+          .replace(/&gt;/g, '>')
+          .replace(/&quot;/g, '"')
+          .replace(/&apos;/g, "'")
+          .replace(/&amp;/g, '&')
+      return Array.from(
+        xml.matchAll(/<(?:\w+:)?sheet\b[^>]*?\bname="([^"]*)"/g),
+        match => decodeEntities(match[1]!)
+      )
+    }
+    offset +=
+      46 +
+      nameLength +
+      view.getUint16(offset + 30, true) +
+      view.getUint16(offset + 32, true)
+  }
+  throw new Error('Not an Excel workbook: xl/workbook.xml is missing')
+}
+
+/**
+ * Options of `importFileToTable`
+ */
+export interface FileImportOptions {
+  /** Dialect and columns of a CSV file (detected by DuckDB when omitted) */
+  csv?: CSVImportOptions | undefined
+  /** Sheet of an Excel workbook to import (default: the first sheet) */
+  sheet?: string | undefined
+}
+
+/**
+ * Create a table from a file registered with DuckDB
+ *
+ * Excel workbooks need DuckDB's excel extension, which is installed and
+ * loaded on first use. Arrow IPC files are inserted directly from `bytes`.
+ * Database files cannot be imported as a single table; use
+ * `attachDatabaseFile` for those.
+ *
+ * @param connection - The DuckDB connection
+ * @param fileName - Name the file is registered under
+ * @param bytes - Content of the file
+ * @param format - Format of the file, e.g. from `detectFileFormat`
+ * @param tableName - Name of the table to create
+ * @param options - Format specific options
+ */
+export async function importFileToTable(
+  connection: AsyncDuckDBConnection,
+  fileName: string,
+  bytes: Uint8Array,
+  format: ImportFileFormat,
+  tableName: string,
+  options: FileImportOptions = {}
+): Promise<void> {
+  if (format === 'arrow') {
+    // Re-encode as a stream: DuckDB only reads the IPC stream format
+    await connection.insertArrowFromIPCStream(
+      tableToIPC(tableFromIPC(bytes), 'stream'),
+      { name: tableName, create: true }
+    )
+    return
+  }
+
+  let reader: string
+  switch (format) {
+    case 'csv':
+      reader = options.csv
+        ? buildReadCSVQuery(fileName, options.csv)
+        : `read_csv(${quoteLiteral(fileName)})`
+      break
+    case 'parquet':
+      reader = `read_parquet(${quoteLiteral(fileName)})`
+      break
+    case 'json':
+      reader = `read_json(${quoteLiteral(fileName)}, AUTO_DETECT=TRUE)`
+      break
+    case 'ndjson':
+      reader = `read_json(${quoteLiteral(fileName)}, format='newline_delimited')`
+      break
+    case 'excel':
+      await runQuery(connection, 'INSTALL excel')
+      await runQuery(connection, 'LOAD excel')
+      reader = options.sheet
+        ? `read_xlsx(${quoteLiteral(fileName)}, sheet=${quoteLiteral(options.sheet)})`
+        : `read_xlsx(${quoteLiteral(fileName)})`
+      break
+    default:
+      throw new Error(`Cannot import a ${format} file as a table: ${fileName}`)
+  }
+
+  await connection.query(
+    `CREATE TABLE ${quoteTableName(tableName)} AS SELECT * FROM ${reader}`
+  )
+}
+
+/**
+ * Attach a registered DuckDB or SQLite database file (read-only)
+ *
+ * SQLite files need DuckDB's sqlite extension, which is installed and loaded
+ * on first use.
+ *
+ * @param connection - The DuckDB connection
+ * @param fileName - Name the file is registered under
+ * @param alias - Catalog name of the attached database
+ * @param format - 'duckdb' or 'sqlite'
+ * @returns Qualified names (`alias.table` or `alias.schema.table`) of the
+ * tables and views of the database
+ */
+export async function attachDatabaseFile(
+  connection: AsyncDuckDBConnection,
+  fileName: string,
+  alias: string,
+  format: Extract<ImportFileFormat, 'duckdb' | 'sqlite'>
+): Promise<string[]> {
+  if (format === 'sqlite') {
+    await runQuery(connection, 'INSTALL sqlite')
+    await runQuery(connection, 'LOAD sqlite')
+  }
+  const catalog = formatIdentifier(alias)
+  await connection.query(
+    `ATTACH ${quoteLiteral(fileName)} AS ${catalog} (READ_ONLY${format === 'sqlite' ? ', TYPE sqlite' : ''})`
+  )
+
+  const result = await runPreparedQuery(
+    connection,
+    'SELECT table_schema, table_name FROM information_schema.tables WHERE table_catalog = ? ORDER BY table_schema, table_name',
+    [alias]
+  )
+  return result.toArray().map(row => {
+    const schema = String(row.table_schema)
+    const table = formatIdentifier(String(row.table_name))
+    return schema === 'main'
+      ? `${catalog}.${table}`
+      : `${catalog}.${formatIdentifier(schema)}.${table}`
+  })
+}
+
+/**
+ * Replace the content of a table with a file, atomically
+ *
+ * The file is imported into a staging table first; the table is then
+ * replaced in a single `CREATE OR REPLACE TABLE` statement, so queries see
+ * either the old or the new rows, never a partially imported table. If the
+ * import fails, the table is left untouched.
+ *
+ * @param db - The DuckDB instance
+ * @param connection - The DuckDB connection
+ * @param tableName - Table to replace
+ * @param file - New content of the table
+ * @param format - Format of the file, e.g. from `detectFileFormat`
+ * @param options - Format specific options
+ */
+export async function replaceTableFromFile(
+  db: AsyncDuckDB,
+  connection: AsyncDuckDBConnection,
+  tableName: string,
+  file: File,
+  format: ImportFileFormat,
+  options: FileImportOptions = {}
+): Promise<void> {
+  const stagingName = getTempFilename().replace(/-/g, '_')
+  const stagingFileName = `${stagingName}_${file.name}`
+  const bytes = new Uint8Array(await file.arrayBuffer())
+
+  // The buffer is transferred to the worker, so Arrow files (inserted from
+  // the bytes) are not registered
+  if (format !== 'arrow') {
+    await db.registerFileBuffer(stagingFileName, bytes)
+  }
+  try {
+    await importFileToTable(
+      connection,
+      stagingFileName,
+      bytes,
+      format,
+      stagingName,
+      options
+    )
+    await connection.query(
+      `CREATE OR REPLACE TABLE ${quoteTableName(tableName)} AS SELECT * FROM ${quoteIdentifier(stagingName)}`
+    )
+  } finally {
+    await connection.query(
+      `DROP TABLE IF EXISTS ${quoteIdentifier(stagingName)}`
+    )
+    if (format !== 'arrow') {
+      await db.dropFile(stagingFileName)
+    }
+  }
+}
+
+/**
+ * Get column statistics of a table with DuckDB's `SUMMARIZE`
+ *
+ * @param connection - The DuckDB connection
+ * @param tableName - Table or view to summarize
+ * @returns Statistics of every column, in table order
+ */
+export async function summarizeTable(
+  connection: AsyncDuckDBConnection,
+  tableName: string
+): Promise<ColumnStatistics[]> {
+  const result = await connection.query(
+    `SELECT column_name, column_type, min, max, approx_unique, CAST(null_percentage AS DOUBLE) AS null_percentage, count FROM (SUMMARIZE ${quoteTableName(tableName)})`
+  )
+  return result.toArray().map(row => ({
+    name: String(row.column_name),
+    type: String(row.column_type),
+    min: row.min === null ? null : String(row.min),
+    max: row.max === null ? null : String(row.max),
+    distinctCount: Number(row.approx_unique ?? 0),
+    nullPercentage: Number(row.null_percentage ?? 0),
+    count: Number(row.count ?? 0),
+  }))
+}
+
+/**
+ * Get the histogram of a column with DuckDB's `histogram` table function
+ *
+ * Numeric and temporal columns are split into equal-width bins; other columns
+ * are counted per value (most frequent values first).
+ *
+ * @param connection - The DuckDB connection
+ * @param tableName - Table or view of the column
+ * @param columnName - Unquoted column name
+ * @param binCount - Maximum number of bins
+ */
+export async function getColumnHistogram(
+  connection: AsyncDuckDBConnection,
+  tableName: string,
+  columnName: string,
+  binCount = 10
+): Promise<HistogramBin[]> {
+  const result = await connection.query(
+    `SELECT bin, count FROM histogram(${quoteTableName(tableName)}, ${quoteIdentifier(columnName)}, bin_count := ${Math.max(1, Math.floor(binCount))})`
+  )
+  return result.toArray().map(row => ({
+    label: String(row.bin),
+    count: Number(row.count),
+  }))
 }
@@ -0,0 +1,157 @@
+/**
+ * Query Plans
+ *
+ * Explains statements with DuckDB's JSON output (`EXPLAIN (FORMAT json)` and
+ * `EXPLAIN (ANALYZE, FORMAT json)`) and reads the operator tree from it, with
+ * the time and rows of each operator when the statement ran.
+ */
+
+import { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm'
+import { isRowReturningQuery } from '@/lib/sql-statements'
+import type { QueryPlan, QueryPlanOperator } from '@/types/sql'
+
+type JSONRecord = Record<string, unknown>
+
+const isRecord = (value: unknown): value is JSONRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const optionalNumber = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null
+
+/**
+ * Operator details as text: lists are shown one entry per line
+ */
+function readExtraInfo(value: unknown): Record<string, string> {
+  if (typeof value === 'string') {
+    return value.trim() ? { Info: value.trim() } : {}
+  }
+  if (!isRecord(value)) return {}
+  return Object.fromEntries(
+    Object.entries(value).map(([key, info]) => [
+      key,
+      Array.isArray(info) ? info.map(String).join('\n') : String(info),
+    ])
+  )
+}
+
+/**
+ * Read an operator and its children; DuckDB versions differ in the names of
+ * the fields (`operator_name` or `name`, `operator_timing` or `timing`)
+ */
+function readOperator(node: JSONRecord, id: string): QueryPlanOperator {
+  const children = Array.isArray(node.children) ? node.children : []
+  return {
+    id,
+    name: String(node.operator_name ?? node.operator_type ?? node.name ?? '?'),
+    timing: optionalNumber(node.operator_timing ?? node.timing),
+    cardinality: optionalNumber(node.operator_cardinality ?? node.cardinality),
+    extraInfo: readExtraInfo(node.extra_info),
+    children: children
+      .filter(isRecord)
+      .map((child, index) => readOperator(child, `${id}.${index}`)),
+  }
+}
+
+/**
+ * Read a query plan from DuckDB's JSON explain output
+ *
+ * Profiling output (`EXPLAIN ANALYZE`) has a query-level root with the total
+ * latency and the operators as its children; a plain `EXPLAIN` is a list of
+ * root operators.
+ *
+ * @param raw - JSON text of the plan
+ * @param sql - The explained statement
+ * @param analyzed - Whether the statement ran
+ */
+export function parseQueryPlan(
+  raw: string,
+  sql: string,
+  analyzed: boolean
+): QueryPlan {
+  const parsed: unknown = JSON.parse(raw)
+  const isQueryRoot =
+    isRecord(parsed) &&
+    ('query_name' in parsed || 'latency' in parsed || 'result' in parsed)
+  const roots = Array.isArray(parsed)
+    ? parsed
+    : isQueryRoot && Array.isArray(parsed.children)
+      ? parsed.children
+      : [parsed]
+
+  return {
+    sql,
+    analyzed,
+    latency: isQueryRoot
+      ? optionalNumber(parsed.latency ?? parsed.result ?? parsed.timing)
+      : null,
+    operators: roots
+      .filter(isRecord)
+      .map((root, index) => readOperator(root, String(index))),
+    raw,
+  }
+}
+
+/**
+ * Explain a statement
+ *
+ * Queries are profiled with `EXPLAIN ANALYZE`, which runs them to measure
+ * each operator. Other statements would change data when run, so by default
+ * only their plan is shown.
+ *
+ * @param connection - The DuckDB connection
+ * @param sql - A single SQL statement
+ * @param analyze - Whether to run the statement to profile it
+ */
+export async function explainQuery(
+  connection: AsyncDuckDBConnection,
+  sql: string,
+  analyze = isRowReturningQuery(sql)
+): Promise<QueryPlan> {
+  const result = await connection.query(
+    `EXPLAIN (${analyze ? 'ANALYZE, ' : ''}FORMAT json) ${sql}`
+  )
+  const rows = result.toArray()
+  const raw = rows[rows.length - 1]?.explain_value
+  if (raw === undefined || raw === null) {
+    throw new Error('DuckDB returned no query plan')
+  }
+  return parseQueryPlan(String(raw), sql, analyze)
+}
+
+/**
+ * All operators of a plan, parents before their children
+ */
+export function flattenQueryPlan(
+  operators: QueryPlanOperator[]
+): QueryPlanOperator[] {
+  return operators.flatMap(operator => [
+    operator,
+    ...flattenQueryPlan(operator.children),
+  ])
+}
+
+/**
+ * Seconds spent in an operator and everything feeding into it
+ */
+export function getSubtreeTiming(operator: QueryPlanOperator): number {
+  return operator.children.reduce(
+    (total, child) => total + getSubtreeTiming(child),
+    operator.timing ?? 0
+  )
+}
+
+/**
+ * The operators the query spent the most time in
+ *
+ * @param plan - An analyzed query plan
+ * @param limit - Number of operators to return
+ */
+export function getHottestOperators(
+  plan: QueryPlan,
+  limit = 5
+): QueryPlanOperator[] {
+  return flattenQueryPlan(plan.operators)
+    .filter(operator => (operator.timing ?? 0) > 0)
+    .sort((a, b) => (b.timing ?? 0) - (a.timing ?? 0))
+    .slice(0, limit)
+}
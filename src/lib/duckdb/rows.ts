@@ -0,0 +1,225 @@
+/**
+ * Row Ingestion
+ *
+ * Converts JavaScript row objects into typed Arrow tables, so rows passed to
+ * the cockpit keep their numbers, booleans, dates and nested values when they
+ * are inserted into DuckDB.
+ */
+
+import {
+  Binary,
+  Bool,
+  DataType,
+  Field,
+  Float64,
+  Int32,
+  Int64,
+  List,
+  RecordBatch,
+  Schema,
+  Struct,
+  Table,
+  TimestampMillisecond,
+  Utf8,
+  makeBuilder,
+  makeData,
+  tableToIPC,
+} from 'apache-arrow'
+import { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm'
+import { quoteTableName } from './sql'
+
+const INT32_MIN = -(2 ** 31)
+const INT32_MAX = 2 ** 31 - 1
+
+/**
+ * Options of `rowsToArrowTable`
+ */
+export interface RowsToArrowOptions {
+  /** Columns in table order (default: keys of the rows, in first-seen order) */
+  columns?: string[] | undefined
+  /** Arrow schema to use instead of inferring column types from the values */
+  schema?: Schema | undefined
+}
+
+const isPresent = (value: unknown): boolean =>
+  value !== null && value !== undefined
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Date) &&
+  !(value instanceof Uint8Array)
+
+/**
+ * Collect object keys in first-seen order
+ */
+const collectKeys = (objects: Record<string, unknown>[]): string[] => {
+  const keys = new Set<string>()
+  for (const object of objects) {
+    for (const key of Object.keys(object)) keys.add(key)
+  }
+  return [...keys]
+}
+
+/**
+ * Infer the Arrow type of a column from its values
+ *
+ * Integers become INTEGER (or BIGINT when out of range or given as bigint),
+ * other numbers DOUBLE, dates TIMESTAMP, byte arrays BLOB, arrays LIST and
+ * plain objects STRUCT. Columns with mixed or no values become VARCHAR.
+ *
+ * @param values - Values of the column (nulls are ignored)
+ */
+export function inferArrowType(values: unknown[]): DataType {
+  const present = values.filter(isPresent)
+  if (present.length === 0) return new Utf8()
+
+  if (present.every(value => typeof value === 'boolean')) return new Bool()
+  if (present.every(value => typeof value === 'string')) return new Utf8()
+  if (
+    present.every(
+      value => typeof value === 'number' || typeof value === 'bigint'
+    )
+  ) {
+    const isIntegral = present.every(
+      value => typeof value === 'bigint' || Number.isInteger(value)
+    )
+    if (!isIntegral) return new Float64()
+    const fitsInt32 = present.every(
+      value =>
+        typeof value === 'number' && value >= INT32_MIN && value <= INT32_MAX
+    )
+    return fitsInt32 ? new Int32() : new Int64()
+  }
+  if (present.every(value => value instanceof Date)) {
+    return new TimestampMillisecond()
+  }
+  if (present.every(value => value instanceof Uint8Array)) return new Binary()
+  if (present.every(Array.isArray)) {
+    const items = (present as unknown[][]).flat()
+    return new List(new Field('item', inferArrowType(items), true))
+  }
+  if (present.every(isPlainObject)) {
+    const objects = present as Record<string, unknown>[]
+    const keys = collectKeys(objects)
+    // DuckDB has no empty STRUCT; such objects are kept as JSON text
+    if (keys.length === 0) return new Utf8()
+    return new Struct(
+      keys.map(
+        key =>
+          new Field(
+            key,
+            inferArrowType(objects.map(object => object[key])),
+            true
+          )
+      )
+    )
+  }
+  return new Utf8()
+}
+
+/**
+ * Convert a value to what the Arrow builder of `type` expects
+ */
+const toArrowValue = (value: unknown, type: DataType): unknown => {
+  if (!isPresent(value)) return null
+
+  if (DataType.isUtf8(type) || DataType.isLargeUtf8(type)) {
+    if (typeof value === 'string') return value
+    if (value instanceof Date) return value.toISOString()
+    return typeof value === 'object' ? JSON.stringify(value) : String(value)
+  }
+  if (DataType.isBool(type)) return Boolean(value)
+  if (DataType.isInt(type)) {
+    return type.bitWidth === 64
+      ? BigInt(value as number | bigint | string)
+      : Number(value)
+  }
+  if (DataType.isFloat(type)) return Number(value)
+  if (DataType.isTimestamp(type) || DataType.isDate(type)) {
+    return value instanceof Date
+      ? value.getTime()
+      : new Date(value as string | number).getTime()
+  }
+  if (DataType.isList(type) || DataType.isFixedSizeList(type)) {
+    const itemType = type.children[0]!.type
+    return Array.isArray(value)
+      ? value.map(item => toArrowValue(item, itemType))
+      : [toArrowValue(value, itemType)]
+  }
+  if (DataType.isStruct(type)) {
+    const object = isPlainObject(value) ? value : {}
+    return Object.fromEntries(
+      type.children.map(field => [
+        field.name,
+        toArrowValue(object[field.name], field.type),
+      ])
+    )
+  }
+  return value
+}
+
+/**
+ * Convert row objects into an Arrow table
+ *
+ * Column types are inferred from the values (see `inferArrowType`) unless a
+ * schema is given; values are converted to the column type, so e.g. numbers
+ * in a VARCHAR column become text.
+ *
+ * @param rows - Row objects
+ * @param options - Column order and schema
+ */
+export function rowsToArrowTable(
+  rows: Record<string, unknown>[],
+  options: RowsToArrowOptions = {}
+): Table {
+  const fields =
+    options.schema?.fields ??
+    (options.columns ?? collectKeys(rows)).map(
+      column =>
+        new Field(column, inferArrowType(rows.map(row => row[column])), true)
+    )
+
+  const children = fields.map(field => {
+    const builder = makeBuilder({
+      type: field.type,
+      nullValues: [null, undefined],
+    })
+    for (const row of rows) {
+      builder.append(toArrowValue(row[field.name], field.type))
+    }
+    return builder.finish().flush()
+  })
+
+  const schema = new Schema(fields)
+  const data = makeData({
+    type: new Struct(fields),
+    length: rows.length,
+    nullCount: 0,
+    children,
+  })
+  return new Table([new RecordBatch(schema, data)])
+}
+
+/**
+ * Create a table from row objects, replacing any existing table of that name
+ *
+ * @param connection - The DuckDB connection
+ * @param tableName - Name of the table to create
+ * @param rows - Row objects
+ * @param options - Column order and schema, see `rowsToArrowTable`
+ */
+export async function createTableFromRows(
+  connection: AsyncDuckDBConnection,
+  tableName: string,
+  rows: Record<string, unknown>[],
+  options: RowsToArrowOptions = {}
+): Promise<void> {
+  const table = rowsToArrowTable(rows, options)
+  await connection.query(`DROP TABLE IF EXISTS ${quoteTableName(tableName)}`)
+  await connection.insertArrowFromIPCStream(tableToIPC(table, 'stream'), {
+    name: tableName,
+    create: true,
+  })
+}
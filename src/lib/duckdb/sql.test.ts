@@ -0,0 +1,192 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { resolve } from 'path'
+import type { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm'
+import {
+  ConsoleLogger,
+  createDuckDB,
+  DuckDBBindings,
+  DuckDBConnection,
+  LogLevel,
+  NODE_RUNTIME,
+} from '@duckdb/duckdb-wasm/blocking'
+import {
+  formatIdentifier,
+  quoteIdentifier,
+  quoteLiteral,
+  quoteTableName,
+  runPreparedQuery,
+} from './sql'
+
+const HOSTILE_NAMES = [
+  'my table',
+  'my "table"',
+  "it's",
+  '"; DROP TABLE users; --',
+  "'); DROP TABLE users; --",
+  'select',
+  'Order',
+  'données',
+  '売上 2024',
+  '🦆',
+  'sales.2024',
+  ' ',
+]
+
+describe('quoteIdentifier', () => {
+  it('wraps names in double quotes', () => {
+    expect(quoteIdentifier('users')).toBe('"users"')
+    expect(quoteIdentifier('my table')).toBe('"my table"')
+  })
+
+  it('doubles embedded double quotes', () => {
+    expect(quoteIdentifier('my "table"')).toBe('"my ""table"""')
+    expect(quoteIdentifier('"')).toBe('""""')
+  })
+
+  it('keeps single quotes, dots and unicode as they are', () => {
+    expect(quoteIdentifier("it's")).toBe('"it\'s"')
+    expect(quoteIdentifier('a.b')).toBe('"a.b"')
+    expect(quoteIdentifier('売上 2024')).toBe('"売上 2024"')
+  })
+})
+
+describe('formatIdentifier', () => {
+  it('keeps plain names unquoted', () => {
+    expect(formatIdentifier('users')).toBe('users')
+    expect(formatIdentifier('_order_2')).toBe('_order_2')
+  })
+
+  it('quotes reserved words in any case', () => {
+    expect(formatIdentifier('select')).toBe('"select"')
+    expect(formatIdentifier('Order')).toBe('"Order"')
+    expect(formatIdentifier('TABLE')).toBe('"TABLE"')
+  })
+
+  it('quotes names that are not plain identifiers', () => {
+    expect(formatIdentifier('my table')).toBe('"my table"')
+    expect(formatIdentifier('2024')).toBe('"2024"')
+    expect(formatIdentifier('données')).toBe('"données"')
+    expect(formatIdentifier('a.b')).toBe('"a.b"')
+    expect(formatIdentifier('my "table"')).toBe('"my ""table"""')
+  })
+})
+
+describe('quoteLiteral', () => {
+  it('doubles embedded single quotes', () => {
+    expect(quoteLiteral("it's")).toBe("'it''s'")
+    expect(quoteLiteral("''")).toBe("''''''")
+  })
+
+  it('keeps double quotes, backslashes and unicode as they are', () => {
+    expect(quoteLiteral('say "hi"')).toBe('\'say "hi"\'')
+    expect(quoteLiteral('C:\\data\\')).toBe("'C:\\data\\'")
+    expect(quoteLiteral('données.csv')).toBe("'données.csv'")
+  })
+})
+
+describe('quoteTableName', () => {
+  it('formats single names like identifiers', () => {
+    expect(quoteTableName('users')).toBe('users')
+    expect(quoteTableName('order')).toBe('"order"')
+    expect(quoteTableName('my table')).toBe('"my table"')
+    expect(quoteTableName('my "table"')).toBe('"my ""table"""')
+    expect(quoteTableName('売上')).toBe('"売上"')
+  })
+
+  it('keeps qualified references, quoting reserved words among their parts', () => {
+    expect(quoteTableName('db.main.users')).toBe('db.main.users')
+    expect(quoteTableName('db.main."my table"')).toBe('db.main."my table"')
+    expect(quoteTableName('db.main.order')).toBe('db.main."order"')
+    expect(quoteTableName('"my db"."my schema"."a.b"')).toBe(
+      '"my db"."my schema"."a.b"'
+    )
+  })
+
+  it('reads dotted names of plain identifiers as qualified references', () => {
+    expect(quoteTableName('sales.q1')).toBe('sales.q1')
+  })
+
+  it('quotes other dotted names as a single identifier', () => {
+    expect(quoteTableName('sales.2024')).toBe('"sales.2024"')
+    expect(quoteTableName('sales. q1')).toBe('"sales. q1"')
+    expect(quoteTableName('.hidden')).toBe('".hidden"')
+    expect(quoteTableName('sales.')).toBe('"sales."')
+  })
+})
+
+describe('generated SQL in DuckDB', () => {
+  let db: DuckDBBindings
+  let connection: DuckDBConnection
+
+  beforeAll(async () => {
+    const dist = resolve(
+      __dirname,
+      '../../../node_modules/@duckdb/duckdb-wasm/dist'
+    )
+    db = await createDuckDB(
+      {
+        mvp: {
+          mainModule: resolve(dist, 'duckdb-mvp.wasm'),
+          mainWorker: resolve(dist, 'duckdb-node-mvp.worker.cjs'),
+        },
+        // Errors raised by DuckDB need the exception handling build
+        eh: {
+          mainModule: resolve(dist, 'duckdb-eh.wasm'),
+          mainWorker: resolve(dist, 'duckdb-node-eh.worker.cjs'),
+        },
+      },
+      new ConsoleLogger(LogLevel.WARNING),
+      NODE_RUNTIME
+    )
+    await db.instantiate(() => {})
+    connection = db.connect()
+  })
+
+  afterAll(() => {
+    connection.close()
+    db.reset()
+  })
+
+  it.each(HOSTILE_NAMES)('creates and reads table and column %j', name => {
+    const table = quoteTableName(name)
+    const column = formatIdentifier(name)
+    connection.query(`CREATE TABLE ${table} (${column} VARCHAR)`)
+    connection.query(`INSERT INTO ${table} VALUES (${quoteLiteral(name)})`)
+
+    const rows = connection
+      .query(`SELECT ${column} AS value FROM ${table}`)
+      .toArray()
+    expect(rows.map(row => row.value)).toEqual([name])
+
+    const tables = connection
+      .query(
+        `SELECT table_name FROM duckdb_tables() WHERE table_name = ${quoteLiteral(name)}`
+      )
+      .toArray()
+    expect(tables).toHaveLength(1)
+    connection.query(`DROP TABLE ${table}`)
+  })
+
+  it('creates qualified tables in their schema', () => {
+    connection.query('CREATE SCHEMA sales')
+    connection.query(`CREATE TABLE ${quoteTableName('sales.q1')} (x INTEGER)`)
+    const tables = connection
+      .query(
+        "SELECT schema_name, table_name FROM duckdb_tables() WHERE schema_name = 'sales'"
+      )
+      .toArray()
+      .map(row => [row.schema_name, row.table_name])
+    expect(tables).toEqual([['sales', 'q1']])
+  })
+
+  it('binds values to prepared statements instead of interpolating them', async () => {
+    const result = await runPreparedQuery(
+      connection as unknown as AsyncDuckDBConnection,
+      'SELECT ? AS value',
+      ["'); DROP TABLE users; --"]
+    )
+    expect(result.toArray().map(row => row.value)).toEqual([
+      "'); DROP TABLE users; --",
+    ])
+  })
+})
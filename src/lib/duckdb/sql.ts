@@ -0,0 +1,213 @@
+/**
+ * SQL Building
+ *
+ * Quoting of identifiers and string literals for generated SQL, and prepared
+ * statements for values that can be bound instead. Table, column and file
+ * names come from users and files, so they are never interpolated as they
+ * are: a space, quote or reserved word would break the statement or change
+ * what it does.
+ */
+
+import { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm'
+
+type DuckDBResultTable = Awaited<ReturnType<AsyncDuckDBConnection['query']>>
+
+/**
+ * Rows of a query result, read from a table or from sent record batches
+ */
+type DuckDBResultRows = Pick<
+  DuckDBResultTable,
+  'schema' | 'numRows' | 'toArray'
+>
+
+const UNQUOTED_IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+const IDENTIFIER_PART = '[A-Za-z_][A-Za-z0-9_]*|"(?:[^"]|"")*"'
+const QUALIFIED_NAME_PATTERN = new RegExp(
+  `^(?:${IDENTIFIER_PART})(?:\\.(?:${IDENTIFIER_PART}))*$`
+)
+const IDENTIFIER_PART_PATTERN = new RegExp(IDENTIFIER_PART, 'g')
+
+/**
+ * DuckDB's reserved keywords (`duckdb_keywords()` of category `reserved`),
+ * which cannot be used as unquoted names
+ */
+const RESERVED_KEYWORDS = new Set([
+  'ALL',
+  'ANALYSE',
+  'ANALYZE',
+  'AND',
+  'ANY',
+  'ARRAY',
+  'AS',
+  'ASC',
+  'ASYMMETRIC',
+  'BOTH',
+  'CASE',
+  'CAST',
+  'CHECK',
+  'COLLATE',
+  'COLUMN',
+  'CONSTRAINT',
+  'CREATE',
+  'DEFAULT',
+  'DEFERRABLE',
+  'DESC',
+  'DESCRIBE',
+  'DISTINCT',
+  'DO',
+  'ELSE',
+  'END',
+  'EXCEPT',
+  'FALSE',
+  'FETCH',
+  'FOR',
+  'FOREIGN',
+  'FROM',
+  'GRANT',
+  'GROUP',
+  'HAVING',
+  'IN',
+  'INITIALLY',
+  'INTERSECT',
+  'INTO',
+  'LATERAL',
+  'LEADING',
+  'LIMIT',
+  'NOT',
+  'NULL',
+  'OFFSET',
+  'ON',
+  'ONLY',
+  'OR',
+  'ORDER',
+  'PIVOT',
+  'PIVOT_LONGER',
+  'PIVOT_WIDER',
+  'PLACING',
+  'PRIMARY',
+  'QUALIFY',
+  'REFERENCES',
+  'RETURNING',
+  'SELECT',
+  'SHOW',
+  'SOME',
+  'SUMMARIZE',
+  'SYMMETRIC',
+  'TABLE',
+  'THEN',
+  'TO',
+  'TRAILING',
+  'TRUE',
+  'UNION',
+  'UNIQUE',
+  'UNPIVOT',
+  'USING',
+  'VARIADIC',
+  'WHEN',
+  'WHERE',
+  'WINDOW',
+  'WITH',
+])
+
+/**
+ * Quote a name as an SQL identifier: `my "table"` becomes `"my ""table"""`
+ */
+export const quoteIdentifier = (name: string): string =>
+  `"${name.replace(/"/g, '""')}"`
+
+/**
+ * Quote a name as an SQL identifier only when it has to be, so generated SQL
+ * stays readable: plain names that are not reserved words are kept as they are
+ */
+export const formatIdentifier = (name: string): string =>
+  UNQUOTED_IDENTIFIER_PATTERN.test(name) &&
+  !RESERVED_KEYWORDS.has(name.toUpperCase())
+    ? name
+    : quoteIdentifier(name)
+
+/**
+ * Quote a value as an SQL string literal: `it's` becomes `'it''s'`
+ */
+export const quoteLiteral = (value: string): string =>
+  `'${value.replace(/'/g, "''")}'`
+
+/**
+ * Format the table name of a data source for use in SQL
+ *
+ * Table names of attached databases are already qualified SQL references
+ * (`db.main."my table"`) and are kept, with reserved words among their plain
+ * parts quoted. Any other name is a single identifier and is quoted when it
+ * has to be.
+ *
+ * A dotted name is therefore a qualified reference only when every part is a
+ * plain or quoted identifier: `sales.q1` is table `q1` of schema `sales`,
+ * while `sales.2024` or `sales. 2024` is the single table `"sales.2024"`.
+ * Table names derived from file names never contain dots.
+ *
+ * @param tableName - A table name or qualified table reference
+ */
+export function quoteTableName(tableName: string): string {
+  if (!QUALIFIED_NAME_PATTERN.test(tableName)) {
+    return quoteIdentifier(tableName)
+  }
+  return (tableName.match(IDENTIFIER_PART_PATTERN) ?? [])
+    .map(part => (part.startsWith('"') ? part : formatIdentifier(part)))
+    .join('.')
+}
+
+/**
+ * Run a query, as a prepared statement when values are bound to it
+ *
+ * @param connection - The DuckDB connection
+ * @param sql - SQL with a `?` placeholder per value
+ * @param params - Values to bind, in placeholder order
+ */
+export async function runPreparedQuery(
+  connection: AsyncDuckDBConnection,
+  sql: string,
+  params: unknown[] = []
+): Promise<DuckDBResultTable> {
+  if (params.length === 0) return connection.query(sql)
+  const statement = await connection.prepare(sql)
+  try {
+    return await statement.query(...params)
+  } finally {
+    await statement.close()
+  }
+}
+
+/**
+ * Run a query so that `connection.cancelSent()` can interrupt it
+ *
+ * The query is sent as a pending query, which DuckDB runs in steps and can
+ * stop between them, unlike `connection.query`, which keeps the DuckDB worker
+ * busy until the query finished. Prepared statements (queries with bound
+ * values) can't be interrupted once they run. Any other query on the
+ * connection ends a pending one, so run it exclusively (see `runExclusive`).
+ *
+ * @param connection - The DuckDB connection
+ * @param sql - SQL with a `?` placeholder per value
+ * @param params - Values to bind, in placeholder order
+ * @param signal - Stops the query from starting once aborted
+ */
+export async function sendQuery(
+  connection: AsyncDuckDBConnection,
+  sql: string,
+  params: unknown[] = [],
+  signal?: AbortSignal
+): Promise<DuckDBResultRows> {
+  signal?.throwIfAborted()
+  if (params.length > 0) return runPreparedQuery(connection, sql, params)
+  const reader = await connection.send(sql)
+  // The reader drops its schema once it has been read to the end
+  await reader.open()
+  const schema = reader.schema
+  // DuckDB bundles its own apache-arrow version, so the batches are read as
+  // they are instead of being collected into a table
+  const batches = await reader.readAll()
+  return {
+    schema,
+    numRows: batches.reduce((total, batch) => total + batch.numRows, 0),
+    toArray: () => batches.flatMap(batch => batch.toArray()),
+  }
+}
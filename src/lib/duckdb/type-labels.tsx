@@ -333,13 +333,29 @@ function normalizeType(type: string): string {
   return type.toUpperCase().trim()
 }
 
+/**
+ * Get the base type of a (possibly parameterized or nested) type name, e.g.
+ * `DECIMAL` for `DECIMAL(18,3)` or `LIST` for `INTEGER[]`
+ */
+export function getBaseDuckDBType(type: string): DuckDBType {
+  const normalized = normalizeType(type)
+  if (/\[\d+\]$/.test(normalized)) return 'ARRAY'
+  if (normalized.endsWith('[]')) return 'LIST'
+  if (normalized === 'TIMESTAMP WITH TIME ZONE') return 'TIMESTAMPTZ'
+  if (normalized === 'TIME WITH TIME ZONE') return 'TIMETZ'
+
+  const base = /^[A-Z0-9_]+/.exec(normalized)?.[0] ?? normalized
+  return /^TIMESTAMP_(S|MS|NS)$/.test(base) ? 'TIMESTAMP' : base
+}
+
 /**
  * Get configuration for a data type
  */
 export function getTypeConfig(type: string): TypeConfig {
   const normalized = normalizeType(type)
   return (
-    TYPE_CONFIGS[normalized] || {
+    TYPE_CONFIGS[normalized] ||
+    TYPE_CONFIGS[getBaseDuckDBType(normalized)] || {
       label: normalized,
       color: 'text-muted-foreground',
       bgColor: 'bg-muted',
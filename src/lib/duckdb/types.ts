@@ -13,6 +13,9 @@ export const ARROW_MIME_TYPE = 'application/vnd.apache.arrow.file'
 export const CSV_MIME_TYPE = 'text/csv'
 export const PARQUET_MIME_TYPE = 'application/vnd.apache.parquet'
 export const JSON_MIME_TYPE = 'application/json'
+export const NDJSON_MIME_TYPE = 'application/x-ndjson'
+export const XLSX_MIME_TYPE =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
 export enum DuckDBLoadingState {
   DuckDBLoading,
   DuckDBLoaded,
@@ -0,0 +1,350 @@
+/**
+ * DuckDB Value Conversion
+ *
+ * Maps Arrow result types back to DuckDB logical type names and converts
+ * Arrow values that have no faithful plain JavaScript counterpart (decimals,
+ * intervals, times and nested LIST/STRUCT/MAP values) into plain values.
+ */
+
+import {
+  DataType,
+  Field,
+  IntervalUnit,
+  Precision,
+  TimeUnit,
+} from 'apache-arrow'
+import { formatIdentifier } from './sql'
+import type { DuckDBType } from './type-labels'
+
+const MS_PER_SECOND = 1000
+const MS_PER_MINUTE = 60 * MS_PER_SECOND
+const MS_PER_HOUR = 60 * MS_PER_MINUTE
+
+const DECIMAL_PATTERN = /^-?\d+(\.\d+)?$/
+
+/**
+ * A DuckDB INTERVAL value
+ */
+export class DuckDBInterval {
+  constructor(
+    readonly months: number,
+    readonly days: number,
+    readonly milliseconds: number
+  ) {}
+
+  toString(): string {
+    return formatInterval(this)
+  }
+
+  toJSON(): string {
+    return formatInterval(this)
+  }
+}
+
+/**
+ * One entry of a DuckDB MAP value (maps are converted to entry lists so keys
+ * of any type are preserved)
+ */
+export interface DuckDBMapEntry {
+  key: unknown
+  value: unknown
+}
+
+const describeFields = (fields: Field[]): string =>
+  fields
+    .map(
+      field => `${formatIdentifier(field.name)} ${arrowTypeToDuckDBType(field)}`
+    )
+    .join(', ')
+
+/**
+ * Get the DuckDB logical type name of an Arrow result column
+ *
+ * DuckDB-only types that travel as plain Arrow types (e.g. UUID, ENUM or
+ * HUGEINT) are only recognized when the field carries Arrow extension
+ * metadata; use `DESCRIBE` for the exact type.
+ *
+ * @param field - Arrow field of the column
+ * @returns The DuckDB type name, e.g. `DECIMAL(18,3)` or `STRUCT(a INTEGER)`
+ */
+export function arrowTypeToDuckDBType(field: Field): DuckDBType {
+  const { type } = field
+  const extension = field.metadata?.get('ARROW:extension:name')
+
+  if (extension === 'arrow.uuid') return 'UUID'
+  if (extension === 'arrow.json') return 'JSON'
+
+  if (DataType.isNull(type)) return 'NULL'
+  if (DataType.isBool(type)) return 'BOOLEAN'
+  if (DataType.isInt(type)) {
+    const name =
+      type.bitWidth === 8
+        ? 'TINYINT'
+        : type.bitWidth === 16
+          ? 'SMALLINT'
+          : type.bitWidth === 32
+            ? 'INTEGER'
+            : 'BIGINT'
+    return type.isSigned ? name : `U${name}`
+  }
+  if (DataType.isFloat(type)) {
+    return type.precision === Precision.DOUBLE ? 'DOUBLE' : 'FLOAT'
+  }
+  if (DataType.isDecimal(type)) {
+    return `DECIMAL(${type.precision},${type.scale})`
+  }
+  if (DataType.isUtf8(type) || DataType.isLargeUtf8(type)) return 'VARCHAR'
+  if (
+    DataType.isBinary(type) ||
+    DataType.isLargeBinary(type) ||
+    DataType.isFixedSizeBinary(type)
+  ) {
+    return 'BLOB'
+  }
+  if (DataType.isDate(type)) return 'DATE'
+  if (DataType.isTime(type)) return 'TIME'
+  if (DataType.isTimestamp(type)) {
+    return type.timezone ? 'TIMESTAMPTZ' : 'TIMESTAMP'
+  }
+  if (DataType.isInterval(type) || DataType.isDuration(type)) {
+    return 'INTERVAL'
+  }
+  if (DataType.isList(type)) {
+    return `${arrowTypeToDuckDBType(type.children[0]!)}[]`
+  }
+  if (DataType.isFixedSizeList(type)) {
+    return `${arrowTypeToDuckDBType(type.children[0]!)}[${type.listSize}]`
+  }
+  if (DataType.isStruct(type)) {
+    return `STRUCT(${describeFields(type.children)})`
+  }
+  if (DataType.isMap(type)) {
+    const [key, value] = type.children[0]!.type.children
+    return `MAP(${arrowTypeToDuckDBType(key!)}, ${arrowTypeToDuckDBType(value!)})`
+  }
+  if (DataType.isUnion(type)) {
+    return `UNION(${describeFields(type.children)})`
+  }
+  if (DataType.isDictionary(type)) {
+    return arrowTypeToDuckDBType(
+      new Field(field.name, type.dictionary, field.nullable)
+    )
+  }
+  return String(type).toUpperCase()
+}
+
+/**
+ * Whether values of an Arrow type have to be converted by
+ * `normalizeArrowValue` before they can be displayed or exported
+ */
+export function needsValueNormalization(type: DataType): boolean {
+  return (
+    DataType.isDecimal(type) ||
+    DataType.isTime(type) ||
+    DataType.isInterval(type) ||
+    DataType.isList(type) ||
+    DataType.isFixedSizeList(type) ||
+    DataType.isStruct(type) ||
+    DataType.isMap(type)
+  )
+}
+
+/**
+ * Read a two's complement integer stored in little-endian 32-bit words
+ */
+const wordsToBigInt = (words: Uint32Array): bigint => {
+  let value = BigInt(0)
+  for (let index = words.length - 1; index >= 0; index--) {
+    value = (value << BigInt(32)) | BigInt(words[index]!)
+  }
+  const bits = BigInt(32 * words.length)
+  const signBit = BigInt(1) << (bits - BigInt(1))
+  return value & signBit ? value - (BigInt(1) << bits) : value
+}
+
+/**
+ * Format an unscaled decimal integer as an exact decimal string
+ *
+ * @param unscaled - The decimal value multiplied by 10^scale
+ * @param scale - Number of digits after the decimal point
+ */
+export function formatDecimal(unscaled: bigint, scale: number): string {
+  const negative = unscaled < BigInt(0)
+  const digits = (negative ? -unscaled : unscaled)
+    .toString()
+    .padStart(scale + 1, '0')
+  const integer = digits.slice(0, digits.length - scale)
+  const fraction = scale > 0 ? `.${digits.slice(digits.length - scale)}` : ''
+  return `${negative ? '-' : ''}${integer}${fraction}`
+}
+
+/**
+ * Whether a value is an exact decimal string (see `formatDecimal`)
+ */
+export function isDecimalString(value: unknown): value is string {
+  return typeof value === 'string' && DECIMAL_PATTERN.test(value)
+}
+
+/**
+ * Format a time of day as `HH:MM:SS[.ffffff]`
+ *
+ * @param value - Time since midnight
+ * @param unit - Unit of `value`
+ */
+export function formatTimeOfDay(
+  value: number | bigint,
+  unit: TimeUnit = TimeUnit.MICROSECOND
+): string {
+  const perSecond =
+    unit === TimeUnit.SECOND
+      ? 1
+      : unit === TimeUnit.MILLISECOND
+        ? 1e3
+        : unit === TimeUnit.MICROSECOND
+          ? 1e6
+          : 1e9
+  const ticks = BigInt(value)
+  const seconds = Number(ticks / BigInt(perSecond))
+  const fraction = Number(ticks % BigInt(perSecond)) / perSecond
+  const pad = (part: number): string => String(part).padStart(2, '0')
+  const time = `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`
+  return fraction > 0
+    ? `${time}${fraction.toFixed(6).slice(1).replace(/0+$/, '')}`
+    : time
+}
+
+/**
+ * Format an interval the way DuckDB prints it, e.g.
+ * `1 year 2 months 3 days 04:05:06.5`
+ */
+export function formatInterval({
+  months,
+  days,
+  milliseconds,
+}: DuckDBInterval): string {
+  const plural = (count: number, unit: string): string =>
+    `${count} ${unit}${Math.abs(count) === 1 ? '' : 's'}`
+  const parts: string[] = []
+  const years = Math.trunc(months / 12)
+
+  if (years !== 0) parts.push(plural(years, 'year'))
+  if (months % 12 !== 0) parts.push(plural(months % 12, 'month'))
+  if (days !== 0) parts.push(plural(days, 'day'))
+  if (milliseconds !== 0 || parts.length === 0) {
+    const sign = milliseconds < 0 ? '-' : ''
+    const absolute = Math.abs(milliseconds)
+    const hours = Math.floor(absolute / MS_PER_HOUR)
+    const time = formatTimeOfDay(
+      Math.round((absolute % MS_PER_HOUR) * 1000),
+      TimeUnit.MICROSECOND
+    )
+    parts.push(`${sign}${String(hours).padStart(2, '0')}${time.slice(2)}`)
+  }
+
+  return parts.join(' ')
+}
+
+/**
+ * Convert an Arrow interval value (a pair or quadruple of 32-bit integers)
+ */
+const toInterval = (value: Int32Array, unit: IntervalUnit): DuckDBInterval => {
+  if (unit === IntervalUnit.YEAR_MONTH) {
+    return new DuckDBInterval(value[0]! * 12 + value[1]!, 0, 0)
+  }
+  if (unit === IntervalUnit.DAY_TIME) {
+    return new DuckDBInterval(0, value[0]!, value[1]!)
+  }
+  const nanoseconds = wordsToBigInt(
+    new Uint32Array(value.buffer, value.byteOffset + 8, 2)
+  )
+  return new DuckDBInterval(value[0]!, value[1]!, Number(nanoseconds) / 1e6)
+}
+
+/**
+ * Convert an Arrow value to a plain JavaScript value
+ *
+ * Decimals become exact decimal strings, times `HH:MM:SS` strings, intervals
+ * `DuckDBInterval`s, lists arrays, structs objects and maps `DuckDBMapEntry`
+ * lists. Other values are returned unchanged.
+ *
+ * @param value - Value as returned by Arrow
+ * @param type - Arrow type of the value
+ */
+export function normalizeArrowValue(value: unknown, type: DataType): unknown {
+  if (value === null || value === undefined) return value
+
+  if (DataType.isDecimal(type)) {
+    return formatDecimal(wordsToBigInt(value as Uint32Array), type.scale)
+  }
+  if (DataType.isTime(type)) {
+    return formatTimeOfDay(value as number | bigint, type.unit)
+  }
+  if (DataType.isInterval(type)) {
+    return toInterval(value as Int32Array, type.unit)
+  }
+  if (DataType.isList(type) || DataType.isFixedSizeList(type)) {
+    const itemType = type.children[0]!.type
+    return Array.from(value as Iterable<unknown>, item =>
+      normalizeArrowValue(item, itemType)
+    )
+  }
+  if (DataType.isStruct(type)) {
+    const row = value as Record<string, unknown>
+    return Object.fromEntries(
+      type.children.map(field => [
+        field.name,
+        normalizeArrowValue(row[field.name], field.type),
+      ])
+    )
+  }
+  if (DataType.isMap(type)) {
+    const [keyField, valueField] = type.children[0]!.type.children
+    return Array.from(
+      value as Iterable<[unknown, unknown]>,
+      ([key, entryValue]): DuckDBMapEntry => ({
+        key: normalizeArrowValue(key, keyField!.type),
+        value: normalizeArrowValue(entryValue, valueField!.type),
+      })
+    )
+  }
+  return value
+}
+
+/**
+ * Format any result value (including nested values) as a single line of
+ * text, similar to how DuckDB prints it
+ *
+ * @param value - A value of a `QueryResult` row
+ * @param isMap - Whether the value is a MAP entry list
+ */
+export function formatResultValue(value: unknown, isMap = false): string {
+  if (value === null || value === undefined) return 'NULL'
+  if (isMap && Array.isArray(value)) {
+    const entries = value as DuckDBMapEntry[]
+    return `{${entries
+      .map(
+        entry =>
+          `${formatResultValue(entry.key)}=${formatResultValue(entry.value)}`
+      )
+      .join(', ')}}`
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => formatResultValue(item)).join(', ')}]`
+  }
+  if (value instanceof Uint8Array) {
+    return Array.from(
+      value,
+      byte => `\\x${byte.toString(16).toUpperCase().padStart(2, '0')}`
+    ).join('')
+  }
+  if (
+    typeof value === 'object' &&
+    !(value instanceof DuckDBInterval) &&
+    !(value instanceof Date)
+  ) {
+    return `{${Object.entries(value)
+      .map(([key, field]) => `'${key}': ${formatResultValue(field)}`)
+      .join(', ')}}`
+  }
+  return String(value)
+}
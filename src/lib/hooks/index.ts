@@ -3,4 +3,9 @@
  */
 
 export { useCopyColumn } from './use-copy-column'
+export { useDataSourceCatalog } from './use-data-source-catalog'
 export { usePagination } from './use-pagination'
+export { useQueryHistory } from './use-query-history'
+export { useSavedQueries } from './use-saved-queries'
+export { useVirtualWindow } from './use-virtual-window'
+export type { SavedQueryInput } from './use-saved-queries'
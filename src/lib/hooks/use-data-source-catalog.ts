@@ -0,0 +1,128 @@
+/**
+ * useDataSourceCatalog Hook
+ *
+ * Custom hook for persisting the catalog of imported data sources (names,
+ * origins, import options and schemas) through a pluggable storage adapter,
+ * so they can be restored together with a persistent DuckDB database
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { DataSource, DataSourceCatalogEntry } from '@/types/sql'
+import { createDefaultStorageAdapter, StorageAdapter } from '@/lib/storage'
+
+interface UseDataSourceCatalogProps {
+  storage?: StorageAdapter<DataSourceCatalogEntry[]> | undefined
+  userId?: string | undefined
+  enabled?: boolean | undefined
+}
+
+interface UseDataSourceCatalogReturn {
+  entries: DataSourceCatalogEntry[]
+  isLoaded: boolean
+  saveCatalog: (dataSources: DataSource[]) => boolean
+}
+
+/**
+ * Whether a data source's table is kept in the database file. Rows passed as
+ * `data` are provided again on every load, and tables of attached database
+ * files are not part of the database.
+ */
+const isPersistable = (dataSource: DataSource): boolean =>
+  dataSource.loadingStatus === 'loaded' &&
+  !dataSource.data &&
+  dataSource.importOptions?.format !== 'duckdb' &&
+  dataSource.importOptions?.format !== 'sqlite'
+
+const toCatalogEntry = ({
+  fileData,
+  data,
+  dataSchema,
+  loadingStatus,
+  loadingError,
+  ...entry
+}: DataSource): DataSourceCatalogEntry => entry
+
+/**
+ * Normalize an entry loaded from storage (JSON-based adapters return dates as strings)
+ */
+const reviveEntry = (
+  entry: DataSourceCatalogEntry
+): DataSourceCatalogEntry => ({
+  ...entry,
+  createdAt: new Date(entry.createdAt),
+  ...(entry.lastRefreshedAt && {
+    lastRefreshedAt: new Date(entry.lastRefreshedAt),
+  }),
+})
+
+/**
+ * Hook to load and save the persisted data source catalog
+ *
+ * @param storage - Persistence adapter (default: IndexedDB with localStorage fallback)
+ * @param userId - Identifier used to keep catalogs of different users apart
+ * @param enabled - Whether the catalog is persisted (default: true)
+ * @returns The stored entries and a function to save the current data sources
+ * (returns whether the catalog changed)
+ */
+export function useDataSourceCatalog({
+  storage,
+  userId,
+  enabled = true,
+}: UseDataSourceCatalogProps = {}): UseDataSourceCatalogReturn {
+  const [entries, setEntries] = useState<DataSourceCatalogEntry[]>([])
+  const [isLoaded, setIsLoaded] = useState(!enabled)
+
+  const adapter = useMemo(
+    () => storage ?? createDefaultStorageAdapter<DataSourceCatalogEntry[]>(),
+    [storage]
+  )
+  const storageKey = userId
+    ? `sql-cockpit-data-sources-${userId}`
+    : 'sql-cockpit-data-sources'
+
+  // Serialized catalog last loaded or saved, to skip redundant writes
+  const savedRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!enabled) {
+      setEntries([])
+      setIsLoaded(true)
+      return
+    }
+
+    let cancelled = false
+    setIsLoaded(false)
+
+    adapter.load(storageKey).then(stored => {
+      if (cancelled) return
+      const loaded = stored ? stored.map(reviveEntry) : []
+      savedRef.current = JSON.stringify(loaded)
+      setEntries(loaded)
+      setIsLoaded(true)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [adapter, storageKey, enabled])
+
+  const saveCatalog = useCallback(
+    (dataSources: DataSource[]): boolean => {
+      if (!enabled || !isLoaded) return false
+      const next = dataSources.filter(isPersistable).map(toCatalogEntry)
+      const serialized = JSON.stringify(next)
+      if (serialized === savedRef.current) return false
+      savedRef.current = serialized
+      setEntries(next)
+      void adapter.save(storageKey, next)
+      return true
+    },
+    [adapter, storageKey, enabled, isLoaded]
+  )
+
+  return {
+    entries,
+    isLoaded,
+    saveCatalog,
+  }
+}
@@ -11,6 +11,9 @@ interface UsePaginationProps {
   itemsPerPage?: number
   enablePagination?: boolean
   paginationThreshold?: number
+  serverSide?: boolean
+  page?: number | undefined
+  onPageChange?: ((page: number) => void) | undefined
 }
 
 interface UsePaginationReturn<T> {
@@ -24,6 +27,7 @@ interface UsePaginationReturn<T> {
   getPaginatedData: (data: T[]) => T[]
   startIndex: number
   endIndex: number
+  dataStartIndex: number
 }
 
 /**
@@ -33,6 +37,9 @@ interface UsePaginationReturn<T> {
  * @param itemsPerPage - Number of items to show per page (default: 100)
  * @param enablePagination - Force enable/disable pagination (default: auto based on threshold)
  * @param paginationThreshold - Enable pagination when items exceed this number (default: 1024)
+ * @param serverSide - The data passed to getPaginatedData is already the current page (default: false)
+ * @param page - Controlled current page; when set, page changes are only reported through onPageChange
+ * @param onPageChange - Called when the current page changes, e.g. to fetch it from the server
  * @returns Pagination state and helper functions
  */
 export function usePagination<T = unknown>({
@@ -40,14 +47,30 @@ export function usePagination<T = unknown>({
   itemsPerPage = 100,
   enablePagination,
   paginationThreshold = 1024,
+  serverSide = false,
+  page,
+  onPageChange,
 }: UsePaginationProps): UsePaginationReturn<T> {
-  const [currentPage, setCurrentPage] = useState(1)
+  const [internalPage, setInternalPage] = useState(1)
+  const currentPage = page ?? internalPage
+
+  const setCurrentPage = (nextPage: number): void => {
+    if (page === undefined) setInternalPage(nextPage)
+    if (nextPage !== currentPage) onPageChange?.(nextPage)
+  }
 
   // Determine if pagination should be enabled
   const isPaginationEnabled = useMemo(() => {
     if (enablePagination !== undefined) return enablePagination
+    if (serverSide) return totalItems > itemsPerPage
     return totalItems > paginationThreshold
-  }, [enablePagination, totalItems, paginationThreshold])
+  }, [
+    enablePagination,
+    serverSide,
+    totalItems,
+    itemsPerPage,
+    paginationThreshold,
+  ])
 
   // Calculate total pages
   const totalPages = useMemo(() => {
@@ -66,27 +89,31 @@ export function usePagination<T = unknown>({
     return Math.min(startIndex + itemsPerPage, totalItems)
   }, [isPaginationEnabled, startIndex, itemsPerPage, totalItems])
 
+  // Index of the first displayed item within the data array (server-side
+  // data only contains the current page)
+  const dataStartIndex = serverSide ? 0 : startIndex
+
   // Navigation functions
   const nextPage = (): void => {
-    setCurrentPage(prev => Math.min(prev + 1, totalPages))
+    setCurrentPage(Math.min(currentPage + 1, totalPages))
   }
 
   const prevPage = (): void => {
-    setCurrentPage(prev => Math.max(prev - 1, 1))
+    setCurrentPage(Math.max(currentPage - 1, 1))
   }
 
   // Get paginated data
   const getPaginatedData = (data: T[]): T[] => {
-    if (!isPaginationEnabled) return data
+    if (!isPaginationEnabled || serverSide) return data
     return data.slice(startIndex, endIndex)
   }
 
   // Reset to page 1 when total items changes significantly
   useMemo(() => {
-    if (currentPage > totalPages && totalPages > 0) {
-      setCurrentPage(1)
+    if (page === undefined && currentPage > totalPages && totalPages > 0) {
+      setInternalPage(1)
     }
-  }, [currentPage, totalPages])
+  }, [page, currentPage, totalPages])
 
   return {
     currentPage,
@@ -99,5 +126,6 @@ export function usePagination<T = unknown>({
     getPaginatedData,
     startIndex,
     endIndex,
+    dataStartIndex,
   }
 }
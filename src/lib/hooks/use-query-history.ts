@@ -0,0 +1,124 @@
+/**
+ * useQueryHistory Hook
+ *
+ * Custom hook for recording executed SQL queries and persisting them through a
+ * pluggable storage adapter
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { nanoid } from 'nanoid'
+import { QueryHistoryEntry } from '@/types/sql'
+import { createDefaultStorageAdapter, StorageAdapter } from '@/lib/storage'
+
+interface UseQueryHistoryProps {
+  storage?: StorageAdapter<QueryHistoryEntry[]> | undefined
+  userId?: string | undefined
+  maxEntries?: number
+  enabled?: boolean
+}
+
+interface UseQueryHistoryReturn {
+  entries: QueryHistoryEntry[]
+  isLoaded: boolean
+  addEntry: (entry: Omit<QueryHistoryEntry, 'id' | 'executedAt'>) => void
+  removeEntry: (id: string) => void
+  clearHistory: () => void
+}
+
+/**
+ * Normalize an entry loaded from storage (JSON-based adapters return dates as strings)
+ */
+const reviveEntry = (entry: QueryHistoryEntry): QueryHistoryEntry => ({
+  ...entry,
+  executedAt: new Date(entry.executedAt),
+})
+
+/**
+ * Hook to handle query history state and persistence
+ *
+ * @param storage - Persistence adapter (default: IndexedDB with localStorage fallback)
+ * @param userId - Identifier used to keep histories of different users apart
+ * @param maxEntries - Maximum number of entries to keep (default: 200)
+ * @param enabled - Whether new entries are recorded (default: true)
+ * @returns History entries (newest first) and helper functions
+ */
+export function useQueryHistory({
+  storage,
+  userId,
+  maxEntries = 200,
+  enabled = true,
+}: UseQueryHistoryProps = {}): UseQueryHistoryReturn {
+  const [entries, setEntries] = useState<QueryHistoryEntry[]>([])
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  const adapter = useMemo(
+    () => storage ?? createDefaultStorageAdapter<QueryHistoryEntry[]>(),
+    [storage]
+  )
+  const storageKey = userId
+    ? `sql-cockpit-history-${userId}`
+    : 'sql-cockpit-history'
+
+  // Persist only after the stored history has been loaded, so an early
+  // execution never overwrites what is already in storage
+  const isLoadedRef = useRef(false)
+
+  useEffect(() => {
+    let cancelled = false
+    isLoadedRef.current = false
+    setIsLoaded(false)
+    // Start empty for every key, so one user's history never shows up in (or
+    // gets saved under) another user's key
+    setEntries([])
+
+    adapter.load(storageKey).then(stored => {
+      if (cancelled) return
+      setEntries(prev => {
+        const loaded = (stored || []).map(reviveEntry)
+        // Keep anything recorded for this key while its history was loading
+        const loadedIds = new Set(loaded.map(entry => entry.id))
+        return [...prev.filter(entry => !loadedIds.has(entry.id)), ...loaded]
+      })
+      isLoadedRef.current = true
+      setIsLoaded(true)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [adapter, storageKey])
+
+  useEffect(() => {
+    if (!isLoadedRef.current) return
+    void adapter.save(storageKey, entries)
+  }, [adapter, storageKey, entries])
+
+  const addEntry = useCallback(
+    (entry: Omit<QueryHistoryEntry, 'id' | 'executedAt'>): void => {
+      if (!enabled) return
+      setEntries(prev =>
+        [{ ...entry, id: nanoid(), executedAt: new Date() }, ...prev].slice(
+          0,
+          maxEntries
+        )
+      )
+    },
+    [enabled, maxEntries]
+  )
+
+  const removeEntry = useCallback((id: string): void => {
+    setEntries(prev => prev.filter(entry => entry.id !== id))
+  }, [])
+
+  const clearHistory = useCallback((): void => {
+    setEntries([])
+  }, [])
+
+  return {
+    entries,
+    isLoaded,
+    addEntry,
+    removeEntry,
+    clearHistory,
+  }
+}
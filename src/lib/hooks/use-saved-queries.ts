@@ -0,0 +1,197 @@
+/**
+ * useSavedQueries Hook
+ *
+ * Custom hook for managing saved SQL queries (create, update, delete) and
+ * persisting them through a pluggable storage adapter
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { nanoid } from 'nanoid'
+import { SavedQuery } from '@/types/sql'
+import { createDefaultStorageAdapter, StorageAdapter } from '@/lib/storage'
+
+/**
+ * Fields provided when creating a saved query
+ */
+export type SavedQueryInput = Omit<SavedQuery, 'id' | 'createdAt' | 'updatedAt'>
+
+interface UseSavedQueriesProps {
+  initialQueries?: SavedQuery[] | undefined
+  storage?: StorageAdapter<SavedQuery[]> | undefined
+  userId?: string | undefined
+  onChange?: ((queries: SavedQuery[]) => void) | undefined
+}
+
+interface UseSavedQueriesReturn {
+  queries: SavedQuery[]
+  isLoaded: boolean
+  createQuery: (input: SavedQueryInput) => SavedQuery
+  updateQuery: (id: string, changes: Partial<SavedQueryInput>) => void
+  deleteQuery: (id: string) => void
+}
+
+/**
+ * Normalize a query loaded from storage (JSON-based adapters return dates as strings)
+ */
+const reviveQuery = (query: SavedQuery): SavedQuery => ({
+  ...query,
+  createdAt: new Date(query.createdAt),
+  updatedAt: new Date(query.updatedAt),
+})
+
+/**
+ * Normalize a tag list: trim, drop empty values and duplicates
+ */
+const normalizeTags = (tags: string[] | undefined): string[] =>
+  Array.from(new Set((tags || []).map(tag => tag.trim()).filter(Boolean)))
+
+/**
+ * Trim name and description and normalize tags. An empty description is
+ * dropped so it can be cleared through an update.
+ */
+const normalizeQuery = (query: SavedQuery): SavedQuery => {
+  const { description, ...rest } = query
+  const trimmedDescription = description?.trim()
+  return {
+    ...rest,
+    name: query.name.trim(),
+    tags: normalizeTags(query.tags),
+    ...(trimmedDescription && { description: trimmedDescription }),
+  }
+}
+
+/**
+ * Hook to handle saved query state and persistence
+ *
+ * The initial queries seed the store the first time it is used for a user.
+ * Once something has been persisted, the stored list is the source of truth.
+ * Queries created, edited or deleted before the stored list has loaded are
+ * applied to it once it has.
+ *
+ * @param initialQueries - Queries used when nothing has been persisted yet
+ * @param storage - Persistence adapter (default: IndexedDB with localStorage fallback)
+ * @param userId - Identifier used to keep saved queries of different users apart
+ * @param onChange - Called with the full list after every create, update or delete
+ * @returns Saved queries and helper functions
+ */
+export function useSavedQueries({
+  initialQueries,
+  storage,
+  userId,
+  onChange,
+}: UseSavedQueriesProps = {}): UseSavedQueriesReturn {
+  const [queries, setQueries] = useState<SavedQuery[]>(initialQueries || [])
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  const adapter = useMemo(
+    () => storage ?? createDefaultStorageAdapter<SavedQuery[]>(),
+    [storage]
+  )
+  const storageKey = userId
+    ? `sql-cockpit-saved-queries-${userId}`
+    : 'sql-cockpit-saved-queries'
+
+  // Mutations read the latest list synchronously so callbacks get the new value
+  const queriesRef = useRef(queries)
+  const initialQueriesRef = useRef(initialQueries)
+  const onChangeRef = useRef(onChange)
+  const isLoadedRef = useRef(false)
+  // Changes made while the stored queries were loading, replayed on them
+  const pendingChangesRef = useRef<((queries: SavedQuery[]) => SavedQuery[])[]>(
+    []
+  )
+
+  useEffect(() => {
+    onChangeRef.current = onChange
+  }, [onChange])
+
+  useEffect(() => {
+    let cancelled = false
+    isLoadedRef.current = false
+    pendingChangesRef.current = []
+    setIsLoaded(false)
+
+    adapter.load(storageKey).then(stored => {
+      if (cancelled) return
+      const pendingChanges = pendingChangesRef.current
+      pendingChangesRef.current = []
+      const loaded = pendingChanges.reduce(
+        (list, change) => change(list),
+        stored ? stored.map(reviveQuery) : initialQueriesRef.current || []
+      )
+      queriesRef.current = loaded
+      setQueries(loaded)
+      isLoadedRef.current = true
+      setIsLoaded(true)
+      if (pendingChanges.length > 0) onChangeRef.current?.(loaded)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [adapter, storageKey])
+
+  // Apply a change to the current list; before the stored queries are loaded
+  // it is also kept to be applied to them
+  const commit = useCallback(
+    (change: (queries: SavedQuery[]) => SavedQuery[]): void => {
+      if (!isLoadedRef.current) pendingChangesRef.current.push(change)
+      const next = change(queriesRef.current)
+      queriesRef.current = next
+      setQueries(next)
+      onChangeRef.current?.(next)
+    },
+    []
+  )
+
+  // Persist only after the stored queries have been loaded, so the seed list
+  // never overwrites what is already in storage
+  useEffect(() => {
+    if (!isLoadedRef.current) return
+    void adapter.save(storageKey, queries)
+  }, [adapter, storageKey, queries])
+
+  const createQuery = useCallback(
+    (input: SavedQueryInput): SavedQuery => {
+      const now = new Date()
+      const created = normalizeQuery({
+        ...input,
+        id: nanoid(),
+        createdAt: now,
+        updatedAt: now,
+      })
+      commit(queries => [created, ...queries])
+      return created
+    },
+    [commit]
+  )
+
+  const updateQuery = useCallback(
+    (id: string, changes: Partial<SavedQueryInput>): void => {
+      const updatedAt = new Date()
+      commit(queries =>
+        queries.map(query =>
+          query.id === id
+            ? normalizeQuery({ ...query, ...changes, updatedAt })
+            : query
+        )
+      )
+    },
+    [commit]
+  )
+
+  const deleteQuery = useCallback(
+    (id: string): void => {
+      commit(queries => queries.filter(query => query.id !== id))
+    },
+    [commit]
+  )
+
+  return {
+    queries,
+    isLoaded,
+    createQuery,
+    updateQuery,
+    deleteQuery,
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * useVirtualWindow Hook
+ *
+ * Custom hook for computing which items of a long list are visible in a
+ * scrolled viewport, so only those have to be rendered
+ */
+
+import { useMemo } from 'react'
+
+interface UseVirtualWindowProps {
+  count: number
+  itemSize: number | number[]
+  viewportSize: number
+  scrollOffset: number
+  overscan?: number
+}
+
+interface UseVirtualWindowReturn {
+  startIndex: number
+  endIndex: number
+  offsetBefore: number
+  offsetAfter: number
+  totalSize: number
+}
+
+/**
+ * Find the index of the item containing a position (offsets are ascending)
+ */
+const findItemAt = (offsets: number[], position: number): number => {
+  let low = 0
+  let high = offsets.length - 2
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2)
+    if (offsets[middle]! <= position) {
+      low = middle
+    } else {
+      high = middle - 1
+    }
+  }
+  return low
+}
+
+/**
+ * Hook to handle list virtualization along one axis
+ *
+ * @param count - Total number of items
+ * @param itemSize - Size of every item in pixels, or the size of each item
+ * @param viewportSize - Visible size of the scroll container in pixels
+ * @param scrollOffset - Current scroll position in pixels
+ * @param overscan - Number of extra items rendered on each side (default: 3)
+ * @returns Visible range [startIndex, endIndex) and the space taken by the items outside it
+ */
+export function useVirtualWindow({
+  count,
+  itemSize,
+  viewportSize,
+  scrollOffset,
+  overscan = 3,
+}: UseVirtualWindowProps): UseVirtualWindowReturn {
+  // Start offset of every item, plus the total size as the last entry
+  const offsets = useMemo(() => {
+    if (typeof itemSize === 'number') return null
+    const result = [0]
+    for (let index = 0; index < count; index++) {
+      result.push(result[index]! + (itemSize[index] ?? 0))
+    }
+    return result
+  }, [count, itemSize])
+
+  return useMemo(() => {
+    const offsetOf = (index: number): number =>
+      offsets ? offsets[index]! : index * (itemSize as number)
+    const totalSize = offsetOf(count)
+
+    if (count === 0) {
+      return {
+        startIndex: 0,
+        endIndex: 0,
+        offsetBefore: 0,
+        offsetAfter: 0,
+        totalSize,
+      }
+    }
+
+    const start = Math.max(0, Math.min(scrollOffset, totalSize))
+    const end = Math.min(start + viewportSize, totalSize)
+    const firstVisible = offsets
+      ? findItemAt(offsets, start)
+      : Math.floor(start / (itemSize as number))
+    const lastVisible = offsets
+      ? findItemAt(offsets, Math.max(end - 1, start))
+      : Math.floor(Math.max(end - 1, start) / (itemSize as number))
+
+    const startIndex = Math.max(0, firstVisible - overscan)
+    const endIndex = Math.min(count, lastVisible + 1 + overscan)
+
+    return {
+      startIndex,
+      endIndex,
+      offsetBefore: offsetOf(startIndex),
+      offsetAfter: totalSize - offsetOf(endIndex),
+      totalSize,
+    }
+  }, [offsets, itemSize, count, viewportSize, scrollOffset, overscan])
+}
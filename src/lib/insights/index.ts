@@ -0,0 +1,115 @@
+/**
+ * Built-in Insights
+ *
+ * Opt-in library of schema-aware data profiling insights queries. The queries
+ * are generated per data source from the column types of its schema and come
+ * with default renderers.
+ */
+
+import React from 'react'
+// Lucide React icons
+import {
+  AlertTriangle,
+  BarChart3,
+  Fingerprint,
+  GitCompare,
+  LucideIcon,
+  ShieldCheck,
+  TrendingUp,
+} from 'lucide-react'
+import { DataSource, InsightsQuery } from '@/types/sql'
+import {
+  buildProfilingQuery,
+  PROFILING_INSIGHT_CATEGORIES,
+  ProfilingInsightCategory,
+  ProfilingQueryOptions,
+} from './profiling'
+import { PROFILING_INSIGHT_RENDERERS } from './renderers'
+
+export * from './profiling'
+export * from './renderers'
+
+/**
+ * Options of `createProfilingInsights`
+ */
+export interface ProfilingInsightsOptions extends ProfilingQueryOptions {
+  /** Categories to generate (default: all profiling categories) */
+  categories?: ProfilingInsightCategory[] | undefined
+}
+
+const PROFILING_INSIGHT_DETAILS: Record<
+  ProfilingInsightCategory,
+  {
+    name: string
+    description: string
+    icon: LucideIcon
+  }
+> = {
+  summary: {
+    name: 'Summary',
+    description:
+      'Null share, distinct values, range and averages of every column',
+    icon: BarChart3,
+  },
+  validation: {
+    name: 'Data Quality',
+    description: 'Completeness and uniqueness of every column',
+    icon: ShieldCheck,
+  },
+  pattern: {
+    name: 'Value Patterns',
+    description: 'Most frequent shapes of text values',
+    icon: Fingerprint,
+  },
+  anomaly: {
+    name: 'Outliers',
+    description: 'Numeric values far outside the interquartile range',
+    icon: AlertTriangle,
+  },
+  correlation: {
+    name: 'Correlations',
+    description: 'Correlation of numeric column pairs',
+    icon: GitCompare,
+  },
+  trend: {
+    name: 'Trend',
+    description: 'Rows over time of the first date or timestamp column',
+    icon: TrendingUp,
+  },
+}
+
+/**
+ * Generate the profiling insights queries of a data source
+ *
+ * Each query targets the data source's table only. Categories that do not
+ * apply to the schema (e.g. correlations without two numeric columns) are
+ * left out.
+ *
+ * @param dataSource - Data source to profile
+ * @param options - Categories and column limits
+ */
+export function createProfilingInsights(
+  dataSource: DataSource,
+  options: ProfilingInsightsOptions = {}
+): InsightsQuery[] {
+  const { categories = PROFILING_INSIGHT_CATEGORIES, ...queryOptions } = options
+
+  return categories.flatMap(category => {
+    const query = buildProfilingQuery(category, dataSource, queryOptions)
+    if (!query) return []
+
+    const details = PROFILING_INSIGHT_DETAILS[category]
+    return [
+      {
+        id: `profiling-${category}-${dataSource.id}`,
+        name: details.name,
+        description: details.description,
+        query,
+        icon: React.createElement(details.icon, { className: 'h-4 w-4' }),
+        category,
+        targetTables: [dataSource.tableName],
+        renderer: PROFILING_INSIGHT_RENDERERS[category],
+      },
+    ]
+  })
+}
@@ -0,0 +1,241 @@
+/**
+ * Profiling Insight Queries
+ *
+ * Builds data profiling SQL for a data source from the column types of its
+ * schema: a summary, data quality checks, value patterns, outliers,
+ * correlations and a trend over time.
+ */
+
+import { DataSource } from '@/types/sql'
+import { quoteIdentifier, quoteLiteral, quoteTableName } from '@/lib/duckdb/sql'
+import { getBaseDuckDBType } from '@/lib/duckdb/type-labels'
+
+/**
+ * Insight categories covered by the built-in profiling queries
+ */
+export type ProfilingInsightCategory =
+  | 'summary'
+  | 'validation'
+  | 'pattern'
+  | 'anomaly'
+  | 'correlation'
+  | 'trend'
+
+export const PROFILING_INSIGHT_CATEGORIES: ProfilingInsightCategory[] = [
+  'summary',
+  'validation',
+  'pattern',
+  'anomaly',
+  'correlation',
+  'trend',
+]
+
+/**
+ * Options of the profiling query builders
+ */
+export interface ProfilingQueryOptions {
+  /** Maximum number of columns a query looks at (default: 20) */
+  maxColumns?: number | undefined
+  /** Maximum number of numeric columns paired for correlations (default: 8) */
+  maxCorrelationColumns?: number | undefined
+}
+
+const NUMERIC_TYPES = new Set([
+  'TINYINT',
+  'SMALLINT',
+  'INTEGER',
+  'BIGINT',
+  'HUGEINT',
+  'UTINYINT',
+  'USMALLINT',
+  'UINTEGER',
+  'UBIGINT',
+  'FLOAT',
+  'DOUBLE',
+  'REAL',
+  'DECIMAL',
+  'NUMERIC',
+])
+const TEXT_TYPES = new Set([
+  'VARCHAR',
+  'TEXT',
+  'CHAR',
+  'BPCHAR',
+  'STRING',
+  'ENUM',
+])
+const TEMPORAL_TYPES = new Set(['DATE', 'TIMESTAMP', 'TIMESTAMPTZ'])
+
+const DEFAULT_MAX_COLUMNS = 20
+const DEFAULT_MAX_CORRELATION_COLUMNS = 8
+const TOP_PATTERNS_PER_COLUMN = 5
+
+/**
+ * Names of the schema columns whose base type is in `types`
+ */
+const columnsOfTypes = (dataSource: DataSource, types: Set<string>): string[] =>
+  (dataSource.schema ?? [])
+    .filter(column => types.has(getBaseDuckDBType(column.type)))
+    .map(column => column.name)
+
+const unionAll = (selects: string[]): string => selects.join('\nUNION ALL\n')
+
+/**
+ * Column statistics from DuckDB's SUMMARIZE
+ */
+const buildSummaryQuery = (dataSource: DataSource): string =>
+  `SUMMARIZE ${quoteTableName(dataSource.tableName)}`
+
+/**
+ * Completeness and distinct values of every column
+ */
+const buildValidationQuery = (
+  dataSource: DataSource,
+  maxColumns: number
+): string | null => {
+  const columns = (dataSource.schema ?? [])
+    .slice(0, maxColumns)
+    .map(column => column.name)
+  if (columns.length === 0) return null
+
+  const table = quoteTableName(dataSource.tableName)
+  return unionAll(
+    columns.map(
+      column =>
+        `SELECT ${quoteLiteral(column)} AS column_name, COUNT(*) AS total_count, ` +
+        `COUNT(${quoteIdentifier(column)}) AS non_null_count, ` +
+        `COUNT(DISTINCT ${quoteIdentifier(column)}) AS distinct_count ` +
+        `FROM ${table}`
+    )
+  )
+}
+
+/**
+ * Most frequent value shapes of text columns: letters become `A`/`a` and
+ * digits `9`, so e.g. postal codes or IDs with a deviating format stand out
+ */
+const buildPatternQuery = (
+  dataSource: DataSource,
+  maxColumns: number
+): string | null => {
+  const columns = columnsOfTypes(dataSource, TEXT_TYPES).slice(0, maxColumns)
+  if (columns.length === 0) return null
+
+  const table = quoteTableName(dataSource.tableName)
+  return unionAll(
+    columns.map(column => {
+      const value = `left(CAST(${quoteIdentifier(column)} AS VARCHAR), 40)`
+      const shape = `regexp_replace(regexp_replace(regexp_replace(${value}, '[A-Z]', 'A', 'g'), '[a-z]', 'a', 'g'), '[0-9]', '9', 'g')`
+      return (
+        `(SELECT ${quoteLiteral(column)} AS column_name, ${shape} AS pattern, ` +
+        `COUNT(*) AS frequency, ANY_VALUE(${value}) AS example ` +
+        `FROM ${table} WHERE ${quoteIdentifier(column)} IS NOT NULL ` +
+        `GROUP BY pattern ORDER BY frequency DESC LIMIT ${TOP_PATTERNS_PER_COLUMN})`
+      )
+    })
+  )
+}
+
+/**
+ * Outliers of numeric columns, outside 1.5 interquartile ranges
+ */
+const buildAnomalyQuery = (
+  dataSource: DataSource,
+  maxColumns: number
+): string | null => {
+  const columns = columnsOfTypes(dataSource, NUMERIC_TYPES).slice(0, maxColumns)
+  if (columns.length === 0) return null
+
+  const table = quoteTableName(dataSource.tableName)
+  return unionAll(
+    columns.map(column => {
+      const value = `CAST(${quoteIdentifier(column)} AS DOUBLE)`
+      return (
+        `SELECT ${quoteLiteral(column)} AS column_name, value_count, q1, q3, ` +
+        `q1 - 1.5 * (q3 - q1) AS lower_fence, q3 + 1.5 * (q3 - q1) AS upper_fence, ` +
+        `(SELECT COUNT(*) FROM ${table} ` +
+        `WHERE ${value} NOT BETWEEN q1 - 1.5 * (q3 - q1) AND q3 + 1.5 * (q3 - q1)) AS outlier_count ` +
+        `FROM (SELECT COUNT(${value}) AS value_count, quantile_cont(${value}, 0.25) AS q1, ` +
+        `quantile_cont(${value}, 0.75) AS q3 FROM ${table})`
+      )
+    })
+  )
+}
+
+/**
+ * Pearson correlation of every pair of numeric columns, strongest first
+ */
+const buildCorrelationQuery = (
+  dataSource: DataSource,
+  maxColumns: number
+): string | null => {
+  const columns = columnsOfTypes(dataSource, NUMERIC_TYPES).slice(0, maxColumns)
+  if (columns.length < 2) return null
+
+  const table = quoteTableName(dataSource.tableName)
+  const pairs = columns.flatMap((columnA, index) =>
+    columns.slice(index + 1).map(columnB => [columnA, columnB] as const)
+  )
+  const selects = pairs.map(
+    ([columnA, columnB]) =>
+      `SELECT ${quoteLiteral(columnA)} AS column_a, ${quoteLiteral(columnB)} AS column_b, ` +
+      `corr(CAST(${quoteIdentifier(columnA)} AS DOUBLE), CAST(${quoteIdentifier(columnB)} AS DOUBLE)) AS correlation ` +
+      `FROM ${table}`
+  )
+  return `SELECT * FROM (\n${unionAll(selects)}\n) ORDER BY abs(correlation) DESC NULLS LAST`
+}
+
+/**
+ * Row counts over the first date/timestamp column, in periods that fit the
+ * covered time span
+ */
+const buildTrendQuery = (dataSource: DataSource): string | null => {
+  const column = columnsOfTypes(dataSource, TEMPORAL_TYPES)[0]
+  if (!column) return null
+
+  const table = quoteTableName(dataSource.tableName)
+  const value = `CAST(${quoteIdentifier(column)} AS TIMESTAMP)`
+  return [
+    `WITH span AS (SELECT date_diff('day', MIN(${value}), MAX(${value})) AS days FROM ${table}),`,
+    `unit AS (SELECT CASE WHEN days > 730 THEN 'month' WHEN days > 90 THEN 'week' WHEN days > 2 THEN 'day' ELSE 'hour' END AS part FROM span)`,
+    `SELECT ${quoteLiteral(column)} AS column_name, date_trunc((SELECT part FROM unit), ${value}) AS period, COUNT(*) AS row_count`,
+    `FROM ${table}`,
+    `WHERE ${value} IS NOT NULL`,
+    `GROUP BY period`,
+    `ORDER BY period`,
+  ].join('\n')
+}
+
+/**
+ * Build the profiling SQL of a category for a data source
+ *
+ * @param category - Insight category
+ * @param dataSource - Data source to profile; column based categories need its `schema`
+ * @param options - Column limits
+ * @returns The SQL, or null when the data source has no columns the category applies to
+ */
+export function buildProfilingQuery(
+  category: ProfilingInsightCategory,
+  dataSource: DataSource,
+  options: ProfilingQueryOptions = {}
+): string | null {
+  const maxColumns = options.maxColumns ?? DEFAULT_MAX_COLUMNS
+
+  switch (category) {
+    case 'summary':
+      return buildSummaryQuery(dataSource)
+    case 'validation':
+      return buildValidationQuery(dataSource, maxColumns)
+    case 'pattern':
+      return buildPatternQuery(dataSource, maxColumns)
+    case 'anomaly':
+      return buildAnomalyQuery(dataSource, maxColumns)
+    case 'correlation':
+      return buildCorrelationQuery(
+        dataSource,
+        options.maxCorrelationColumns ?? DEFAULT_MAX_CORRELATION_COLUMNS
+      )
+    case 'trend':
+      return buildTrendQuery(dataSource)
+  }
+}
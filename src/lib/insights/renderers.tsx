@@ -0,0 +1,358 @@
+/**
+ * Profiling Insight Renderers
+ *
+ * Default visualizations of the results of the profiling queries built by
+ * `buildProfilingQuery`, one per category.
+ */
+
+import React from 'react'
+// Lucide React icons
+import {
+  AlertTriangle,
+  BarChart3,
+  Fingerprint,
+  GitCompare,
+  ShieldCheck,
+  TrendingUp,
+} from 'lucide-react'
+import { QueryResult } from '@/types/sql'
+import { TypeBadge } from '@/lib/duckdb/type-labels'
+import { formatResultValue } from '@/lib/duckdb/values'
+import { Badge } from '@/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { cn } from '@/lib/utils'
+import { ProfilingInsightCategory } from './profiling'
+
+type Row = Record<string, unknown>
+
+interface InsightCardProps {
+  icon: React.ReactNode
+  title: string
+  description: string
+  children: React.ReactNode
+}
+
+const toNumber = (value: unknown): number =>
+  value === null || value === undefined ? NaN : Number(value)
+
+const formatNumber = (value: unknown, maximumFractionDigits = 2): string => {
+  const number = toNumber(value)
+  return Number.isFinite(number)
+    ? number.toLocaleString(undefined, { maximumFractionDigits })
+    : formatResultValue(value)
+}
+
+const formatPercentage = (part: number, total: number): string =>
+  total > 0 ? `${((part / total) * 100).toFixed(1)}%` : '0%'
+
+/**
+ * Group rows by their `column_name`, keeping first-seen order
+ */
+const groupByColumn = (rows: Row[]): Map<string, Row[]> => {
+  const groups = new Map<string, Row[]>()
+  for (const row of rows) {
+    const column = String(row.column_name)
+    groups.set(column, [...(groups.get(column) ?? []), row])
+  }
+  return groups
+}
+
+function InsightCard({
+  icon,
+  title,
+  description,
+  children,
+}: InsightCardProps): React.ReactNode {
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {icon}
+          {title}
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Horizontal bar with a label, sized relative to `max`
+ */
+function ValueBar({
+  label,
+  value,
+  max,
+  detail,
+  className,
+}: {
+  label: React.ReactNode
+  value: number
+  max: number
+  detail: React.ReactNode
+  className?: string | undefined
+}): React.ReactNode {
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <span className="w-40 shrink-0 font-mono truncate">{label}</span>
+      <div className="flex-1 h-2 bg-muted rounded-sm overflow-hidden">
+        <div
+          className={cn('h-full bg-primary/70', className)}
+          style={{ width: `${max > 0 ? (value / max) * 100 : 0}%` }}
+        />
+      </div>
+      <span className="w-28 shrink-0 text-right text-xs text-muted-foreground">
+        {detail}
+      </span>
+    </div>
+  )
+}
+
+export function renderSummaryInsight(result: QueryResult): React.ReactNode {
+  return (
+    <InsightCard
+      icon={<BarChart3 className="h-5 w-5" />}
+      title="Summary"
+      description={`Statistics of ${result.data.length} columns`}
+    >
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-muted-foreground border-b">
+              <th className="py-2 pr-4 font-medium">Column</th>
+              <th className="py-2 pr-4 font-medium">Type</th>
+              <th className="py-2 pr-4 font-medium text-right">Nulls</th>
+              <th className="py-2 pr-4 font-medium text-right">Distinct</th>
+              <th className="py-2 pr-4 font-medium">Min</th>
+              <th className="py-2 pr-4 font-medium">Max</th>
+              <th className="py-2 font-medium text-right">Average</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.data.map(row => (
+              <tr key={String(row.column_name)} className="border-b">
+                <td className="py-1.5 pr-4 font-mono">
+                  {String(row.column_name)}
+                </td>
+                <td className="py-1.5 pr-4">
+                  <TypeBadge type={String(row.column_type)} />
+                </td>
+                <td className="py-1.5 pr-4 text-right">
+                  {formatNumber(row.null_percentage)}%
+                </td>
+                <td className="py-1.5 pr-4 text-right">
+                  ~{formatNumber(row.approx_unique)}
+                </td>
+                <td className="py-1.5 pr-4 font-mono max-w-40 truncate">
+                  {formatResultValue(row.min)}
+                </td>
+                <td className="py-1.5 pr-4 font-mono max-w-40 truncate">
+                  {formatResultValue(row.max)}
+                </td>
+                <td className="py-1.5 text-right font-mono">
+                  {row.avg === null || row.avg === undefined
+                    ? ''
+                    : formatNumber(row.avg)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </InsightCard>
+  )
+}
+
+export function renderValidationInsight(result: QueryResult): React.ReactNode {
+  return (
+    <InsightCard
+      icon={<ShieldCheck className="h-5 w-5" />}
+      title="Data Quality"
+      description="Completeness and distinct values per column"
+    >
+      <div className="space-y-4">
+        {result.data.map(row => {
+          const total = toNumber(row.total_count)
+          const nonNull = toNumber(row.non_null_count)
+          const distinct = toNumber(row.distinct_count)
+          const completeness = total > 0 ? (nonNull / total) * 100 : 0
+          return (
+            <div key={String(row.column_name)} className="space-y-1.5">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-mono text-sm truncate">
+                  {String(row.column_name)}
+                </span>
+                <div className="flex items-center gap-1 shrink-0">
+                  {total > 0 && distinct === total && (
+                    <Badge variant="outline">Unique</Badge>
+                  )}
+                  {distinct === 1 && <Badge variant="outline">Constant</Badge>}
+                  <Badge
+                    variant={completeness === 100 ? 'default' : 'secondary'}
+                  >
+                    {formatPercentage(nonNull, total)} complete
+                  </Badge>
+                </div>
+              </div>
+              <Progress value={completeness} className="h-2" />
+              <div className="text-xs text-muted-foreground">
+                {(total - nonNull).toLocaleString()} nulls,{' '}
+                {distinct.toLocaleString()} distinct values in{' '}
+                {total.toLocaleString()} rows
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </InsightCard>
+  )
+}
+
+export function renderPatternInsight(result: QueryResult): React.ReactNode {
+  return (
+    <InsightCard
+      icon={<Fingerprint className="h-5 w-5" />}
+      title="Value Patterns"
+      description="Most frequent shapes of text values (A = upper case, a = lower case, 9 = digit)"
+    >
+      <div className="space-y-5">
+        {[...groupByColumn(result.data)].map(([column, rows]) => {
+          const max = Math.max(...rows.map(row => toNumber(row.frequency)))
+          return (
+            <div key={column} className="space-y-1.5">
+              <div className="font-mono text-sm font-medium">{column}</div>
+              {rows.map(row => (
+                <ValueBar
+                  key={String(row.pattern)}
+                  label={
+                    <span title={`e.g. ${String(row.example)}`}>
+                      {String(row.pattern)}
+                    </span>
+                  }
+                  value={toNumber(row.frequency)}
+                  max={max}
+                  detail={formatNumber(row.frequency)}
+                />
+              ))}
+            </div>
+          )
+        })}
+      </div>
+    </InsightCard>
+  )
+}
+
+export function renderAnomalyInsight(result: QueryResult): React.ReactNode {
+  return (
+    <InsightCard
+      icon={<AlertTriangle className="h-5 w-5" />}
+      title="Outliers"
+      description="Values outside 1.5 interquartile ranges of the middle half"
+    >
+      <div className="space-y-4">
+        {result.data.map(row => {
+          const outliers = toNumber(row.outlier_count)
+          const values = toNumber(row.value_count)
+          return (
+            <div key={String(row.column_name)} className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-mono text-sm truncate">
+                  {String(row.column_name)}
+                </span>
+                <Badge variant={outliers > 0 ? 'destructive' : 'outline'}>
+                  {outliers.toLocaleString()} outliers (
+                  {formatPercentage(outliers, values)})
+                </Badge>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Expected range {formatNumber(row.lower_fence)} to{' '}
+                {formatNumber(row.upper_fence)} (quartiles{' '}
+                {formatNumber(row.q1)} and {formatNumber(row.q3)})
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </InsightCard>
+  )
+}
+
+export function renderCorrelationInsight(result: QueryResult): React.ReactNode {
+  return (
+    <InsightCard
+      icon={<GitCompare className="h-5 w-5" />}
+      title="Correlations"
+      description="Pearson correlation of numeric column pairs, strongest first"
+    >
+      <div className="space-y-1.5">
+        {result.data.map(row => {
+          const correlation = toNumber(row.correlation)
+          const isDefined = Number.isFinite(correlation)
+          return (
+            <ValueBar
+              key={`${String(row.column_a)}-${String(row.column_b)}`}
+              label={`${String(row.column_a)} ~ ${String(row.column_b)}`}
+              value={isDefined ? Math.abs(correlation) : 0}
+              max={1}
+              detail={isDefined ? correlation.toFixed(3) : 'n/a'}
+              className={correlation < 0 ? 'bg-destructive/70' : undefined}
+            />
+          )
+        })}
+      </div>
+    </InsightCard>
+  )
+}
+
+export function renderTrendInsight(result: QueryResult): React.ReactNode {
+  const counts = result.data.map(row => toNumber(row.row_count))
+  const max = Math.max(0, ...counts)
+  const first = result.data[0]
+  const last = result.data[result.data.length - 1]
+
+  return (
+    <InsightCard
+      icon={<TrendingUp className="h-5 w-5" />}
+      title="Trend"
+      description={`Rows per period of ${String(first?.column_name ?? '')}`}
+    >
+      <div className="flex items-end gap-px h-40">
+        {result.data.map((row, index) => (
+          <div
+            key={index}
+            className="flex-1 min-w-px bg-primary/70 rounded-t-sm"
+            style={{ height: `${max > 0 ? (counts[index]! / max) * 100 : 0}%` }}
+            title={`${formatResultValue(row.period)}: ${formatNumber(row.row_count)}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between mt-2 text-xs text-muted-foreground font-mono">
+        <span>{first ? formatResultValue(first.period) : ''}</span>
+        <span>{last ? formatResultValue(last.period) : ''}</span>
+      </div>
+    </InsightCard>
+  )
+}
+
+/**
+ * Default renderer of each profiling category
+ */
+export const PROFILING_INSIGHT_RENDERERS: Record<
+  ProfilingInsightCategory,
+  (result: QueryResult) => React.ReactNode
+> = {
+  summary: renderSummaryInsight,
+  validation: renderValidationInsight,
+  pattern: renderPatternInsight,
+  anomaly: renderAnomalyInsight,
+  correlation: renderCorrelationInsight,
+  trend: renderTrendInsight,
+}
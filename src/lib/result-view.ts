@@ -0,0 +1,258 @@
+/**
+ * Result View
+ *
+ * Sorting and filtering on top of a query result. Small results are sorted
+ * and filtered in memory; large (paged) results push the view down into the
+ * database by wrapping the original query.
+ */
+
+import type {
+  ColumnFilter,
+  ColumnSort,
+  QueryResult,
+  ResultView,
+} from '@/types/sql'
+import { quoteIdentifier, quoteLiteral } from '@/lib/duckdb/sql'
+import { isDecimalString } from '@/lib/duckdb/values'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * A view without sorts or filters
+ */
+export const EMPTY_RESULT_VIEW: ResultView = { sorts: [], filters: [] }
+
+/**
+ * Whether a filter has at least one condition set
+ */
+export function isColumnFilterActive(filter: ColumnFilter): boolean {
+  return (
+    !!filter.contains ||
+    filter.min !== undefined ||
+    filter.max !== undefined ||
+    !!filter.from ||
+    !!filter.to ||
+    filter.isNull !== undefined
+  )
+}
+
+/**
+ * Whether a view changes the result at all
+ */
+export function isResultViewActive(view: ResultView): boolean {
+  return view.sorts.length > 0 || view.filters.some(isColumnFilterActive)
+}
+
+/**
+ * Apply a click on a column's sort control
+ *
+ * A plain click sorts by that column only, cycling ascending, descending and
+ * unsorted. With `multiSort` (shift-click) the column is added to, cycled
+ * within or removed from the existing sorts.
+ */
+export function toggleColumnSort(
+  sorts: ColumnSort[],
+  column: string,
+  multiSort: boolean
+): ColumnSort[] {
+  const existing = sorts.find(sort => sort.column === column)
+  const next: ColumnSort | null = !existing
+    ? { column, direction: 'asc' }
+    : existing.direction === 'asc'
+      ? { column, direction: 'desc' }
+      : null
+
+  if (!multiSort) {
+    return next ? [next] : []
+  }
+  if (!existing) {
+    return [...sorts, next!]
+  }
+  return next
+    ? sorts.map(sort => (sort.column === column ? next : sort))
+    : sorts.filter(sort => sort.column !== column)
+}
+
+/**
+ * Convert a cell value to a timestamp (ms) for date comparisons
+ */
+const toTime = (value: unknown): number => {
+  if (value instanceof Date) return value.getTime()
+  if (typeof value === 'number') return value
+  if (typeof value === 'bigint') return Number(value)
+  return new Date(String(value)).getTime()
+}
+
+/**
+ * Whether a cell value passes a column filter
+ */
+const matchesFilter = (value: unknown, filter: ColumnFilter): boolean => {
+  const isNull = value === null || value === undefined
+  if (filter.isNull !== undefined && filter.isNull !== isNull) return false
+  if (isNull) return filter.isNull === true || !isColumnFilterActive(filter)
+
+  if (
+    filter.contains &&
+    !String(value).toLowerCase().includes(filter.contains.toLowerCase())
+  ) {
+    return false
+  }
+
+  if (filter.min !== undefined || filter.max !== undefined) {
+    const number = Number(value)
+    if (Number.isNaN(number)) return false
+    if (filter.min !== undefined && number < filter.min) return false
+    if (filter.max !== undefined && number > filter.max) return false
+  }
+
+  if (filter.from || filter.to) {
+    const time = toTime(value)
+    if (Number.isNaN(time)) return false
+    if (filter.from && time < Date.parse(filter.from)) return false
+    if (filter.to && time >= Date.parse(filter.to) + DAY_MS) return false
+  }
+
+  return true
+}
+
+/**
+ * Compare two exact decimal strings without converting them to (imprecise)
+ * numbers: the fractions are padded to the same scale and the digits compared
+ * as integers
+ */
+const compareDecimalStrings = (a: string, b: string): number => {
+  const [aInteger = '', aFraction = ''] = a.split('.')
+  const [bInteger = '', bFraction = ''] = b.split('.')
+  const scale = Math.max(aFraction.length, bFraction.length)
+  const aScaled = BigInt(aInteger + aFraction.padEnd(scale, '0'))
+  const bScaled = BigInt(bInteger + bFraction.padEnd(scale, '0'))
+  return aScaled < bScaled ? -1 : aScaled > bScaled ? 1 : 0
+}
+
+/**
+ * Compare two cell values; NULLs sort last regardless of direction
+ */
+const compareValues = (a: unknown, b: unknown): number => {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime()
+  }
+  if (
+    (typeof a === 'number' || typeof a === 'bigint') &&
+    (typeof b === 'number' || typeof b === 'bigint')
+  ) {
+    return a < b ? -1 : a > b ? 1 : 0
+  }
+  if (typeof a === 'boolean' && typeof b === 'boolean') {
+    return Number(a) - Number(b)
+  }
+  // Exact DECIMAL/HUGEINT values are kept as strings
+  if (isDecimalString(a) && isDecimalString(b)) {
+    return compareDecimalStrings(a, b)
+  }
+  return String(a).localeCompare(String(b), undefined, { numeric: true })
+}
+
+/**
+ * Sort and filter a query result in memory
+ *
+ * @param result - The query result
+ * @param view - Sorts and filters to apply
+ * @returns A new result with matching rows in sort order (or the same result
+ * when the view is empty)
+ */
+export function applyResultView(
+  result: QueryResult,
+  view: ResultView
+): QueryResult {
+  if (!isResultViewActive(view)) return result
+
+  const filters = view.filters.filter(isColumnFilterActive)
+  const data = result.data.filter(row =>
+    filters.every(filter => matchesFilter(row[filter.column], filter))
+  )
+
+  if (view.sorts.length > 0) {
+    data.sort((rowA, rowB) => {
+      for (const sort of view.sorts) {
+        const a = rowA[sort.column]
+        const b = rowB[sort.column]
+        const aIsNull = a === null || a === undefined
+        const bIsNull = b === null || b === undefined
+        if (aIsNull || bIsNull) {
+          if (aIsNull !== bIsNull) return aIsNull ? 1 : -1
+          continue
+        }
+        const comparison = compareValues(a, b)
+        if (comparison !== 0) {
+          return sort.direction === 'asc' ? comparison : -comparison
+        }
+      }
+      return 0
+    })
+  }
+
+  return { ...result, data }
+}
+
+/**
+ * Build the SQL conditions for one column filter
+ */
+const filterConditions = (filter: ColumnFilter): string[] => {
+  const column = quoteIdentifier(filter.column)
+  const conditions: string[] = []
+
+  if (filter.isNull !== undefined) {
+    conditions.push(`${column} IS ${filter.isNull ? '' : 'NOT '}NULL`)
+  }
+  if (filter.contains) {
+    conditions.push(
+      `contains(lower(CAST(${column} AS VARCHAR)), ${quoteLiteral(filter.contains.toLowerCase())})`
+    )
+  }
+  if (filter.min !== undefined && Number.isFinite(filter.min)) {
+    conditions.push(`${column} >= ${filter.min}`)
+  }
+  if (filter.max !== undefined && Number.isFinite(filter.max)) {
+    conditions.push(`${column} <= ${filter.max}`)
+  }
+  if (filter.from) {
+    conditions.push(
+      `CAST(${column} AS DATE) >= DATE ${quoteLiteral(filter.from)}`
+    )
+  }
+  if (filter.to) {
+    conditions.push(
+      `CAST(${column} AS DATE) <= DATE ${quoteLiteral(filter.to)}`
+    )
+  }
+
+  return conditions
+}
+
+/**
+ * Wrap a query so the database applies the view
+ *
+ * Only use this for plain queries (see `isRowReturningQuery`).
+ *
+ * @param query - The original query
+ * @param view - Sorts and filters to apply
+ * @returns The wrapped query, or the original query when the view is empty
+ */
+export function buildResultViewQuery(query: string, view: ResultView): string {
+  if (!isResultViewActive(view)) return query
+
+  const conditions = view.filters.flatMap(filterConditions)
+  const orderBy = view.sorts.map(
+    sort =>
+      `${quoteIdentifier(sort.column)} ${sort.direction === 'asc' ? 'ASC' : 'DESC'} NULLS LAST`
+  )
+
+  // Newlines keep a trailing line comment from swallowing the closing paren
+  return [
+    `SELECT * FROM (\n${query}\n) AS view_result`,
+    conditions.length > 0 && `WHERE ${conditions.join(' AND ')}`,
+    orderBy.length > 0 && `ORDER BY ${orderBy.join(', ')}`,
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
@@ -2,15 +2,34 @@
  * DuckDB SQL Completion Provider
  *
  * Provides intelligent SQL autocompletion for DuckDB with support for:
- * - DuckDB-specific functions and keywords
- * - Real table and column completion from data source schemas
+ * - Functions, keywords, tables, views and columns from the live DuckDB
+ *   catalog, including temporary tables and attached databases
+ * - Table and column completion from data source schemas without a connection
  * - Context-aware suggestions based on FROM/JOIN clauses
  * - Qualified column completion (table.column notation)
  * - Function signatures and parameter hints
  * - Smart table detection with schema information
  */
 
-import { DataSource } from '@/types/sql'
+import { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm'
+import { getDuckDBCatalog } from '@/lib/duckdb/catalog'
+import {
+  formatIdentifier,
+  quoteIdentifier,
+  quoteTableName,
+} from '@/lib/duckdb/sql'
+import { formatResultValue } from '@/lib/duckdb/values'
+import {
+  findStatementAtOffset,
+  skipQuotedOrComment,
+} from '@/lib/sql-statements'
+import {
+  CatalogFunction,
+  CatalogRelation,
+  ColumnInfo,
+  DataSource,
+  DuckDBCatalog,
+} from '@/types/sql'
 
 export interface CompletionContext {
   /** Current data sources available for completion */
@@ -19,8 +38,8 @@ export interface CompletionContext {
   query: string
   /** Current cursor position */
   position: number
-  /** Database connection for dynamic schema inspection */
-  connection?: any
+  /** Database connection whose catalog is completed (cached, see `getDuckDBCatalog`) */
+  connection?: AsyncDuckDBConnection | null | undefined
 }
 
 /**
@@ -327,8 +346,173 @@ const FUNCTION_SIGNATURES: Record<string, string> = {
   GLOB: 'GLOB(pattern)',
 }
 
+/**
+ * A table, view or CTE that can be completed
+ */
+interface CompletionRelation {
+  /** Name as written in SQL, qualified for other databases and schemas */
+  name: string
+  /** Database of catalog relations */
+  database?: string | undefined
+  /** Name within the database of catalog relations (`table` or `schema.table`) */
+  pathInDatabase?: string | undefined
+  kind: 'table' | 'view' | 'cte'
+  columns: ColumnInfo[]
+  /** Markdown documentation of the completion item */
+  documentation: string
+}
+
+const IDENTIFIER_PATTERN = '[a-zA-Z_][a-zA-Z0-9_]*'
+const NAME_PART_PATTERN = `(?:${IDENTIFIER_PATTERN}|"(?:[^"]|"")*")`
+const QUALIFIED_NAME_PATTERN = `(?:${NAME_PART_PATTERN}\\.){0,2}${NAME_PART_PATTERN}`
+
+/**
+ * Read the catalog of the completion context's connection, if there is one
+ */
+async function getCompletionCatalog(
+  context: CompletionContext
+): Promise<DuckDBCatalog | null> {
+  if (!context.connection) return null
+  try {
+    return await getDuckDBCatalog(context.connection)
+  } catch (error) {
+    console.warn(
+      '[blockether-foundation-react] Failed to read the DuckDB catalog, completing from data sources:',
+      error
+    )
+    return null
+  }
+}
+
+/**
+ * Name a catalog relation is referenced by: unqualified in the main schema of
+ * the current database and for temporary tables, qualified otherwise
+ */
+function getCatalogRelationName(
+  relation: CatalogRelation,
+  catalog: DuckDBCatalog
+): string {
+  const name = formatIdentifier(relation.name)
+  if (relation.database === 'temp') return name
+  if (relation.database === catalog.currentDatabase) {
+    return relation.schema === 'main'
+      ? name
+      : `${formatIdentifier(relation.schema)}.${name}`
+  }
+  return relation.schema === 'main'
+    ? `${formatIdentifier(relation.database)}.${name}`
+    : `${formatIdentifier(relation.database)}.${formatIdentifier(relation.schema)}.${name}`
+}
+
+/**
+ * Markdown documentation of a relation: its origin and first columns
+ */
+function getRelationDocumentation(
+  title: string,
+  columns: ColumnInfo[]
+): string {
+  let documentation = title
+
+  if (columns.length > 0) {
+    documentation += '\n\n**Schema:**\n'
+    for (const column of columns.slice(0, 10)) {
+      // Limit to first 10 columns
+      documentation += `• \`${column.name}\` (${column.type})\n`
+    }
+    if (columns.length > 10) {
+      documentation += `... and ${columns.length - 10} more columns`
+    }
+  }
+
+  return documentation
+}
+
+/**
+ * Names of the CTEs defined in a query
+ */
+function getCTENames(query: string): string[] {
+  const names: string[] = []
+  const ctePattern = new RegExp(
+    `(?:\\bWITH(?:\\s+RECURSIVE)?|,)\\s*(${IDENTIFIER_PATTERN})\\s+AS\\s*(?:(?:NOT\\s+)?MATERIALIZED\\s*)?\\(`,
+    'gi'
+  )
+  let match
+  while ((match = ctePattern.exec(query)) !== null) {
+    names.push(match[1]!)
+  }
+  return names
+}
+
+/**
+ * Relations available for completion: the live catalog when there is one,
+ * otherwise the data sources, plus the CTEs of the query
+ */
+function getCompletionRelations(
+  query: string,
+  dataSources: DataSource[],
+  catalog: DuckDBCatalog | null
+): CompletionRelation[] {
+  const relations: CompletionRelation[] = catalog
+    ? catalog.relations.map(relation => {
+        const name = getCatalogRelationName(relation, catalog)
+        const dataSource = dataSources.find(ds => ds.tableName === name)
+        const title = dataSource
+          ? `${dataSource.type === 'file' ? 'Imported file' : 'Table'}: ${dataSource.name}`
+          : `${relation.temporary ? 'Temporary ' : ''}${relation.kind === 'view' ? 'View' : 'Table'}: ${relation.database}.${relation.schema}.${relation.name}`
+        return {
+          name,
+          database: relation.database,
+          pathInDatabase:
+            relation.schema === 'main'
+              ? formatIdentifier(relation.name)
+              : `${formatIdentifier(relation.schema)}.${formatIdentifier(relation.name)}`,
+          kind: relation.kind,
+          columns: relation.columns,
+          documentation: getRelationDocumentation(title, relation.columns),
+        }
+      })
+    : dataSources.map(dataSource => ({
+        name: dataSource.tableName,
+        kind: 'table' as const,
+        columns: dataSource.schema ?? [],
+        documentation: getRelationDocumentation(
+          `${dataSource.type === 'file' ? 'Imported file' : 'Table'}: ${dataSource.name}`,
+          dataSource.schema ?? []
+        ),
+      }))
+
+  for (const cteName of getCTENames(query)) {
+    if (!relations.some(relation => relation.name === cteName)) {
+      relations.push({
+        name: cteName,
+        kind: 'cte',
+        columns: [],
+        documentation: `Common table expression: ${cteName}`,
+      })
+    }
+  }
+
+  return relations
+}
+
+/**
+ * Find a relation by the name it is referenced by (case-insensitive, like
+ * DuckDB)
+ */
+function findRelation(
+  relations: CompletionRelation[],
+  name: string
+): CompletionRelation | undefined {
+  const lowerName = name.toLowerCase()
+  return relations.find(relation => relation.name.toLowerCase() === lowerName)
+}
+
 /**
  * Create DuckDB completion provider for Monaco Editor
+ *
+ * With a connection, tables, views, columns, functions and keywords come from
+ * the live DuckDB catalog (see `getDuckDBCatalog`); without one, from the data
+ * source schemas and built-in lists.
  */
 export function createDuckDBCompletionProvider(
   context: CompletionContext
@@ -349,14 +533,10 @@ export function createDuckDBCompletionProvider(
   }
 
   return {
-    provideCompletionItems: async (model: any, position: any) => {
-      console.log('[blockether-foundation-react] Providing completions at position:', {
-        line: position.lineNumber,
-        column: position.column,
-      })
+    triggerCharacters: ['.'],
 
+    provideCompletionItems: async (model: any, position: any) => {
       const word = model.getWordUntilPosition(position)
-      console.log('[blockether-foundation-react] Current word:', word)
 
       const range = {
         startLineNumber: position.lineNumber,
@@ -373,8 +553,6 @@ export function createDuckDBCompletionProvider(
         return { suggestions: [] }
       }
 
-      console.log('[blockether-foundation-react] Monaco instance found:', !!currentMonaco)
-
       const suggestions: any[] = []
 
       // Get context around current position
@@ -385,102 +563,100 @@ export function createDuckDBCompletionProvider(
         endColumn: position.column,
       })
 
-      console.log('[blockether-foundation-react] Text before cursor:', textBeforeCursor)
-      console.log('[blockether-foundation-react] Line content:', model.getLineContent(position.lineNumber))
-
-      // Check specific patterns for table completion
-      const currentLine = model.getLineContent(position.lineNumber)
-      const textBeforeCursorInLine = currentLine.substring(
-        0,
-        position.column - 1
-      )
-      const fromMatch = textBeforeCursorInLine.match(/\bFROM\s+$/i)
-      const describeMatch = textBeforeCursorInLine.match(/\bDESCRIBE\s+$/i)
-      const fromPartialMatch = textBeforeCursorInLine.match(/\bFROM\s+(\w*)$/i)
-      const describePartialMatch =
-        textBeforeCursorInLine.match(/\bDESCRIBE\s+(\w*)$/i)
-
-      console.log('[blockether-foundation-react] Table completion patterns:')
-      console.log('  - FROM exact match:', !!fromMatch)
-      console.log('  - DESCRIBE exact match:', !!describeMatch)
-      console.log('  - FROM partial match:', fromPartialMatch)
-      console.log('  - DESCRIBE partial match:', describePartialMatch)
-
-      // Add keyword suggestions
-      const keywordSuggestions = getKeywordSuggestions(
-        range,
-        textBeforeCursor,
-        currentMonaco
-      )
-      console.log('[blockether-foundation-react] Keyword suggestions:', keywordSuggestions.length)
-      suggestions.push(...keywordSuggestions)
-
-      // Add function suggestions
-      const functionSuggestions = getFunctionSuggestions(
-        range,
-        textBeforeCursor,
-        currentMonaco
-      )
-      console.log('[blockether-foundation-react] Function suggestions:', functionSuggestions.length)
-      suggestions.push(...functionSuggestions)
-
-      // Add table suggestions from data sources
-      const tableSuggestions = getTableSuggestions(
-        range,
+      const catalog = await getCompletionCatalog(context)
+      const relations = getCompletionRelations(
         textBeforeCursor,
         context.dataSources,
-        currentMonaco
+        catalog
       )
-      console.log('[blockether-foundation-react] Table suggestions:', tableSuggestions.length)
-      suggestions.push(...tableSuggestions)
 
-      // Add column suggestions if we're in a context where columns make sense
-      const tableContext = getTableContext(
-        textBeforeCursor,
-        context.dataSources
+      // Qualified names (database.table, table.column or alias.column) only
+      // complete what the qualifier contains
+      const qualifierMatch = textBeforeCursor.match(
+        new RegExp(`(${QUALIFIED_NAME_PATTERN})\\.(${IDENTIFIER_PATTERN})?$`)
       )
-      console.log('[blockether-foundation-react] Table context:', tableContext)
+      if (qualifierMatch) {
+        const qualifier = qualifierMatch[1]!
+        const afterDotRange = {
+          ...range,
+          startColumn: position.column - (qualifierMatch[2]?.length ?? 0),
+        }
 
-      // Check if we're dealing with qualified column names (table.column)
-      const qualifiedColumnMatch = textBeforeCursor.match(
-        /([a-zA-Z_][a-zA-Z0-9_]*)\.$/
-      )
-      if (qualifiedColumnMatch) {
-        console.log('[blockether-foundation-react] Qualified column match:', qualifiedColumnMatch[1])
-        const tableName = qualifiedColumnMatch[1]
-        const dataSource = context.dataSources.find(
-          ds => ds.tableName === tableName
+        const databaseRelations = catalog?.databases.some(
+          database => database.toLowerCase() === qualifier.toLowerCase()
         )
-        if (dataSource?.schema) {
-          const qualifiedColumnSuggestions = getQualifiedColumnSuggestions(
-            { ...range, startColumn: range.endColumn }, // Start after the dot
-            dataSource,
-            currentMonaco
+          ? relations.filter(
+              relation =>
+                relation.database?.toLowerCase() === qualifier.toLowerCase()
+            )
+          : []
+        if (databaseRelations.length > 0) {
+          suggestions.push(
+            ...getTableSuggestions(
+              afterDotRange,
+              databaseRelations.map(relation => ({
+                ...relation,
+                // The database part is already typed
+                name: relation.pathInDatabase ?? relation.name,
+              })),
+              currentMonaco
+            )
           )
-          console.log(
-            '[blockether-foundation-react] Qualified column suggestions:',
-            qualifiedColumnSuggestions.length
+          return { suggestions }
+        }
+
+        const relation =
+          getReferencedRelations(textBeforeCursor, relations).get(
+            qualifier.toLowerCase()
+          ) ?? findRelation(relations, qualifier)
+        if (relation) {
+          suggestions.push(
+            ...getQualifiedColumnSuggestions(
+              afterDotRange,
+              relation,
+              currentMonaco
+            )
           )
-          suggestions.push(...qualifiedColumnSuggestions)
+          return { suggestions }
         }
-      } else if (tableContext.length > 0 || context.dataSources.length > 0) {
-        const columnSuggestions = getColumnSuggestions(
+      }
+
+      // Add keyword suggestions
+      suggestions.push(
+        ...getKeywordSuggestions(
           range,
-          textBeforeCursor,
-          tableContext,
-          context.dataSources,
+          catalog?.keywords ?? null,
           currentMonaco
         )
-        console.log('[blockether-foundation-react] Column suggestions:', columnSuggestions.length)
-        suggestions.push(...columnSuggestions)
-      }
+      )
 
-      console.log('[blockether-foundation-react] Total suggestions generated:', suggestions.length)
-      console.log(
-        '[blockether-foundation-react] Sample suggestions:',
-        suggestions.slice(0, 3).map(s => s.label)
+      // Add function suggestions
+      suggestions.push(
+        ...(catalog
+          ? getCatalogFunctionSuggestions(
+              range,
+              catalog.functions,
+              currentMonaco
+            )
+          : getFunctionSuggestions(range, textBeforeCursor, currentMonaco))
+      )
+
+      // Add table suggestions
+      suggestions.push(...getTableSuggestions(range, relations, currentMonaco))
+
+      // Add column suggestions of the tables the query refers to, or of all
+      // tables when it refers to none yet
+      const tableContext = [
+        ...new Set(
+          getReferencedRelations(textBeforeCursor, relations).values()
+        ),
+      ]
+      suggestions.push(
+        ...getColumnSuggestions(range, tableContext, relations, currentMonaco)
       )
 
+      console.log('[blockether-foundation-react] Total suggestions generated:', suggestions.length)
+
       return { suggestions }
     },
 
@@ -515,16 +691,19 @@ export function createDuckDBCompletionProvider(
 }
 
 /**
- * Get keyword suggestions based on context
+ * Get keyword suggestions, from the catalog's keywords when available
  */
 function getKeywordSuggestions(
   range: any,
-  _textBeforeCursor: string,
+  catalogKeywords: string[] | null,
   monaco: any
 ): any[] {
   const suggestions: any[] = []
+  const keywords = catalogKeywords
+    ? catalogKeywords.map(keyword => keyword.toUpperCase())
+    : DUCKDB_KEYWORDS
 
-  for (const keyword of DUCKDB_KEYWORDS) {
+  for (const keyword of keywords) {
     suggestions.push({
       label: keyword,
       kind: monaco.languages.CompletionItemKind.Keyword,
@@ -539,7 +718,7 @@ function getKeywordSuggestions(
 }
 
 /**
- * Get function suggestions
+ * Get function suggestions from the built-in function lists
  */
 function getFunctionSuggestions(
   range: any,
@@ -605,39 +784,79 @@ function getFunctionSuggestions(
 }
 
 /**
- * Get table suggestions from data sources
+ * Format one function overload as `name(param TYPE, ...) -> TYPE`
  */
-function getTableSuggestions(
+function formatFunctionSignature(fn: CatalogFunction): string {
+  const parameters = fn.parameters.map((parameter, index) =>
+    fn.parameterTypes[index] && fn.parameterTypes[index] !== 'ANY'
+      ? `${parameter} ${fn.parameterTypes[index]}`
+      : parameter
+  )
+  if (fn.varargs) parameters.push(`${fn.varargs}...`)
+  return `${fn.name}(${parameters.join(', ')})${fn.returnType ? ` -> ${fn.returnType}` : ''}`
+}
+
+/**
+ * Get function suggestions from the catalog, one per function name with its
+ * overloads in the documentation
+ */
+function getCatalogFunctionSuggestions(
   range: any,
-  _textBeforeCursor: string,
-  dataSources: DataSource[],
+  functions: CatalogFunction[],
   monaco: any
 ): any[] {
-  const suggestions: any[] = []
-
-  for (const dataSource of dataSources) {
-    // Build detailed documentation with schema information
-    let documentation = `${dataSource.type === 'file' ? 'Imported file' : 'Table'}: ${dataSource.name}`
+  const overloadsByName = new Map<string, CatalogFunction[]>()
+  for (const fn of functions) {
+    overloadsByName.set(fn.name, [...(overloadsByName.get(fn.name) ?? []), fn])
+  }
 
-    if (dataSource.schema && dataSource.schema.length > 0) {
-      documentation += '\n\n**Schema:**\n'
-      for (const column of dataSource.schema.slice(0, 10)) {
-        // Limit to first 10 columns
-        documentation += `• \`${column.name}\` (${column.type})\n`
-      }
-      if (dataSource.schema.length > 10) {
-        documentation += `... and ${dataSource.schema.length - 10} more columns`
-      }
+  return [...overloadsByName].map(([name, overloads]) => {
+    const first = overloads[0]!
+    const signatures = overloads.slice(0, 5).map(formatFunctionSignature)
+    if (overloads.length > 5) {
+      signatures.push(`-- ... and ${overloads.length - 5} more overloads`)
+    }
+    return {
+      label: name,
+      kind: monaco.languages.CompletionItemKind.Function,
+      insertText: `${name}($0)`,
+      insertTextRules:
+        monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+      range,
+      sortText: `b_${name}`,
+      detail: `${first.type} function${overloads.length > 1 ? ` (${overloads.length} overloads)` : ''}`,
+      documentation: {
+        value: `\`\`\`sql\n${signatures.join('\n')}\n\`\`\`${first.description ? `\n\n${first.description}` : ''}`,
+      },
     }
+  })
+}
+
+/**
+ * Get table suggestions
+ */
+function getTableSuggestions(
+  range: any,
+  relations: CompletionRelation[],
+  monaco: any
+): any[] {
+  const suggestions: any[] = []
 
+  for (const relation of relations) {
     suggestions.push({
-      label: dataSource.tableName,
-      kind: monaco.languages.CompletionItemKind.Class,
-      insertText: dataSource.tableName,
+      label: relation.name,
+      kind:
+        relation.kind === 'view'
+          ? monaco.languages.CompletionItemKind.Interface
+          : monaco.languages.CompletionItemKind.Class,
+      insertText: relation.name,
       range,
-      sortText: `c_${dataSource.tableName}`,
-      documentation,
-      detail: `${dataSource.schema?.length || 0} columns`,
+      sortText: `c_${relation.name}`,
+      documentation: { value: relation.documentation },
+      detail:
+        relation.kind === 'cte'
+          ? 'CTE'
+          : `${relation.kind} · ${relation.columns.length} columns`,
     })
   }
 
@@ -645,48 +864,77 @@ function getTableSuggestions(
 }
 
 /**
- * Get table context for column completion
+ * Keywords that can follow a table name, so they are not taken for an alias
+ */
+const SQL_CLAUSE_KEYWORDS = new Set([
+  'WHERE',
+  'GROUP',
+  'ORDER',
+  'HAVING',
+  'LIMIT',
+  'OFFSET',
+  'JOIN',
+  'INNER',
+  'LEFT',
+  'RIGHT',
+  'FULL',
+  'CROSS',
+  'NATURAL',
+  'POSITIONAL',
+  'ASOF',
+  'ANTI',
+  'SEMI',
+  'ON',
+  'USING',
+  'UNION',
+  'EXCEPT',
+  'INTERSECT',
+  'WINDOW',
+  'QUALIFY',
+  'SET',
+  'VALUES',
+  'SELECT',
+  'BY',
+])
+
+/**
+ * Get the relations a query refers to in FROM/JOIN/INTO/UPDATE clauses, by
+ * lower-cased name and alias
  */
-function getTableContext(
+function getReferencedRelations(
   textBeforeCursor: string,
-  dataSources: DataSource[]
-): string[] {
-  const tableNames: string[] = []
+  relations: CompletionRelation[]
+): Map<string, CompletionRelation> {
+  const referenced = new Map<string, CompletionRelation>()
 
-  // Enhanced patterns to capture table names with optional aliases
-  // FROM table_name [AS alias]
-  // JOIN table_name [AS alias]
+  // FROM table_name [AS] [alias]
+  // JOIN table_name [AS] [alias]
   // INTO table_name
   // UPDATE table_name
-  const tablePatterns = [
-    /\b(FROM|JOIN|INTO|UPDATE)\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*(?:AS\s+([a-zA-Z_][a-zA-Z0-9_]*))?\s*(?:$|\s+|,|\))/gi,
-    /\b(FROM|JOIN|INTO|UPDATE)\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*([a-zA-Z_][a-zA-Z0-9_]*)?\s*(?:$|\s+|,|\))/gi,
-  ]
-
-  for (const pattern of tablePatterns) {
-    let match
-    // Reset regex lastIndex for each pattern
-    pattern.lastIndex = 0
+  const tablePattern = new RegExp(
+    `\\b(?:FROM|JOIN|INTO|UPDATE)\\s+(${QUALIFIED_NAME_PATTERN})(?:\\s+(?:AS\\s+)?(${IDENTIFIER_PATTERN}))?`,
+    'gi'
+  )
 
-    while ((match = pattern.exec(textBeforeCursor)) !== null) {
-      const tableName = match[2]
-      if (dataSources.some(ds => ds.tableName === tableName)) {
-        tableNames.push(tableName)
-      }
+  let match
+  while ((match = tablePattern.exec(textBeforeCursor)) !== null) {
+    const relation = findRelation(relations, match[1]!)
+    if (!relation) continue
+    referenced.set(relation.name.toLowerCase(), relation)
+    const alias = match[2]
+    if (alias && !SQL_CLAUSE_KEYWORDS.has(alias.toUpperCase())) {
+      referenced.set(alias.toLowerCase(), relation)
     }
   }
 
-  // Also handle subqueries and CTEs (more complex cases)
-  // Look for WITH clause table definitions
-  const withPattern = /\bWITH\s+([a-zA-Z_][a-zA-Z0-9_]*)\s+AS\s*\(/gi
-  let withMatch
-  while ((withMatch = withPattern.exec(textBeforeCursor)) !== null) {
-    // CTE tables are also available for column completion
-    const cteName = withMatch[1]
-    tableNames.push(cteName)
+  // CTEs are also available for column completion
+  for (const relation of relations) {
+    if (relation.kind === 'cte') {
+      referenced.set(relation.name.toLowerCase(), relation)
+    }
   }
 
-  return tableNames
+  return referenced
 }
 
 /**
@@ -694,53 +942,28 @@ function getTableContext(
  */
 function getColumnSuggestions(
   range: any,
-  _textBeforeCursor: string,
-  tableNames: string[],
-  dataSources: DataSource[],
+  tableContext: CompletionRelation[],
+  relations: CompletionRelation[],
   monaco: any
 ): any[] {
   const suggestions: any[] = []
   const columnNames = new Set<string>()
 
-  // Collect columns from the specified tables
-  for (const tableName of tableNames) {
-    const dataSource = dataSources.find(ds => ds.tableName === tableName)
-    if (dataSource?.schema) {
-      for (const column of dataSource.schema) {
-        if (!columnNames.has(column.name)) {
-          columnNames.add(column.name)
-          suggestions.push({
-            label: column.name,
-            kind: monaco.languages.CompletionItemKind.Field,
-            insertText: column.name,
-            range,
-            sortText: `d_${column.name}`,
-            documentation: `Column from \`${tableName}\`: ${column.name} (${column.type})${column.nullable ? ', nullable' : ''}`,
-            detail: `${column.type}${column.nullable ? ' (nullable)' : ''}`,
-          })
-        }
-      }
-    }
-  }
-
-  // If no table context found, provide columns from all available data sources
-  if (tableNames.length === 0) {
-    for (const dataSource of dataSources) {
-      if (dataSource.schema) {
-        for (const column of dataSource.schema) {
-          if (!columnNames.has(column.name)) {
-            columnNames.add(column.name)
-            suggestions.push({
-              label: column.name,
-              kind: monaco.languages.CompletionItemKind.Field,
-              insertText: column.name,
-              range,
-              sortText: `d_${column.name}`,
-              documentation: `Column from \`${dataSource.tableName}\`: ${column.name} (${column.type})${column.nullable ? ', nullable' : ''}`,
-              detail: `${column.type}${column.nullable ? ' (nullable)' : ''} · ${dataSource.tableName}`,
-            })
-          }
-        }
+  // Columns of the referenced tables; without any, of all tables
+  const sources = tableContext.length > 0 ? tableContext : relations
+  for (const relation of sources) {
+    for (const column of relation.columns) {
+      if (!columnNames.has(column.name)) {
+        columnNames.add(column.name)
+        suggestions.push({
+          label: column.name,
+          kind: monaco.languages.CompletionItemKind.Field,
+          insertText: formatIdentifier(column.name),
+          range,
+          sortText: `d_${column.name}`,
+          documentation: `Column from \`${relation.name}\`: ${column.name} (${column.type})${column.nullable ? ', nullable' : ''}`,
+          detail: `${column.type}${column.nullable ? ' (nullable)' : ''}${tableContext.length === 0 ? ` · ${relation.name}` : ''}`,
+        })
       }
     }
   }
@@ -756,21 +979,19 @@ function getColumnSuggestions(
  */
 function getQualifiedColumnSuggestions(
   range: any,
-  dataSource: DataSource,
+  relation: CompletionRelation,
   monaco: any
 ): any[] {
   const suggestions: any[] = []
 
-  if (!dataSource.schema) return suggestions
-
-  for (const column of dataSource.schema) {
+  for (const column of relation.columns) {
     suggestions.push({
       label: column.name,
       kind: monaco.languages.CompletionItemKind.Field,
-      insertText: column.name,
+      insertText: formatIdentifier(column.name),
       range,
       sortText: `a_${column.name}`, // Prioritize qualified columns
-      documentation: `${dataSource.tableName}.${column.name} (${column.type})${column.nullable ? ', nullable' : ''}`,
+      documentation: `${relation.name}.${column.name} (${column.type})${column.nullable ? ', nullable' : ''}`,
       detail: `${column.type}${column.nullable ? ' (nullable)' : ''}`,
     })
   }
@@ -781,6 +1002,402 @@ function getQualifiedColumnSuggestions(
   return suggestions
 }
 
+/**
+ * A function call the cursor is in
+ */
+interface FunctionCall {
+  name: string
+  /** Zero-based index of the argument the cursor is in */
+  argumentIndex: number
+}
+
+/**
+ * A signature for Monaco's signature help, with parameter label offsets
+ */
+interface SignatureInformation {
+  label: string
+  documentation?: { value: string } | undefined
+  parameters: Array<{ label: [number, number] }>
+}
+
+const SAMPLE_ROWS = 5
+
+/**
+ * Find the innermost call of a known function that the cursor is in
+ *
+ * Parentheses, brackets and braces inside string literals, quoted
+ * identifiers and comments are ignored; commas only count at the call's own
+ * nesting level.
+ *
+ * @param textBeforeCursor - SQL text up to the cursor
+ * @param isFunction - Whether a name is a function with a signature
+ */
+function findFunctionCall(
+  textBeforeCursor: string,
+  isFunction: (name: string) => boolean
+): FunctionCall | null {
+  const open: Array<{ name: string | null; argumentIndex: number }> = []
+  let i = 0
+  while (i < textBeforeCursor.length) {
+    const skipped = skipQuotedOrComment(textBeforeCursor, i)
+    if (skipped) {
+      i = skipped.end
+      continue
+    }
+
+    const char = textBeforeCursor[i]
+    if (char === '(') {
+      const name = new RegExp(`(${IDENTIFIER_PATTERN})\\s*$`).exec(
+        textBeforeCursor.slice(0, i)
+      )?.[1]
+      open.push({ name: name ?? null, argumentIndex: 0 })
+    } else if (char === '[' || char === '{') {
+      open.push({ name: null, argumentIndex: 0 })
+    } else if (char === ')' || char === ']' || char === '}') {
+      open.pop()
+    } else if (char === ',' && open.length > 0) {
+      open[open.length - 1]!.argumentIndex++
+    }
+    i++
+  }
+
+  for (const call of open.reverse()) {
+    if (call.name && isFunction(call.name)) {
+      return { name: call.name, argumentIndex: call.argumentIndex }
+    }
+  }
+  return null
+}
+
+/**
+ * Group catalog function overloads by lower-cased name
+ */
+function getOverloadsByName(
+  functions: CatalogFunction[]
+): Map<string, CatalogFunction[]> {
+  const overloadsByName = new Map<string, CatalogFunction[]>()
+  for (const fn of functions) {
+    const name = fn.name.toLowerCase()
+    overloadsByName.set(name, [...(overloadsByName.get(name) ?? []), fn])
+  }
+  return overloadsByName
+}
+
+/**
+ * Build a signature from a label and its parameters' labels, in order
+ */
+function buildSignature(
+  label: string,
+  parameterLabels: string[],
+  documentation?: string | null
+): SignatureInformation {
+  const parameters: SignatureInformation['parameters'] = []
+  let searchFrom = label.indexOf('(') + 1
+  for (const parameterLabel of parameterLabels) {
+    const start = label.indexOf(parameterLabel, searchFrom)
+    if (start === -1) break
+    parameters.push({ label: [start, start + parameterLabel.length] })
+    searchFrom = start + parameterLabel.length
+  }
+  return {
+    label,
+    ...(documentation && { documentation: { value: documentation } }),
+    parameters,
+  }
+}
+
+/**
+ * Signature of a catalog function overload
+ */
+function getCatalogSignature(fn: CatalogFunction): SignatureInformation {
+  const parameterLabels = fn.parameters.map((parameter, index) =>
+    fn.parameterTypes[index] && fn.parameterTypes[index] !== 'ANY'
+      ? `${parameter} ${fn.parameterTypes[index]}`
+      : parameter
+  )
+  if (fn.varargs) parameterLabels.push(`${fn.varargs}...`)
+  return buildSignature(
+    formatFunctionSignature(fn),
+    parameterLabels,
+    fn.description
+  )
+}
+
+/**
+ * Signatures of a built-in function signature string such as
+ * `ROUND(value, [digits])`, one per `|` alternative
+ */
+function getBuiltInSignatures(name: string): SignatureInformation[] {
+  const upperName = name.toUpperCase()
+  const signatures = FUNCTION_SIGNATURES[upperName]
+  if (!signatures) return []
+  return signatures.split(' | ').map(label => {
+    const parameters = /\((.*)\)/.exec(label)?.[1] ?? ''
+    return buildSignature(
+      label,
+      parameters ? parameters.split(/,\s*/) : [],
+      getFunctionDescription(upperName)
+    )
+  })
+}
+
+/**
+ * Create a Monaco signature help provider showing the parameters of the
+ * function call at the cursor, with the active parameter highlighted
+ */
+export function createDuckDBSignatureHelpProvider(
+  context: CompletionContext
+): any {
+  return {
+    signatureHelpTriggerCharacters: ['(', ','],
+    signatureHelpRetriggerCharacters: [')'],
+
+    provideSignatureHelp: async (model: any, position: any) => {
+      const textBeforeCursor = model.getValueInRange({
+        startLineNumber: 1,
+        startColumn: 1,
+        endLineNumber: position.lineNumber,
+        endColumn: position.column,
+      })
+
+      const catalog = await getCompletionCatalog(context)
+      const overloadsByName = catalog
+        ? getOverloadsByName(catalog.functions)
+        : null
+      const getSignatures = (name: string): SignatureInformation[] =>
+        overloadsByName
+          ? (overloadsByName.get(name.toLowerCase()) ?? []).map(
+              getCatalogSignature
+            )
+          : getBuiltInSignatures(name)
+
+      const call = findFunctionCall(
+        textBeforeCursor,
+        name => getSignatures(name).length > 0
+      )
+      if (!call) return null
+
+      const signatures = getSignatures(call.name)
+      // Prefer the first overload that takes as many arguments as typed
+      const activeSignature = Math.max(
+        0,
+        signatures.findIndex(
+          signature => signature.parameters.length > call.argumentIndex
+        )
+      )
+      const parameterCount = signatures[activeSignature]!.parameters.length
+      const isVariadic =
+        signatures[activeSignature]!.label.includes('...') && parameterCount > 0
+      const activeParameter =
+        isVariadic && call.argumentIndex >= parameterCount
+          ? parameterCount - 1
+          : call.argumentIndex
+
+      return {
+        value: { signatures, activeSignature, activeParameter },
+        dispose: () => {},
+      }
+    },
+  }
+}
+
+/**
+ * Escape a value for a Markdown table cell
+ */
+const escapeMarkdownCell = (value: unknown): string =>
+  formatResultValue(value)
+    .replace(/\|/g, '\\|')
+    .replace(/\r?\n/g, ' ')
+    .slice(0, 80)
+
+/**
+ * Format sample rows as a Markdown table
+ */
+function formatSampleTable(
+  columns: string[],
+  rows: Record<string, unknown>[]
+): string {
+  if (rows.length === 0) return '_No rows_'
+  return [
+    `| ${columns.map(escapeMarkdownCell).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(
+      row =>
+        `| ${columns.map(column => escapeMarkdownCell(row[column])).join(' | ')} |`
+    ),
+  ].join('\n')
+}
+
+/**
+ * Create a Monaco hover provider for functions, tables and columns
+ *
+ * Functions show their signatures, description and examples; tables and
+ * columns show their types and nullability plus a few sample rows, which are
+ * queried from the connection on first hover and cached by the provider.
+ */
+export function createDuckDBHoverProvider(context: CompletionContext): any {
+  const samples = new Map<string, Promise<string | null>>()
+
+  // Sample rows of a query, formatted as a Markdown table (null on failure)
+  const getSample = (sql: string): Promise<string | null> => {
+    const connection = context.connection
+    if (!connection) return Promise.resolve(null)
+    let sample = samples.get(sql)
+    if (!sample) {
+      sample = connection
+        .query(sql)
+        .then(result =>
+          formatSampleTable(
+            result.schema.fields.map(field => field.name),
+            result.toArray().map(row => row.toJSON())
+          )
+        )
+        .catch(() => null)
+      samples.set(sql, sample)
+    }
+    return sample
+  }
+
+  return {
+    provideHover: async (model: any, position: any) => {
+      const word = model.getWordAtPosition(position)
+      if (!word) return null
+
+      const range = {
+        startLineNumber: position.lineNumber,
+        endLineNumber: position.lineNumber,
+        startColumn: word.startColumn,
+        endColumn: word.endColumn,
+      }
+      const line: string = model.getLineContent(position.lineNumber)
+      const qualifier = new RegExp(`(${QUALIFIED_NAME_PATTERN})\\.$`).exec(
+        line.slice(0, word.startColumn - 1)
+      )?.[1]
+      const isCall = /^\s*\(/.test(line.slice(word.endColumn - 1))
+
+      const catalog = await getCompletionCatalog(context)
+
+      // Functions
+      if (isCall) {
+        const overloads = catalog
+          ? (getOverloadsByName(catalog.functions).get(
+              word.word.toLowerCase()
+            ) ?? [])
+          : []
+        if (overloads.length > 0) {
+          const first = overloads[0]!
+          const examples = overloads.flatMap(fn => fn.examples)
+          return {
+            range,
+            contents: [
+              {
+                value: `\`\`\`sql\n${overloads.slice(0, 5).map(formatFunctionSignature).join('\n')}\n\`\`\``,
+              },
+              ...(first.description ? [{ value: first.description }] : []),
+              ...(examples.length > 0
+                ? [
+                    {
+                      value: `**Example**\n\n\`\`\`sql\n${examples.slice(0, 2).join('\n')}\n\`\`\``,
+                    },
+                  ]
+                : []),
+            ],
+          }
+        }
+        if (!catalog && FUNCTION_SIGNATURES[word.word.toUpperCase()]) {
+          const name = word.word.toUpperCase()
+          return {
+            range,
+            contents: [
+              {
+                value: `\`\`\`sql\n${FUNCTION_SIGNATURES[name]}\n\`\`\``,
+              },
+              { value: getFunctionDescription(name) },
+            ],
+          }
+        }
+        return null
+      }
+
+      // Tables and columns, resolved within the statement under the cursor
+      const text: string = model.getValue()
+      const statement = findStatementAtOffset(text, model.getOffsetAt(position))
+      const statementText = statement?.text ?? text
+      const relations = getCompletionRelations(
+        statementText,
+        context.dataSources,
+        catalog
+      )
+      const referenced = getReferencedRelations(statementText, relations)
+
+      const relationName = qualifier ? `${qualifier}.${word.word}` : word.word
+      const relation = findRelation(relations, relationName)
+      if (relation) {
+        const columns = relation.columns
+          .map(
+            column =>
+              `| \`${column.name}\` | ${column.type} | ${column.nullable ? 'yes' : 'no'} |`
+          )
+          .join('\n')
+        const sample =
+          relation.kind === 'cte'
+            ? null
+            : await getSample(
+                `SELECT * FROM ${quoteTableName(relation.name)} LIMIT ${SAMPLE_ROWS}`
+              )
+        return {
+          range,
+          contents: [
+            { value: relation.documentation.split('\n')[0]! },
+            ...(columns
+              ? [
+                  {
+                    value: `| Column | Type | Nullable |\n| --- | --- | --- |\n${columns}`,
+                  },
+                ]
+              : []),
+            ...(sample ? [{ value: `**Sample**\n\n${sample}` }] : []),
+          ],
+        }
+      }
+
+      // A qualified column belongs to its table or alias; an unqualified one
+      // to the first table of the statement that has it
+      const candidates = qualifier
+        ? [
+            referenced.get(qualifier.toLowerCase()) ??
+              findRelation(relations, qualifier),
+          ]
+        : [...new Set(referenced.values())]
+      for (const candidate of candidates) {
+        const column = candidate?.columns.find(
+          column => column.name.toLowerCase() === word.word.toLowerCase()
+        )
+        if (!candidate || !column) continue
+
+        const columnName = quoteIdentifier(column.name)
+        const sample =
+          candidate.kind === 'cte'
+            ? null
+            : await getSample(
+                `SELECT DISTINCT ${columnName} FROM ${quoteTableName(candidate.name)} WHERE ${columnName} IS NOT NULL LIMIT ${SAMPLE_ROWS}`
+              )
+        return {
+          range,
+          contents: [
+            {
+              value: `\`${candidate.name}.${column.name}\` **${column.type}**${column.nullable ? ', nullable' : ', not null'}`,
+            },
+            ...(sample ? [{ value: `**Sample values**\n\n${sample}` }] : []),
+          ],
+        }
+      }
+
+      return null
+    },
+  }
+}
+
 /**
  * Get insert text for function with parameter placeholders
  */
@@ -886,6 +1503,36 @@ export function registerDuckDBCompletionProvider(
   return registered
 }
 
+/**
+ * Register the completion, signature help and hover providers with Monaco
+ *
+ * @returns A disposable for all three providers, or null if Monaco is not
+ * ready
+ */
+export function registerDuckDBLanguageProviders(
+  monaco: any,
+  context: CompletionContext
+): { dispose: () => void } | null {
+  const completion = registerDuckDBCompletionProvider(monaco, context)
+  if (!completion) return null
+
+  const signatureHelp = monaco.languages.registerSignatureHelpProvider(
+    'sql',
+    createDuckDBSignatureHelpProvider(context)
+  )
+  const hover = monaco.languages.registerHoverProvider(
+    'sql',
+    createDuckDBHoverProvider(context)
+  )
+  return {
+    dispose: () => {
+      completion.dispose()
+      signatureHelp.dispose()
+      hover.dispose()
+    },
+  }
+}
+
 /**
  * Update completion context when data sources change
  */
@@ -0,0 +1,280 @@
+/**
+ * SQL Query Parameters
+ *
+ * Finds `$name` parameter references in SQL and binds typed parameter values:
+ * values become `?` placeholders of a prepared statement, while `column`
+ * parameters are checked against the columns they may pick and inserted as
+ * quoted identifiers. References inside string literals, quoted identifiers,
+ * comments and dollar-quoted strings are ignored.
+ */
+
+import {
+  ColumnInfo,
+  DateRangeValue,
+  QueryParameter,
+  QueryParameterValue,
+  QueryParameterValues,
+} from '@/types/sql'
+import { quoteIdentifier } from '@/lib/duckdb/sql'
+import { getBaseDuckDBType } from '@/lib/duckdb/type-labels'
+import { skipQuotedOrComment } from './sql-statements'
+
+/**
+ * A `$name` (or `$name.from`/`$name.to`) reference within SQL text
+ */
+export interface ParameterReference {
+  name: string
+  /** Referenced bound of a date range */
+  field?: 'from' | 'to' | undefined
+  /** Offset of the `$` in the SQL text */
+  start: number
+  /** Offset just past the reference */
+  end: number
+}
+
+/**
+ * SQL with `?` placeholders and the values to bind to them, in order
+ */
+export interface BoundQuery {
+  sql: string
+  params: unknown[]
+}
+
+const PARAMETER_PATTERN =
+  /^\$([A-Za-z_][A-Za-z0-9_]*)(?:\.(from|to)(?![A-Za-z0-9_]))?/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Form label of a parameter
+ */
+export const getParameterLabel = (parameter: QueryParameter): string =>
+  parameter.label || parameter.name
+
+const getOptionValue = (
+  option: NonNullable<QueryParameter['options']>[number]
+): string => (typeof option === 'string' ? option : option.value)
+
+const isDateRange = (
+  value: QueryParameterValue | undefined
+): value is DateRangeValue => typeof value === 'object' && value !== null
+
+const isEmptyValue = (value: QueryParameterValue | undefined): boolean =>
+  value === null ||
+  value === undefined ||
+  value === '' ||
+  (typeof value === 'number' && Number.isNaN(value)) ||
+  (isDateRange(value) && !value.from && !value.to)
+
+/**
+ * Find the parameter references of an SQL text
+ *
+ * @param sql - SQL text
+ * @returns References in text order
+ */
+export function findParameterReferences(sql: string): ParameterReference[] {
+  const references: ParameterReference[] = []
+  let i = 0
+  while (i < sql.length) {
+    const skipped = skipQuotedOrComment(sql, i)
+    if (skipped) {
+      i = skipped.end
+      continue
+    }
+
+    const match =
+      sql[i] === '$' && !/[A-Za-z0-9_$]/.test(sql[i - 1] || '')
+        ? PARAMETER_PATTERN.exec(sql.slice(i))
+        : null
+    if (match) {
+      references.push({
+        name: match[1]!,
+        field: match[2] as ParameterReference['field'],
+        start: i,
+        end: i + match[0].length,
+      })
+      i += match[0].length
+      continue
+    }
+    i++
+  }
+  return references
+}
+
+/**
+ * Whether an SQL text references any of the given parameters
+ */
+export function referencesParameters(
+  sql: string,
+  parameters: QueryParameter[]
+): boolean {
+  const names = new Set(parameters.map(parameter => parameter.name))
+  return findParameterReferences(sql).some(reference =>
+    names.has(reference.name)
+  )
+}
+
+/**
+ * Initial form values: the declared defaults, otherwise empty values
+ */
+export function getDefaultParameterValues(
+  parameters: QueryParameter[]
+): QueryParameterValues {
+  return Object.fromEntries(
+    parameters.map(parameter => [
+      parameter.name,
+      parameter.defaultValue ??
+        (parameter.type === 'dateRange' ? { from: '', to: '' } : null),
+    ])
+  )
+}
+
+/**
+ * Columns a `column` parameter may pick, filtered by its `columnTypes`
+ *
+ * @param parameter - A `column` parameter
+ * @param columns - Columns of the target table
+ */
+export function getParameterColumns(
+  parameter: QueryParameter,
+  columns: ColumnInfo[]
+): ColumnInfo[] {
+  if (!parameter.columnTypes || parameter.columnTypes.length === 0) {
+    return columns
+  }
+  const types = new Set(parameter.columnTypes.map(getBaseDuckDBType))
+  return columns.filter(column => types.has(getBaseDuckDBType(column.type)))
+}
+
+/**
+ * Check a parameter value
+ *
+ * @param parameter - The parameter
+ * @param value - The value entered for it
+ * @param columns - Columns of the target table (for `column` parameters)
+ * @returns An error message, or null when the value is valid
+ */
+export function validateParameterValue(
+  parameter: QueryParameter,
+  value: QueryParameterValue | undefined,
+  columns: ColumnInfo[] = []
+): string | null {
+  const label = getParameterLabel(parameter)
+  if (isEmptyValue(value)) {
+    // A column can't be left out of the SQL
+    return parameter.required === false && parameter.type !== 'column'
+      ? null
+      : `${label} is required`
+  }
+
+  switch (parameter.type) {
+    case 'column':
+      return getParameterColumns(parameter, columns).some(
+        column => column.name === value
+      )
+        ? null
+        : `${label} must be one of the offered columns`
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `${label} must be a number`
+      }
+      if (parameter.min !== undefined && value < parameter.min) {
+        return `${label} must be at least ${parameter.min}`
+      }
+      if (parameter.max !== undefined && value > parameter.max) {
+        return `${label} must be at most ${parameter.max}`
+      }
+      return null
+    case 'date':
+      return typeof value === 'string' && DATE_PATTERN.test(value)
+        ? null
+        : `${label} must be a date (YYYY-MM-DD)`
+    case 'dateRange':
+      if (
+        !isDateRange(value) ||
+        !DATE_PATTERN.test(value.from) ||
+        !DATE_PATTERN.test(value.to)
+      ) {
+        return `${label} needs a start and an end date`
+      }
+      return value.from <= value.to
+        ? null
+        : `${label} must not end before it starts`
+    case 'enum':
+      return (parameter.options ?? []).some(
+        option => getOptionValue(option) === value
+      )
+        ? null
+        : `${label} must be one of the offered options`
+    case 'text':
+      return typeof value === 'string' ? null : `${label} must be text`
+  }
+}
+
+/**
+ * Bind parameter values into an SQL text
+ *
+ * Every reference to a declared parameter becomes a `?` placeholder, except
+ * `column` parameters, which are replaced by the quoted column name. Undeclared
+ * references are left untouched.
+ *
+ * @param sql - SQL text with `$name` references
+ * @param parameters - Declared parameters
+ * @param values - Parameter values by name
+ * @param columns - Columns each `column` parameter may pick, by parameter name
+ * @returns The SQL for a prepared statement and the values to bind
+ * @throws Error if a value is missing or invalid
+ */
+export function bindQueryParameters(
+  sql: string,
+  parameters: QueryParameter[],
+  values: QueryParameterValues,
+  columns: Record<string, ColumnInfo[]> = {}
+): BoundQuery {
+  const parametersByName = new Map(
+    parameters.map(parameter => [parameter.name, parameter])
+  )
+  const params: unknown[] = []
+  let bound = ''
+  let position = 0
+
+  for (const reference of findParameterReferences(sql)) {
+    const parameter = parametersByName.get(reference.name)
+    if (!parameter) continue
+
+    const value = values[parameter.name] ?? null
+    const error = validateParameterValue(
+      parameter,
+      value,
+      columns[parameter.name]
+    )
+    if (error) throw new Error(error)
+
+    let replacement = '?'
+    // Only date ranges have fields; elsewhere `.from`/`.to` is left in place
+    let end = reference.end
+    if (parameter.type === 'dateRange') {
+      if (!reference.field) {
+        throw new Error(
+          `Reference the date range ${parameter.name} as $${parameter.name}.from and $${parameter.name}.to`
+        )
+      }
+      params.push(
+        isDateRange(value) && value[reference.field]
+          ? value[reference.field]
+          : null
+      )
+    } else {
+      end = reference.start + parameter.name.length + 1
+      if (parameter.type === 'column') {
+        replacement = quoteIdentifier(String(value))
+      } else {
+        params.push(isEmptyValue(value) ? null : value)
+      }
+    }
+
+    bound += sql.slice(position, reference.start) + replacement
+    position = end
+  }
+
+  return { sql: bound + sql.slice(position), params }
+}
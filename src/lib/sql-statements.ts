@@ -0,0 +1,236 @@
+/**
+ * SQL Statement Splitting
+ *
+ * Splits an SQL script into individual statements on top-level semicolons.
+ * Semicolons inside string literals, quoted identifiers, comments and
+ * dollar-quoted strings are ignored.
+ */
+
+/**
+ * A single statement within an SQL script
+ */
+export interface SQLStatement {
+  /** Statement text without the terminating semicolon, trimmed */
+  text: string
+  /** Offset of the first character of `text` in the script */
+  start: number
+  /** Offset just past the last character of `text` in the script */
+  end: number
+}
+
+const DOLLAR_QUOTE_PATTERN = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/
+
+/**
+ * Skip a comment, string literal, quoted identifier or dollar-quoted string
+ * starting at an offset
+ *
+ * @param sql - The SQL text
+ * @param offset - Offset to look at
+ * @returns Offset just past the skipped text and whether it was a comment, or
+ * null when none of them starts at the offset
+ */
+export function skipQuotedOrComment(
+  sql: string,
+  offset: number
+): { end: number; isComment: boolean } | null {
+  const char = sql[offset]
+  const next = sql[offset + 1]
+
+  // Line comment
+  if (char === '-' && next === '-') {
+    const newline = sql.indexOf('\n', offset + 2)
+    return { end: newline === -1 ? sql.length : newline + 1, isComment: true }
+  }
+
+  // Block comment
+  if (char === '/' && next === '*') {
+    const close = sql.indexOf('*/', offset + 2)
+    return { end: close === -1 ? sql.length : close + 2, isComment: true }
+  }
+
+  // String literal ('' escapes a quote, E'' strings also allow backslashes)
+  if (char === "'") {
+    const previous = sql[offset - 1]
+    const allowsBackslash =
+      (previous === 'E' || previous === 'e') &&
+      !/[A-Za-z0-9_]/.test(sql[offset - 2] || '')
+    let i = offset + 1
+    while (i < sql.length) {
+      if (allowsBackslash && sql[i] === '\\') {
+        i += 2
+      } else if (sql[i] === "'" && sql[i + 1] === "'") {
+        i += 2
+      } else if (sql[i] === "'") {
+        i++
+        break
+      } else {
+        i++
+      }
+    }
+    return { end: i, isComment: false }
+  }
+
+  // Quoted identifier ("" escapes a quote)
+  if (char === '"') {
+    let i = offset + 1
+    while (i < sql.length) {
+      if (sql[i] === '"' && sql[i + 1] === '"') {
+        i += 2
+      } else if (sql[i] === '"') {
+        i++
+        break
+      } else {
+        i++
+      }
+    }
+    return { end: i, isComment: false }
+  }
+
+  // Dollar-quoted string ($$...$$ or $tag$...$tag$)
+  if (char === '$') {
+    const match = DOLLAR_QUOTE_PATTERN.exec(sql.slice(offset))
+    if (match) {
+      const delimiter = match[0]
+      const close = sql.indexOf(delimiter, offset + delimiter.length)
+      return {
+        end: close === -1 ? sql.length : close + delimiter.length,
+        isComment: false,
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Split an SQL script into statements
+ *
+ * Statements that only contain whitespace or comments are skipped.
+ *
+ * @param sql - The SQL script
+ * @returns Statements in script order
+ */
+export function splitSQLStatements(sql: string): SQLStatement[] {
+  const statements: SQLStatement[] = []
+  let statementStart = 0
+  let hasCode = false
+  let i = 0
+
+  const pushStatement = (end: number): void => {
+    if (hasCode) {
+      const raw = sql.slice(statementStart, end)
+      const leading = raw.length - raw.trimStart().length
+      const text = raw.trim()
+      statements.push({
+        text,
+        start: statementStart + leading,
+        end: statementStart + leading + text.length,
+      })
+    }
+    hasCode = false
+  }
+
+  while (i < sql.length) {
+    const skipped = skipQuotedOrComment(sql, i)
+    if (skipped) {
+      hasCode = hasCode || !skipped.isComment
+      i = skipped.end
+      continue
+    }
+
+    const char = sql[i]
+    if (char === ';') {
+      pushStatement(i)
+      i++
+      statementStart = i
+      continue
+    }
+
+    if (!/\s/.test(char!)) {
+      hasCode = true
+    }
+    i++
+  }
+
+  pushStatement(sql.length)
+  return statements
+}
+
+/**
+ * Find the statement under a cursor position
+ *
+ * A cursor directly after a statement (before or after its semicolon, or in the
+ * whitespace that follows) belongs to that statement. A cursor before the first
+ * statement belongs to the first statement.
+ *
+ * @param sql - The SQL script
+ * @param offset - Cursor offset within the script
+ * @returns The statement under the cursor, or undefined for an empty script
+ */
+export function findStatementAtOffset(
+  sql: string,
+  offset: number
+): SQLStatement | undefined {
+  const statements = splitSQLStatements(sql)
+  let candidate = statements[0]
+  for (const statement of statements) {
+    if (statement.start > offset) break
+    candidate = statement
+  }
+  return candidate
+}
+
+/**
+ * Get the leading keyword of a statement (upper-cased), skipping comments,
+ * whitespace and opening parentheses
+ *
+ * @param sql - A single SQL statement
+ * @returns The first keyword, or an empty string
+ */
+export function getStatementKeyword(sql: string): string {
+  const withoutComments = sql
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/--[^\n]*/g, ' ')
+  const match = /^[\s(]*([A-Za-z]+)/.exec(withoutComments)
+  return match ? match[1]!.toUpperCase() : ''
+}
+
+const ROW_RETURNING_KEYWORDS = new Set([
+  'SELECT',
+  'WITH',
+  'FROM',
+  'VALUES',
+  'TABLE',
+])
+
+/**
+ * Whether a statement is a plain query that can be wrapped in a subquery
+ * (e.g. to page through it with LIMIT/OFFSET)
+ *
+ * @param sql - A single SQL statement
+ */
+export function isRowReturningQuery(sql: string): boolean {
+  return ROW_RETURNING_KEYWORDS.has(getStatementKeyword(sql))
+}
+
+const CATALOG_KEYWORDS = new Set([
+  'CREATE',
+  'DROP',
+  'ALTER',
+  'ATTACH',
+  'DETACH',
+  'USE',
+  'LOAD',
+  'IMPORT',
+  'COMMENT',
+])
+
+/**
+ * Whether a statement may change the catalog (tables, views, macros, schemas
+ * or attached databases), so cached catalog information is stale after it ran
+ *
+ * @param sql - A single SQL statement
+ */
+export function changesCatalog(sql: string): boolean {
+  return CATALOG_KEYWORDS.has(getStatementKeyword(sql))
+}
@@ -0,0 +1,182 @@
+/**
+ * Pluggable Persistence Adapters
+ *
+ * Small key/value persistence layer used by the SQL Cockpit to keep per-user
+ * state (query history, saved queries, ...) across page reloads. Consumers can
+ * pass their own adapter to store data remotely.
+ */
+
+/**
+ * Persistence adapter interface
+ *
+ * Values are stored under string keys. Adapters must be safe to call before any
+ * value exists - `load` resolves to `null` for unknown keys.
+ */
+export interface StorageAdapter<T> {
+  /** Load a value, or `null` if nothing has been stored under the key */
+  load: (key: string) => Promise<T | null>
+  /** Store a value, replacing any previous value */
+  save: (key: string, value: T) => Promise<void>
+  /** Remove a stored value */
+  remove: (key: string) => Promise<void>
+}
+
+/**
+ * Create a localStorage-backed adapter
+ *
+ * Values are serialized with JSON, so Date instances come back as ISO strings.
+ */
+export function createLocalStorageAdapter<T>(
+  options: { prefix?: string } = {}
+): StorageAdapter<T> {
+  const { prefix = 'blockether-foundation' } = options
+  const storageKey = (key: string): string => `${prefix}:${key}`
+
+  return {
+    async load(key) {
+      try {
+        const stored = localStorage.getItem(storageKey(key))
+        return stored ? (JSON.parse(stored) as T) : null
+      } catch (error) {
+        console.error(
+          '[blockether-foundation-react] Failed to load from localStorage:',
+          error
+        )
+        return null
+      }
+    },
+    async save(key, value) {
+      try {
+        localStorage.setItem(storageKey(key), JSON.stringify(value))
+      } catch (error) {
+        console.error(
+          '[blockether-foundation-react] Failed to save to localStorage:',
+          error
+        )
+      }
+    },
+    async remove(key) {
+      try {
+        localStorage.removeItem(storageKey(key))
+      } catch (error) {
+        console.error(
+          '[blockether-foundation-react] Failed to remove from localStorage:',
+          error
+        )
+      }
+    },
+  }
+}
+
+/**
+ * Create an IndexedDB-backed adapter
+ *
+ * Values are stored with the structured clone algorithm, so Date instances
+ * survive the round trip.
+ */
+export function createIndexedDBAdapter<T>(
+  options: { databaseName?: string; storeName?: string } = {}
+): StorageAdapter<T> {
+  const { databaseName = 'blockether-foundation', storeName = 'key-value' } =
+    options
+
+  let databasePromise: Promise<IDBDatabase> | undefined
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+      databasePromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1)
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName)
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return databasePromise
+  }
+
+  const runRequest = async <R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> => {
+    const database = await openDatabase()
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(storeName, mode)
+      const request = operation(transaction.objectStore(storeName))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  return {
+    async load(key) {
+      try {
+        const value = await runRequest('readonly', store => store.get(key))
+        return (value as T | undefined) ?? null
+      } catch (error) {
+        console.error(
+          '[blockether-foundation-react] Failed to load from IndexedDB:',
+          error
+        )
+        return null
+      }
+    },
+    async save(key, value) {
+      try {
+        await runRequest('readwrite', store => store.put(value, key))
+      } catch (error) {
+        console.error(
+          '[blockether-foundation-react] Failed to save to IndexedDB:',
+          error
+        )
+      }
+    },
+    async remove(key) {
+      try {
+        await runRequest('readwrite', store => store.delete(key))
+      } catch (error) {
+        console.error(
+          '[blockether-foundation-react] Failed to remove from IndexedDB:',
+          error
+        )
+      }
+    },
+  }
+}
+
+/**
+ * Create an in-memory adapter (used when no browser storage is available)
+ */
+export function createMemoryAdapter<T>(): StorageAdapter<T> {
+  const values = new Map<string, T>()
+
+  return {
+    async load(key) {
+      return values.get(key) ?? null
+    },
+    async save(key, value) {
+      values.set(key, value)
+    },
+    async remove(key) {
+      values.delete(key)
+    },
+  }
+}
+
+/**
+ * Create the default adapter for the current environment
+ *
+ * Prefers IndexedDB, falls back to localStorage and finally to memory.
+ */
+export function createDefaultStorageAdapter<T>(): StorageAdapter<T> {
+  if (typeof indexedDB !== 'undefined') {
+    return createIndexedDBAdapter<T>()
+  }
+  if (typeof localStorage !== 'undefined') {
+    return createLocalStorageAdapter<T>()
+  }
+  return createMemoryAdapter<T>()
+}
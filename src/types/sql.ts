@@ -6,6 +6,10 @@
  */
 
 import { ReactNode, ComponentPropsWithoutRef } from 'react'
+import type { StorageAdapter } from '@/lib/storage'
+import type { DuckDBType } from '@/lib/duckdb/type-labels'
+import type { Schema } from 'apache-arrow'
+import type { ProfilingInsightsOptions } from '@/lib/insights'
 
 /**
  * SQL Cockpit component interface
@@ -21,7 +25,15 @@ export interface SQLCockpitProps extends ComponentPropsWithoutRef<'div'> {
   initialQuery?: string
 
   /**
-   * Callback function for executing SQL queries with DuckDB-WASM
+   * Callback function for executing SQL queries.
+   * When provided, editor queries are routed through it (e.g. to a remote engine)
+   * instead of the in-browser DuckDB-WASM connection. Scripts are split into
+   * statements and the callback is called once per statement, in script order
+   * and one at a time, with the statement's text (trimmed, without the
+   * terminating semicolon). Each result becomes a result tab. After a failure
+   * the remaining statements are skipped unless `continueOnError` is set, and
+   * after a cancellation they always are. Throw an `SQLError` to report a
+   * failure with a specific error type.
    */
   onQueryExecute?: (query: string) => Promise<QueryResult>
 
@@ -36,7 +48,7 @@ export interface SQLCockpitProps extends ComponentPropsWithoutRef<'div'> {
   showLineNumbers?: boolean
 
   /**
-   * Editor theme preference
+   * Editor theme preference ('auto' follows the FoundationProvider theme)
    */
   theme?: 'light' | 'dark' | 'auto'
 
@@ -56,10 +68,22 @@ export interface SQLCockpitProps extends ComponentPropsWithoutRef<'div'> {
   children?: ReactNode
 
   /**
-   * List of saved queries for quick selection from toolbar
+   * List of saved queries for quick selection from toolbar.
+   * Seeds the saved query store when nothing has been persisted yet.
    */
   savedQueries?: SavedQuery[]
 
+  /**
+   * Persistence adapter for saved queries
+   * Default: IndexedDB (falls back to localStorage when unavailable)
+   */
+  savedQueriesStorage?: StorageAdapter<SavedQuery[]>
+
+  /**
+   * Callback with the full list whenever a saved query is created, updated or deleted
+   */
+  onSavedQueriesChange?: (queries: SavedQuery[]) => void
+
   /**
    * Callback when a saved query is selected from the dropdown
    */
@@ -86,6 +110,14 @@ export interface SQLCockpitProps extends ComponentPropsWithoutRef<'div'> {
    */
   insightQueries?: InsightsQuery[]
 
+  /**
+   * Add the built-in data profiling insights (summary, validation, pattern,
+   * anomaly, correlation and trend) to every loaded data source, generated
+   * from its schema. Pass options to pick categories or limit the columns.
+   * Default: false
+   */
+  profilingInsights?: boolean | ProfilingInsightsOptions
+
   /**
    * Callback function for executing insights queries with data source context
    */
@@ -121,6 +153,82 @@ export interface SQLCockpitProps extends ComponentPropsWithoutRef<'div'> {
     }>
     currentQuery: string
   }) => Promise<string>
+
+  /**
+   * Whether to record executed queries in the query history panel
+   * Default: true
+   */
+  enableQueryHistory?: boolean
+
+  /**
+   * Persistence adapter for the query history
+   * Default: IndexedDB (falls back to localStorage when unavailable)
+   */
+  queryHistoryStorage?: StorageAdapter<QueryHistoryEntry[]>
+
+  /**
+   * Identifier of the current user, used to keep query histories and saved
+   * queries apart
+   */
+  userId?: string
+
+  /**
+   * Maximum number of history entries to keep (oldest are dropped first)
+   * Default: 200
+   */
+  maxQueryHistoryEntries?: number
+
+  /**
+   * Whether to keep executing the remaining statements of a script after a
+   * statement fails
+   * Default: false (stop at the first failing statement)
+   */
+  continueOnError?: boolean
+
+  /**
+   * Whether large query results are fetched page by page instead of loading
+   * every row into memory
+   * Default: true
+   */
+  pagedResults?: boolean
+
+  /**
+   * Number of rows fetched per page when `pagedResults` is enabled
+   * Default: 1000
+   */
+  resultsPageSize?: number
+
+  /**
+   * Milliseconds a statement may run before it is cancelled and reported as
+   * timed out (local DuckDB engine and remote engines alike)
+   * Default: no timeout
+   */
+  queryTimeout?: number
+
+  /**
+   * Whether the editor checks the SQL in the background while typing and
+   * marks syntax errors and unknown tables or columns before the query runs.
+   * Queries are planned with EXPLAIN on the DuckDB connection, never run.
+   * Errors of executed statements are always marked.
+   * Default: false
+   */
+  validateQueries?: boolean
+
+  /**
+   * Whether imported data sources survive page reloads. The DuckDB database
+   * is stored in the Origin Private File System (OPFS) and the data source
+   * catalog in `dataSourceCatalogStorage`; both are restored on startup and
+   * missing or changed tables are reported. Only applies if DuckDB has not
+   * been initialized yet.
+   * Default: false
+   */
+  persistDataSources?: boolean
+
+  /**
+   * Persistence adapter for the data source catalog (see `persistDataSources`)
+   * Default: IndexedDB (falls back to localStorage when unavailable)
+   */
+  dataSourceCatalogStorage?: StorageAdapter<DataSourceCatalogEntry[]>
 }
 
 /**
@@ -156,6 +264,12 @@ export interface QueryResult {
    * Total count of results (if available)
    */
   totalCount?: number
+
+  /**
+   * Row offset of the first row in `data` when the result is one page of a
+   * larger result set (see `hasMore`/`totalCount`)
+   */
+  offset?: number
 }
 
 /**
@@ -172,6 +286,12 @@ export interface QueryColumn {
    */
   type: 'string' | 'number' | 'boolean' | 'date' | 'binary'
 
+  /**
+   * Original DuckDB logical type (e.g. `DECIMAL(18,3)`, `TIMESTAMPTZ` or
+   * `STRUCT(a INTEGER, b VARCHAR)`), used to display values faithfully
+   */
+  duckdbType?: DuckDBType | undefined
+
   /**
    * Whether the column can contain null values
    */
@@ -202,6 +322,7 @@ export interface SQLError {
   | 'memory'
   | 'permission'
   | 'timeout'
+  | 'cancelled'
 
   /**
    * Human-readable error message
@@ -234,6 +355,17 @@ export interface SQLError {
   details?: string
 }
 
+/**
+ * A problem found in SQL text, marked in the editor
+ */
+export interface SQLDiagnostic {
+  /** Offset of the first marked character */
+  start: number
+  /** Offset just past the last marked character */
+  end: number
+  message: string
+}
+
 /**
  * Saved query interface
  */
@@ -263,6 +395,12 @@ export interface SavedQuery {
    */
   tags?: string[]
 
+  /**
+   * Parameters referenced in the query as `$name`; their values are asked
+   * for before the query runs
+   */
+  parameters?: QueryParameter[]
+
   /**
    * When the query was created
    */
@@ -274,6 +412,197 @@ export interface SavedQuery {
   updatedAt: Date
 }
 
+/**
+ * Query history entry interface
+ */
+export interface QueryHistoryEntry {
+  /**
+   * Unique identifier for the history entry
+   */
+  id: string
+
+  /**
+   * The SQL text that was executed
+   */
+  query: string
+
+  /**
+   * When the query was executed
+   */
+  executedAt: Date
+
+  /**
+   * Query execution time in milliseconds
+   */
+  executionTime: number
+
+  /**
+   * Number of rows returned or affected (if the query succeeded)
+   */
+  rowCount?: number
+
+  /**
+   * Error message (if the query failed)
+   */
+  error?: string
+
+  /**
+   * Whether the run was cancelled or timed out rather than failed
+   */
+  interruption?: 'cancelled' | 'timeout'
+}
+
+/**
+ * Which part of the editor contents is executed
+ * - 'all': the whole editor buffer
+ * - 'selection': the selected text (falls back to the statement under the cursor)
+ * - 'statement': the statement under the cursor
+ */
+export type QueryRunMode = 'all' | 'selection' | 'statement'
+
+/**
+ * The SQL picked from the editor for execution
+ */
+export interface QueryExecutionTarget {
+  /**
+   * The SQL text to execute
+   */
+  sql: string
+
+  /**
+   * The mode that produced this target
+   */
+  mode: QueryRunMode
+
+  /**
+   * Offset range of the SQL within the editor buffer
+   */
+  start: number
+  end: number
+}
+
+/**
+ * Result of a single statement within a multi-statement script
+ */
+export interface StatementResult {
+  /**
+   * Zero-based position of the statement within the script
+   */
+  index: number
+
+  /**
+   * The SQL text of the statement
+   */
+  statement: string
+
+  /**
+   * Values bound to the `?` placeholders of the statement (for statements
+   * with query parameters)
+   */
+  params?: unknown[]
+
+  /**
+   * Execution outcome ('skipped' when an earlier statement failed)
+   */
+  status: 'success' | 'error' | 'skipped'
+
+  /**
+   * Result set (if the statement succeeded)
+   */
+  result?: QueryResult
+
+  /**
+   * Error details (if the statement failed)
+   */
+  error?: SQLError
+
+  /**
+   * Statement execution time in milliseconds
+   */
+  executionTime: number
+}
+
+/**
+ * File format for exported query results
+ */
+export type ResultExportFormat =
+  | 'csv'
+  | 'json'
+  | 'ndjson'
+  | 'arrow'
+  | 'parquet'
+  | 'excel'
+
+/**
+ * Sort applied to a results column
+ */
+export interface ColumnSort {
+  /**
+   * Column name
+   */
+  column: string
+
+  /**
+   * Sort direction
+   */
+  direction: 'asc' | 'desc'
+}
+
+/**
+ * Filter applied to a results column. All conditions that are set must hold.
+ */
+export interface ColumnFilter {
+  /**
+   * Column name
+   */
+  column: string
+
+  /**
+   * Text the value must contain (case-insensitive)
+   */
+  contains?: string
+
+  /**
+   * Inclusive lower bound for numeric values
+   */
+  min?: number
+
+  /**
+   * Inclusive upper bound for numeric values
+   */
+  max?: number
+
+  /**
+   * Inclusive start date for date values (YYYY-MM-DD)
+   */
+  from?: string
+
+  /**
+   * Inclusive end date for date values (YYYY-MM-DD)
+   */
+  to?: string
+
+  /**
+   * Keep only NULL values (true) or only non-NULL values (false)
+   */
+  isNull?: boolean
+}
+
+/**
+ * Sorting and filtering applied on top of a query result
+ */
+export interface ResultView {
+  /**
+   * Sorts in priority order
+   */
+  sorts: ColumnSort[]
+
+  /**
+   * Filters, at most one per column
+   */
+  filters: ColumnFilter[]
+}
+
 /**
  * SQL execution state interface
  */
@@ -378,6 +707,11 @@ export interface ResultsPanelOptions {
    */
   enableColumnSort?: boolean
 
+  /**
+   * Whether to enable column filters
+   */
+  enableColumnFilter?: boolean
+
   /**
    * Maximum number of rows to display
    */
@@ -386,7 +720,7 @@ export interface ResultsPanelOptions {
   /**
    * Export options
    */
-  exportFormats?: ('csv' | 'json' | 'excel')[]
+  exportFormats?: ResultExportFormat[]
 }
 
 /**
@@ -502,6 +836,104 @@ export interface InsightsQuery {
    * Takes a QueryResult and returns a React node for custom visualization
    */
   renderer: (result: QueryResult) => React.ReactNode
+
+  /**
+   * Parameters referenced in the query as `$name`; a form asks for their
+   * values before the query runs
+   */
+  parameters?: QueryParameter[]
+}
+
+/**
+ * Type of a query parameter
+ * - `column`: a column of the target table, inserted as a quoted identifier
+ * - `number`, `text`, `date`: a single value
+ * - `dateRange`: two dates, referenced as `$name.from` and `$name.to`
+ * - `enum`: one of `options`
+ */
+export type QueryParameterType =
+  | 'column'
+  | 'number'
+  | 'text'
+  | 'date'
+  | 'dateRange'
+  | 'enum'
+
+/**
+ * Value of a `dateRange` parameter (ISO dates, `YYYY-MM-DD`)
+ */
+export interface DateRangeValue {
+  from: string
+  to: string
+}
+
+/**
+ * Value of a query parameter (null when an optional parameter is left empty)
+ */
+export type QueryParameterValue = string | number | DateRangeValue | null
+
+/**
+ * Query parameter values by parameter name
+ */
+export type QueryParameterValues = Record<string, QueryParameterValue>
+
+/**
+ * Typed parameter of an insights or saved query
+ *
+ * Values are bound through a prepared statement; `column` values can only be
+ * columns of the target table and are quoted as identifiers.
+ */
+export interface QueryParameter {
+  /**
+   * Name referenced in the SQL as `$name`
+   */
+  name: string
+
+  /**
+   * Form label (default: the name)
+   */
+  label?: string
+
+  /**
+   * Help text shown below the input
+   */
+  description?: string
+
+  type: QueryParameterType
+
+  /**
+   * Whether a value must be given (default: true)
+   */
+  required?: boolean
+
+  /**
+   * Initial value of the form
+   */
+  defaultValue?: QueryParameterValue
+
+  /**
+   * Column types offered by a `column` parameter, e.g. `['INTEGER', 'DOUBLE']`
+   * (default: all columns)
+   */
+  columnTypes?: DuckDBType[]
+
+  /**
+   * Table whose columns a `column` parameter offers (default: the data source
+   * an insights query runs on, or every loaded data source)
+   */
+  table?: string
+
+  /**
+   * Choices of an `enum` parameter
+   */
+  options?: Array<string | { value: string; label: string }>
+
+  /**
+   * Bounds and step of a `number` parameter
+   */
+  min?: number
+  max?: number
+  step?: number
 }
 
 /**
@@ -564,6 +996,126 @@ export interface ColumnInfo {
   nullable: boolean
 }
 
+/**
+ * Column statistics of a table, from DuckDB's `SUMMARIZE`
+ */
+export interface ColumnStatistics {
+  /** Column name */
+  name: string
+  /** DuckDB column type */
+  type: string
+  /** Smallest value, as text (null if the column has no values) */
+  min: string | null
+  /** Largest value, as text (null if the column has no values) */
+  max: string | null
+  /** Approximate number of distinct values */
+  distinctCount: number
+  /** Share of NULL values, in percent */
+  nullPercentage: number
+  /** Number of rows */
+  count: number
+}
+
+/**
+ * One bin of a column histogram
+ */
+export interface HistogramBin {
+  /** Bin label, e.g. `x <= 10` or a value */
+  label: string
+  /** Number of rows in the bin */
+  count: number
+}
+
+/**
+ * One overload of a function from DuckDB's `duckdb_functions()`
+ */
+export interface CatalogFunction {
+  /** Function name */
+  name: string
+  /** Function kind, e.g. `scalar`, `aggregate`, `table` or `macro` */
+  type: string
+  /** Description from the catalog, if any */
+  description: string | null
+  /** Parameter names */
+  parameters: string[]
+  /** Parameter types, in parameter order */
+  parameterTypes: string[]
+  /** Return type (null for table functions) */
+  returnType: string | null
+  /** Type of the variable arguments, if the function takes any */
+  varargs: string | null
+  /** Usage examples from the catalog */
+  examples: string[]
+}
+
+/**
+ * A table or view from DuckDB's `duckdb_tables()` / `duckdb_views()`
+ */
+export interface CatalogRelation {
+  /** Database (catalog) name, e.g. `memory`, `temp` or an attached database */
+  database: string
+  /** Schema name */
+  schema: string
+  /** Table or view name */
+  name: string
+  /** Whether this is a table or a view */
+  kind: 'table' | 'view'
+  /** Whether the relation is temporary */
+  temporary: boolean
+  /** Columns in table order */
+  columns: ColumnInfo[]
+}
+
+/**
+ * Snapshot of the live DuckDB catalog, used for editor completion
+ */
+export interface DuckDBCatalog {
+  /** Database that unqualified names resolve to */
+  currentDatabase: string
+  /** Databases, including attached ones */
+  databases: string[]
+  /** Tables and views of all databases */
+  relations: CatalogRelation[]
+  /** Functions and macros, one entry per overload */
+  functions: CatalogFunction[]
+  /** SQL keywords the loaded DuckDB version knows */
+  keywords: string[]
+}
+
+/**
+ * An operator of a query plan, from DuckDB's JSON profiling output
+ */
+export interface QueryPlanOperator {
+  /** Identifier unique within the plan */
+  id: string
+  /** Operator name, e.g. `HASH_JOIN` or `TABLE_SCAN` */
+  name: string
+  /** Seconds spent in the operator itself (only when the query ran) */
+  timing: number | null
+  /** Rows the operator produced (only when the query ran) */
+  cardinality: number | null
+  /** Details such as projections, filters, the scanned table and estimates */
+  extraInfo: Record<string, string>
+  /** Operators feeding rows into this one */
+  children: QueryPlanOperator[]
+}
+
+/**
+ * Query plan of a statement, from `EXPLAIN` or `EXPLAIN ANALYZE`
+ */
+export interface QueryPlan {
+  /** The explained statement */
+  sql: string
+  /** Whether the statement ran (`EXPLAIN ANALYZE`), so timings are known */
+  analyzed: boolean
+  /** Total time of the query in seconds (only when the query ran) */
+  latency: number | null
+  /** Root operators of the plan */
+  operators: QueryPlanOperator[]
+  /** The profiling output as DuckDB returned it */
+  raw: string
+}
+
 /**
  * Data source loading status
  */
@@ -573,6 +1125,102 @@ export type DataSourceLoadingStatus =
   | 'failed'
   | 'verification_needed'
 
+/**
+ * A column of a CSV file being imported
+ */
+export interface CSVImportColumn {
+  /** Column name in the created table */
+  name: string
+  /** DuckDB type the column is read as, e.g. `BIGINT` or `DATE` */
+  type: string
+}
+
+/**
+ * Dialect and column layout used to import a CSV file
+ */
+export interface CSVImportOptions {
+  /** Table to create (derived from the file name when omitted) */
+  tableName?: string | undefined
+  /** Column delimiter */
+  delimiter: string
+  /** Quote character, empty for none */
+  quote: string
+  /** Escape character, empty for none */
+  escape: string
+  /** Whether the first row after `skipRows` holds the column names */
+  header: boolean
+  /** Number of lines to skip at the start of the file */
+  skipRows: number
+  /** strptime format of DATE columns (detected when omitted) */
+  dateFormat?: string | undefined
+  /** strptime format of TIMESTAMP columns (detected when omitted) */
+  timestampFormat?: string | undefined
+  /** Columns in file order */
+  columns: CSVImportColumn[]
+}
+
+/**
+ * Format of a file imported as a data source, detected from its magic bytes
+ * (or, for text formats, its extension and first line)
+ */
+export type ImportFileFormat =
+  | 'csv'
+  | 'parquet'
+  | 'json'
+  | 'ndjson'
+  | 'arrow'
+  | 'excel'
+  | 'duckdb'
+  | 'sqlite'
+
+/**
+ * Options a file data source was imported with
+ */
+export interface DataSourceImportOptions {
+  /** Detected file format */
+  format: ImportFileFormat
+  /** Dialect and columns chosen in the CSV import dialog */
+  csv?: CSVImportOptions | undefined
+  /** Imported sheet of an Excel workbook */
+  sheet?: string | undefined
+}
+
+/**
+ * HTTP validators of a downloaded remote file, used to skip downloading it
+ * again when it has not changed
+ */
+export interface RemoteFileVersion {
+  /** `ETag` response header */
+  etag?: string | undefined
+  /** `Last-Modified` response header */
+  lastModified?: string | undefined
+}
+
+/**
+ * Refresh settings of a `url` data source
+ */
+export interface DataSourceRefreshOptions {
+  /**
+   * Reload the data source every `intervalMs` milliseconds
+   * Default: manual refresh only
+   */
+  intervalMs?: number | undefined
+  /**
+   * Whether to send the validators of the last download (If-None-Match /
+   * If-Modified-Since), so an unchanged file is not downloaded again
+   * Default: true
+   */
+  conditional?: boolean | undefined
+}
+
+/**
+ * How a data source is loaded into DuckDB
+ *
+ * - `copy`: download the file and copy its rows into a table
+ * - `view`: create a view that queries the remote file in place
+ */
+export type DataSourceImportStrategy = 'copy' | 'view'
+
 /**
  * Data source interface for SQL Cockpit
  */
@@ -636,6 +1284,37 @@ export interface DataSource {
    */
   url?: string
 
+  /**
+   * How a `url` data source is loaded (default: 'copy'). Use 'view' for
+   * large remote Parquet files: only the row groups a query needs are
+   * fetched, with HTTP range requests.
+   */
+  importStrategy?: DataSourceImportStrategy
+
+  /**
+   * Refresh settings of a `url` data source. Every data source loaded from a
+   * URL (and copied into a table) can be refreshed manually; set
+   * `intervalMs` to refresh it periodically. The table is replaced
+   * atomically, so queries never see a partially loaded table.
+   */
+  refresh?: DataSourceRefreshOptions
+
+  /**
+   * When a `url` data source was last downloaded or found unchanged
+   */
+  lastRefreshedAt?: Date
+
+  /**
+   * Validators of the last download of a `url` data source
+   */
+  remoteVersion?: RemoteFileVersion
+
+  /**
+   * How the data source's file was imported (set by the cockpit, so a
+   * persisted data source can be described and re-imported)
+   */
+  importOptions?: DataSourceImportOptions
+
   /**
    * File object for initial loading (for file type)
    */
@@ -653,6 +1332,14 @@ export interface DataSource {
    */
   columnOrder?: string[]
 
+  /**
+   * Optional Arrow schema for data sources with raw data. Without it, column
+   * types are inferred from the values: numbers, booleans, dates, arrays
+   * (LIST) and nested objects (STRUCT) keep their types. The schema's field
+   * order takes precedence over `columnOrder`.
+   */
+  dataSchema?: Schema
+
   /**
    * Loading status of the data source
    */
@@ -663,3 +1350,12 @@ export interface DataSource {
    */
   loadingError?: string
 }
+
+/**
+ * A data source as stored in the persisted data source catalog: origin,
+ * import options and schema, without the data itself
+ */
+export type DataSourceCatalogEntry = Omit<
+  DataSource,
+  'fileData' | 'data' | 'dataSchema' | 'loadingStatus' | 'loadingError'
+>